@@ -12,23 +12,82 @@ import {
   showLoadingStatus,
   showConfigPrompt,
   createReloadButton,
+  createSwitchProfileButton,
 } from './handlers/statusBar';
-import {
-  fetchRelayStatsWithRetry,
-  validateApiConfig,
-  getApiIdFromKey,
-} from './services/api';
-import { StatusBarConfig } from './interfaces/types';
+import { validateApiConfig } from './services/api';
+import { fetchUsageWithRetry, getUsageProvider } from './services/usageProvider';
+import { getServerVersion } from './services/responseValidator';
+import { StatusBarConfig, RelayProfile, CachedStats, LastErrorInfo } from './interfaces/types';
 // import { initializeI18n, t, setOnLanguageChangeCallback } from './utils/i18n'; // i18n 已移除
 import * as ConfigManager from './utils/configManager';
 import * as ClaudeSettingsWatcher from './utils/claudeSettingsWatcher';
-import { readClaudeSettings } from './utils/claudeSettingsReader';
+import * as HistoryStore from './services/historyStore';
+import { getProfileForecasts } from './services/forecast';
+import { evaluateBudgets } from './services/budgetPlanner';
+import * as DashboardPanel from './handlers/dashboardPanel';
+import * as AlertManager from './services/alertManager';
+import * as StatsCache from './services/statsCache';
+import * as ErrorReporter from './services/errorReporter';
+import * as PollScheduler from './services/pollScheduler';
+import * as ApiIdCache from './services/apiIdCache';
+import * as Coordinator from './services/windowCoordinator';
+import * as ProjectAttribution from './services/projectAttribution';
+import * as HttpClient from './services/httpClient';
+import { classifyError, createRelayError } from './services/apiErrors';
+import { showModelBreakdownPicker } from './handlers/modelBreakdown';
+import { exportUsage, exportProjectCosts } from './handlers/usageExport';
+import { registerUsageTreeView, refreshUsageTree } from './handlers/usageTreeView';
+import { registerProjectCostView, refreshProjectCostView } from './handlers/projectCostView';
+import { showProfileSwitcher } from './handlers/profileSwitcher';
+import { initializeConfigReview, reviewConfigChange } from './handlers/configReviewPanel';
+import { initializeAutoApplySources, clearAutoApplySources } from './services/autoApplySources';
+import * as ActiveProfile from './services/activeProfile';
+import {
+  readClaudeSettings,
+  describeClaudeSettingsSources,
+  describeClaudeSettingsFile,
+  collectCredentialCandidates,
+  getCredentialSourcePriority,
+  isWorkspaceScoped,
+  ClaudeSettingsFile,
+} from './utils/claudeSettingsReader';
+import {
+  registerClaudeSettingsPreview,
+  planClaudeSettingsUpdate,
+  previewClaudeSettingsUpdate,
+  applyClaudeSettingsUpdate,
+} from './utils/claudeSettingsWriter';
+import { validateTemplate, TEMPLATE_PLACEHOLDERS } from './utils/statusBarTemplate';
+
+/**
+ * 档案运行时状态
+ */
+interface ProfileRuntime {
+  profile: RelayProfile;
+  statusBarItem: vscode.StatusBarItem;
+  statusBarPriority: number;
+  refreshTimer?: NodeJS.Timeout;
+  lastGood?: CachedStats;
+  pollState: PollScheduler.PollState;
+  inFlight?: Promise<void>;
+  sharedUpdatedAt?: number;
+}
+
+/**
+ * 共享数据超过计划刷新时间多久后，跟随窗口自行刷新（毫秒）
+ */
+const SHARED_STATS_GRACE_MS = 30 * 1000;
 
 // 全局变量
-let statusBarItem: vscode.StatusBarItem;
+const profileRuntimes = new Map<string, ProfileRuntime>();
 let reloadButton: vscode.StatusBarItem;
-let refreshTimer: NodeJS.Timeout | undefined;
+
+/**
+ * 切换档案按钮（配置了多个档案时显示）
+ */
+let switchProfileButton: vscode.StatusBarItem | undefined;
 let isWindowFocused: boolean = true;
+let isRefreshTimerRunning: boolean = false;
 
 /**
  * 插件激活时调用
@@ -53,24 +112,66 @@ export async function activate(context: vscode.ExtensionContext) {
 
     log('[日志] Claude Relay Meter 插件激活中...');
 
-    // 创建状态栏项
-    statusBarItem = createStatusBarItem();
-    context.subscriptions.push(statusBarItem);
+    // 初始化本地用量历史存储
+    HistoryStore.initializeHistoryStore(context);
+    ProjectAttribution.initializeProjectAttribution(context);
+
+    // 初始化阈值提醒
+    AlertManager.initializeAlerts(context);
+
+    // 恢复上次成功获取的数据缓存
+    StatsCache.initializeStatsCache(context);
+    ApiIdCache.initializeApiIdCache(context);
+
+    // 初始化配置变更审阅（自动应用的配置来源）
+    initializeAutoApplySources(context);
+    initializeConfigReview(context);
+
+    // 初始化安全存储（迁移明文 API Key / API ID）
+    await ConfigManager.initializeSecrets(context);
+    ActiveProfile.initializeActiveProfile(context);
+
+    // 按档案创建状态栏项
+    syncProfiles();
 
     // 创建重载配置按钮
     reloadButton = createReloadButton();
     context.subscriptions.push(reloadButton);
 
+    // 创建切换档案按钮
+    switchProfileButton = createSwitchProfileButton();
+    context.subscriptions.push(switchProfileButton);
+    updateSwitchProfileButton();
+
     // ⚠️ 关键：立即显示状态栏项，确保用户能看到
     // 即使配置无效，状态栏也应该显示提示
-    statusBarItem.text = '$(sync~spin) Claude Relay Meter 初始化中...';
-    statusBarItem.show();
+    for (const runtime of profileRuntimes.values()) {
+      runtime.statusBarItem.text = '$(sync~spin) Claude Relay Meter 初始化中...';
+      runtime.statusBarItem.show();
+    }
     reloadButton.show();
     log('[日志] 状态栏项已创建并显示');
 
     // 注册命令
     registerCommands(context);
 
+    // 注册活动栏用量树视图
+    registerUsageTreeView(context, () => {
+      // 当前档案排在最前
+      const activeProfile = ActiveProfile.resolveActiveProfile(Array.from(profileRuntimes.values()).map((runtime) => runtime.profile));
+      return Array.from(profileRuntimes.values())
+        .filter((runtime) => runtime.lastGood)
+        .sort((a, b) => Number(b.profile === activeProfile) - Number(a.profile === activeProfile))
+        .map((runtime) => ({
+          name: runtime.profile.name,
+          data: (runtime.lastGood as CachedStats).data,
+          serverVersion: getServerVersion(runtime.profile.apiUrl),
+          active: profileRuntimes.size > 1 && runtime.profile === activeProfile,
+        }));
+    });
+    registerProjectCostView(context);
+    registerClaudeSettingsPreview(context);
+
     // 监听配置变更
     registerConfigurationListener(context);
 
@@ -80,23 +181,50 @@ export async function activate(context: vscode.ExtensionContext) {
     // 初始化配置:如果设置为空,自动从 Claude Settings 读取并填入
     await initializeConfigFromClaudeSettings();
 
-    // 获取配置并验证
-    const config = getConfiguration();
-    log(`[配置] API URL: ${config.apiUrl ? '已配置' : '未配置'}, API ID: ${config.apiId ? '已配置' : '未配置'}, API Key: ${config.apiKey ? '已配置' : '未配置'}`);
+    // 初始化可能写入了顶层配置，重新同步档案
+    syncProfiles();
 
-    const validation = validateApiConfig(config.apiUrl, config.apiId, config.apiKey);
+    // 多窗口协调：只有一个窗口负责刷新，其余窗口使用共享数据
+    startCoordinator(context);
+    applySharedStats();
 
-    if (!validation.valid) {
-      // 配置无效，显示配置提示
-      log('[日志] 配置无效 - ' + (validation.message || ''));
+    // 逐个档案验证配置
+    const validRuntimes: ProfileRuntime[] = [];
+    let firstInvalidMessage: string | undefined;
 
-      // ⚠️ 关键：显示配置提示状态栏（这会确保状态栏可见）
-      showConfigPrompt(statusBarItem, validation.missingConfig);
+    for (const runtime of profileRuntimes.values()) {
+      const { profile, statusBarItem } = runtime;
+      const label = getProfileLabel(profile);
+      log(`[配置] 档案 ${profile.name} - API URL: ${profile.apiUrl ? '已配置' : '未配置'}, API ID: ${profile.apiId ? '已配置' : '未配置'}, API Key: ${profile.apiKey ? '已配置' : '未配置'}`);
 
+      const validation = validateApiConfig(profile.apiUrl, profile.apiId, profile.apiKey, profile.provider);
+
+      if (!validation.valid) {
+        // 配置无效，显示配置提示
+        log(`[日志] 档案 ${profile.name} 配置无效 - ` + (validation.message || ''));
+
+        // ⚠️ 关键：显示配置提示状态栏（这会确保状态栏可见）
+        showConfigPrompt(statusBarItem, validation.missingConfig, label);
+
+        if (firstInvalidMessage === undefined) {
+          firstInvalidMessage = (label ? `[${label}] ` : '') + (validation.message || '');
+        }
+      } else {
+        // 有缓存数据时立即显示（其他窗口刚刷新的共享数据除外，均标记为过期），否则显示加载状态
+        if (runtime.lastGood) {
+          renderProfileStats(runtime, hasFreshSharedStats(runtime) ? undefined : runtime.lastGood.fetchedAt);
+        } else {
+          showLoadingStatus(statusBarItem, label);
+        }
+        validRuntimes.push(runtime);
+      }
+    }
+
+    if (firstInvalidMessage !== undefined) {
       // 显示更友好的首次配置提示
       vscode.window
         .showWarningMessage(
-          'Claude Relay Meter: ' + (validation.message || ''),
+          'Claude Relay Meter: ' + firstInvalidMessage,
           '立即配置',
           '稍后'
         )
@@ -105,15 +233,18 @@ export async function activate(context: vscode.ExtensionContext) {
             vscode.commands.executeCommand('claude-relay-meter.openSettings');
           }
         });
-    } else {
-      // 配置有效，开始更新数据
-      log('[日志] 配置有效，开始获取数据...');
+    }
 
-      // 显示加载状态
-      showLoadingStatus(statusBarItem);
+    if (validRuntimes.length > 0) {
+      // 配置有效，开始更新数据
+      log(`[日志] ${validRuntimes.length} 个档案配置有效，开始获取数据...`);
 
-      // 执行首次更新
-      await updateStats();
+      // 执行首次更新（各档案并行；其他窗口已在刷新的档案直接使用共享数据）
+      await Promise.all(
+        validRuntimes
+          .filter((runtime) => Coordinator.isLeader() || !hasFreshSharedStats(runtime))
+          .map((runtime) => updateProfileStats(runtime))
+      );
 
       // 启动定时刷新
       startRefreshTimer();
@@ -148,16 +279,23 @@ export async function activate(context: vscode.ExtensionContext) {
 export function deactivate() {
   log('[停用] 插件开始停用...');
 
-  // 清理定时器
-  if (refreshTimer) {
-    clearTimeout(refreshTimer);
-    refreshTimer = undefined;
-    log('[停用] 已清理定时器');
+  // 清理定时器和档案状态栏项
+  stopRefreshTimer();
+  for (const runtime of profileRuntimes.values()) {
+    runtime.statusBarItem.dispose();
   }
+  profileRuntimes.clear();
+  log('[停用] 已清理定时器');
 
   // 停止文件监听
   ClaudeSettingsWatcher.stopWatching();
 
+  // 释放多窗口刷新锁，其他窗口会接管刷新
+  Coordinator.stopCoordinator();
+
+  // 保存尚未写入磁盘的历史快照
+  HistoryStore.flushHistory();
+
   log('[停用] 插件停用完成');
 }
 
@@ -169,9 +307,9 @@ function registerCommands(context: vscode.ExtensionContext): void {
   // 刷新统计命令
   const refreshCommand = vscode.commands.registerCommand(
     'claude-relay-meter.refreshStats',
-    async () => {
-      log('[日志] 手动刷新统计数据');
-      await updateStats();
+    async (profileName?: string) => {
+      log(`[日志] 手动刷新统计数据${profileName ? `（档案：${profileName}）` : ''}`);
+      await updateStats(profileName);
     }
   );
 
@@ -210,23 +348,21 @@ function registerCommands(context: vscode.ExtensionContext): void {
 
         // 检查是否读取到配置
         if (!claudeSettings.apiKey && !claudeSettings.apiUrl) {
-          vscode.window.showWarningMessage('Claude Settings 文件中未找到有效配置');
+          vscode.window.showWarningMessage('Claude Settings 和环境变量中未找到有效配置');
           return;
         }
 
-        // 更新到 VSCode 配置
-        const config = vscode.workspace.getConfiguration('relayMeter');
-        if (claudeSettings.apiKey) {
-          await config.update('apiKey', claudeSettings.apiKey, true);
-        }
-        if (claudeSettings.apiUrl) {
-          await config.update('apiUrl', claudeSettings.apiUrl, true);
-        }
+        // 更新到 VSCode 配置（API Key 写入安全存储；来自项目配置时只应用到当前工作区）
+        await ConfigManager.updateVSCodeConfig(
+          claudeSettings.apiKey || '',
+          claudeSettings.apiUrl || '',
+          isWorkspaceScoped(claudeSettings)
+        );
 
         log('[日志] Claude Settings 配置已重新加载');
 
-        // 显示成功提示
-        vscode.window.showInformationMessage('配置已从 Claude Settings 重新加载');
+        // 显示成功提示（附带配置来源文件）
+        vscode.window.showInformationMessage(`配置已从 Claude Settings 重新加载：${describeClaudeSettingsSources(claudeSettings)}`);
 
         // 刷新数据
         await updateStats();
@@ -240,6 +376,33 @@ function registerCommands(context: vscode.ExtensionContext): void {
     }
   );
 
+  // 凭证来源诊断命令
+  const diagnoseCredentialSourcesCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.diagnoseCredentialSources',
+    async () => {
+      log('[命令] 诊断凭证来源');
+      await handleDiagnoseCredentialSources();
+    }
+  );
+
+  // 回写 Claude 配置命令
+  const applyToClaudeSettingsCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.applyToClaudeSettings',
+    async (profileName?: string) => {
+      log('[命令] 写入 Claude Code 配置');
+      await handleApplyToClaudeSettings(profileName);
+    }
+  );
+
+  // 切换中继档案命令（从状态栏按钮触发）
+  const switchProfileCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.switchProfile',
+    async () => {
+      log('[命令] 切换中继档案');
+      await handleSwitchProfile();
+    }
+  );
+
   // 手动更新配置命令（从 Tooltip 触发）
   const manualReloadConfigCommand = vscode.commands.registerCommand(
     'claude-relay-meter.manualReloadConfig',
@@ -249,7 +412,129 @@ function registerCommands(context: vscode.ExtensionContext): void {
     }
   );
 
-  context.subscriptions.push(refreshCommand, openSettingsCommand, openWebDashboardCommand, reloadClaudeConfigCommand, manualReloadConfigCommand);
+  // 设置 API Key 命令（保存到安全存储）
+  const setApiKeyCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.setApiKey',
+    async () => {
+      log('[命令] 设置 API Key');
+      await handleSetApiKey();
+    }
+  );
+
+  // 打开用量仪表盘命令
+  const showDashboardCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.showDashboard',
+    (profileName?: string) => {
+      log('[命令] 打开用量仪表盘');
+      DashboardPanel.showDashboard(context, profileName || getActiveProfileName());
+    }
+  );
+
+  // 模型使用明细命令
+  const showModelBreakdownCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.showModelBreakdown',
+    async (profileName?: string) => {
+      log('[命令] 查看模型使用明细');
+      const runtime = await pickProfileWithData(profileName);
+      if (runtime && runtime.lastGood) {
+        await showModelBreakdownPicker(runtime.lastGood.data.data.usage, getProfileLabel(runtime.profile));
+      }
+    }
+  );
+
+  // 导出用量数据命令
+  const exportUsageCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.exportUsage',
+    async (profileName?: string) => {
+      log('[命令] 导出用量数据');
+      const runtime = await pickProfileWithData(profileName);
+      if (runtime && runtime.lastGood) {
+        const snapshots = HistoryStore.querySnapshots({ profileName: runtime.profile.name });
+        await exportUsage(runtime.profile.name, runtime.lastGood.data.data, snapshots);
+      }
+    }
+  );
+
+  // 导出项目费用命令
+  const exportProjectCostsCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.exportProjectCosts',
+    async () => {
+      log('[命令] 导出项目费用');
+      await exportProjectCosts(ProjectAttribution.getProjectCosts());
+    }
+  );
+
+  // 清空项目费用命令
+  const clearProjectCostsCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.clearProjectCosts',
+    async () => {
+      const confirmButton = '清空';
+      const choice = await vscode.window.showWarningMessage(
+        '确定要清空所有项目的归属费用吗？',
+        { modal: true },
+        confirmButton
+      );
+
+      if (choice === confirmButton) {
+        log('[命令] 清空项目费用');
+        ProjectAttribution.clearProjectCosts();
+        refreshProjectCostView();
+        vscode.window.showInformationMessage('项目费用已清空');
+      }
+    }
+  );
+
+  // 重置阈值提醒状态命令
+  const resetAlertsCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.resetAlerts',
+    async () => {
+      log('[命令] 重置阈值提醒状态');
+      await AlertManager.resetAlertStates();
+      vscode.window.showInformationMessage('阈值提醒状态已重置，仍超过阈值的规则将在下次刷新时重新提醒');
+    }
+  );
+
+  // 清除 API ID 缓存命令
+  const clearApiIdCacheCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.clearApiIdCache',
+    async () => {
+      log('[命令] 清除 API ID 缓存');
+      await ApiIdCache.clearApiIdCache();
+      vscode.window.showInformationMessage('API ID 缓存已清除，将重新通过 API Key 获取');
+      await updateStats();
+    }
+  );
+
+  // 清除自动应用的配置来源命令
+  const clearAutoApplySourcesCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.clearAutoApplySources',
+    async () => {
+      log('[命令] 清除自动应用的配置来源');
+      await clearAutoApplySources();
+      vscode.window.showInformationMessage('已清除自动应用的配置来源，之后的配置变更将重新提示审阅');
+    }
+  );
+
+  // 清空本地用量历史命令
+  const clearHistoryCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.clearHistory',
+    async () => {
+      const confirmButton = '清空';
+      const choice = await vscode.window.showWarningMessage(
+        '确定要清空本地保存的所有用量历史记录吗？',
+        { modal: true },
+        confirmButton
+      );
+
+      if (choice === confirmButton) {
+        log('[命令] 清空本地用量历史');
+        HistoryStore.clearHistory();
+        vscode.window.showInformationMessage('本地用量历史已清空');
+      }
+    }
+  );
+
+  context.subscriptions.push(refreshCommand, openSettingsCommand, openWebDashboardCommand, reloadClaudeConfigCommand, diagnoseCredentialSourcesCommand, applyToClaudeSettingsCommand, switchProfileCommand, manualReloadConfigCommand, setApiKeyCommand, showDashboardCommand, showModelBreakdownCommand, exportUsageCommand, exportProjectCostsCommand, clearProjectCostsCommand, resetAlertsCommand, clearApiIdCacheCommand, clearAutoApplySourcesCommand, clearHistoryCommand);
 }
 
 /**
@@ -259,10 +544,28 @@ function registerCommands(context: vscode.ExtensionContext): void {
 function registerConfigurationListener(context: vscode.ExtensionContext): void {
   const configListener = vscode.workspace.onDidChangeConfiguration(
     async (event) => {
+      // 代理、证书等网络设置变更时重建 HTTP 客户端（http.* 不属于 relayMeter，需单独刷新）
+      if (HttpClient.affectsHttpClient(event)) {
+        HttpClient.resetHttpClient();
+        if (!event.affectsConfiguration('relayMeter')) {
+          await updateStats();
+        }
+      }
+
       // 检查是否是插件相关的配置变更
       if (event.affectsConfiguration('relayMeter')) {
         log('[日志] 配置变更，刷新数据');
 
+        // 设置中出现明文凭证时迁移到安全存储
+        if (
+          event.affectsConfiguration('relayMeter.apiKey') ||
+          event.affectsConfiguration('relayMeter.apiId') ||
+          event.affectsConfiguration('relayMeter.profiles')
+        ) {
+          await ConfigManager.migrateCredentialsToSecrets();
+          await ConfigManager.loadSecrets();
+        }
+
         // 检查是否是监听开关变更
         if (event.affectsConfiguration('relayMeter.watchClaudeSettings')) {
           const watchEnabled = ConfigManager.isWatchEnabled();
@@ -277,7 +580,25 @@ function registerConfigurationListener(context: vscode.ExtensionContext): void {
           }
         }
 
-        // 重启定时器
+        // 凭证来源优先级变更后重新选择监听的文件
+        if (event.affectsConfiguration('relayMeter.credentialSources') && ConfigManager.isWatchEnabled()) {
+          ClaudeSettingsWatcher.startWatching(updateStats);
+          log('[配置变更] 凭证来源已变更，重新启动文件监听');
+        }
+
+        // 校验状态栏模板
+        if (event.affectsConfiguration('relayMeter.statusBarTemplate')) {
+          checkStatusBarTemplate();
+        }
+
+        // 多窗口共享开关变更
+        if (event.affectsConfiguration('relayMeter.shareAcrossWindows')) {
+          Coordinator.stopCoordinator();
+          startCoordinator(context);
+        }
+
+        // 同步档案列表并重启定时器
+        syncProfiles();
         startRefreshTimer();
 
         // 立即刷新数据
@@ -286,7 +607,30 @@ function registerConfigurationListener(context: vscode.ExtensionContext): void {
     }
   );
 
-  context.subscriptions.push(configListener);
+  // 其他窗口修改了安全存储中的凭证
+  const credentialListener = ConfigManager.onDidChangeCredentials(async () => {
+    log('[日志] 凭证变更，刷新数据');
+    await updateStats();
+  });
+
+  context.subscriptions.push(configListener, credentialListener);
+}
+
+/**
+ * 校验状态栏模板，包含未知占位符时提示用户
+ */
+function checkStatusBarTemplate(): void {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const template = config.get<string>('statusBarTemplate', '').trim();
+  const validation = validateTemplate(template);
+
+  if (!validation.valid) {
+    const supported = Object.keys(TEMPLATE_PLACEHOLDERS).map((name) => '${' + name + '}').join(' ');
+    log(`[配置] 状态栏模板包含未知占位符：${validation.unknownPlaceholders.join(', ')}。支持的占位符：${supported}`, true);
+    vscode.window.showWarningMessage(
+      `Claude Relay Meter: 状态栏模板包含未知占位符 ${validation.unknownPlaceholders.map((name) => '${' + name + '}').join(', ')}，将使用默认格式。支持的占位符请查看输出面板`
+    );
+  }
 }
 
 /**
@@ -299,9 +643,14 @@ function registerWindowFocusListener(context: vscode.ExtensionContext): void {
     isWindowFocused = state.focused;
 
     if (isWindowFocused && !wasFocused) {
-      // 窗口重新获得焦点，刷新数据
+      // 窗口重新获得焦点，由本窗口负责刷新，并刷新已过期的数据
       log('[日志] 窗口获得焦点，刷新数据');
-      updateStats();
+      Coordinator.claimLeadership();
+      for (const runtime of profileRuntimes.values()) {
+        if (!hasFreshSharedStats(runtime)) {
+          updateProfileStats(runtime);
+        }
+      }
       startRefreshTimer();
     }
   });
@@ -309,108 +658,465 @@ function registerWindowFocusListener(context: vscode.ExtensionContext): void {
   context.subscriptions.push(focusListener);
 }
 
+/**
+ * 同步档案列表：为新档案创建状态栏项，移除已删除档案的状态栏项
+ */
+function syncProfiles(): void {
+  const profiles = ConfigManager.getProfiles();
+  const profileNames = new Set(profiles.map((profile) => profile.name));
+
+  // 移除已不存在的档案
+  for (const [name, runtime] of profileRuntimes) {
+    if (!profileNames.has(name)) {
+      stopProfileTimer(runtime);
+      runtime.statusBarItem.dispose();
+      profileRuntimes.delete(name);
+      log(`[档案] 已移除档案：${name}`);
+    }
+  }
+
+  DashboardPanel.retainDashboardProfiles(Array.from(profileNames));
+  StatsCache.retainCachedStats(Array.from(profileNames));
+  ErrorReporter.retainErrorStates(Array.from(profileNames));
+  ApiIdCache.retainCachedApiIds(
+    profiles
+      .filter((profile) => profile.apiId.trim() === '' && profile.apiKey.trim() !== '')
+      .map((profile) => ({ apiUrl: profile.apiUrl, apiKey: profile.apiKey }))
+  );
+  refreshUsageTree();
+
+  // 当前档案排在最前，其余按配置顺序排列
+  const activeProfile = ActiveProfile.resolveActiveProfile(profiles);
+  const ordered = profiles.filter((profile) => profile === activeProfile).concat(profiles.filter((profile) => profile !== activeProfile));
+
+  // 新增或更新档案
+  ordered.forEach((profile, index) => {
+    // 优先级递减，保证多个档案按顺序排列（且都在重载按钮左侧）
+    const priority = 100 - index * 0.01;
+    const existing = profileRuntimes.get(profile.name);
+    if (existing) {
+      // API 地址或凭证变化后不再显示之前的数据
+      const credentialsChanged =
+        existing.profile.apiUrl !== profile.apiUrl || getProfileFingerprint(existing.profile) !== getProfileFingerprint(profile);
+      existing.profile = profile;
+      if (credentialsChanged) {
+        existing.lastGood = StatsCache.getCachedStats(profile.name, profile.apiUrl, getProfileFingerprint(profile));
+      }
+      // 状态栏项的优先级创建后不能修改，顺序变化时重新创建
+      if (existing.statusBarPriority !== priority) {
+        const { text, tooltip, color, backgroundColor, command } = existing.statusBarItem;
+        existing.statusBarItem.dispose();
+        existing.statusBarItem = createStatusBarItem(profile.name, priority);
+        Object.assign(existing.statusBarItem, { text, tooltip, color, backgroundColor, command });
+        existing.statusBarItem.show();
+        existing.statusBarPriority = priority;
+      }
+      return;
+    }
+
+    const statusBarItem = createStatusBarItem(profile.name, priority);
+    profileRuntimes.set(profile.name, {
+      profile,
+      statusBarItem,
+      statusBarPriority: priority,
+      lastGood: StatsCache.getCachedStats(profile.name, profile.apiUrl, getProfileFingerprint(profile)),
+      pollState: PollScheduler.createPollState(),
+    });
+    log(`[档案] 已添加档案：${profile.name}`);
+  });
+
+  updateSwitchProfileButton();
+}
+
+/**
+ * 根据档案数量显示或隐藏切换档案按钮
+ */
+function updateSwitchProfileButton(): void {
+  if (!switchProfileButton) {
+    return;
+  }
+  if (profileRuntimes.size > 1) {
+    switchProfileButton.show();
+  } else {
+    switchProfileButton.hide();
+  }
+}
+
+/**
+ * 获取当前档案名称
+ * @returns 当前档案名称，没有档案时返回 undefined
+ */
+function getActiveProfileName(): string | undefined {
+  return ActiveProfile.resolveActiveProfile(Array.from(profileRuntimes.values()).map((runtime) => runtime.profile))?.name;
+}
+
+/**
+ * 获取档案凭证的指纹（用于判断缓存和共享数据是否属于当前凭证）
+ * @param profile - 档案
+ * @returns 凭证指纹
+ */
+function getProfileFingerprint(profile: RelayProfile): string {
+  return StatsCache.getCredentialFingerprint(profile.apiId, profile.apiKey);
+}
+
+/**
+ * 获取档案在状态栏中显示的标签
+ * @param profile - 档案
+ * @returns 多档案时返回档案名称，单档案时返回 undefined（保持原有显示格式）
+ */
+function getProfileLabel(profile: RelayProfile): string | undefined {
+  return profileRuntimes.size > 1 ? profile.name : undefined;
+}
+
+/**
+ * 选择一个已有数据的档案
+ * @param profileName - 指定的档案名称（可选）
+ * @returns 档案运行时状态；没有可用数据或用户取消时返回 undefined
+ */
+async function pickProfileWithData(profileName?: string): Promise<ProfileRuntime | undefined> {
+  if (profileName) {
+    const runtime = profileRuntimes.get(profileName);
+    if (runtime && runtime.lastGood) {
+      return runtime;
+    }
+  }
+
+  const candidates = Array.from(profileRuntimes.values()).filter((runtime) => runtime.lastGood);
+
+  if (candidates.length === 0) {
+    vscode.window.showWarningMessage('暂无用量数据，请等待刷新完成后重试');
+    return undefined;
+  }
+
+  if (candidates.length === 1) {
+    return candidates[0];
+  }
+
+  const selected = await vscode.window.showQuickPick(
+    candidates.map((runtime) => ({ label: runtime.profile.name, description: runtime.profile.apiUrl, runtime })),
+    { placeHolder: '选择档案' }
+  );
+
+  return selected?.runtime;
+}
+
 /**
  * 更新统计数据
+ * @param profileName - 档案名称（可选，未提供时刷新所有档案）
  */
-async function updateStats(): Promise<void> {
-  try {
-    log('[日志] 开始刷新统计数据...');
+async function updateStats(profileName?: string): Promise<void> {
+  // 凭证可能已在安全存储中更新，先同步档案
+  syncProfiles();
+
+  const runtimes = Array.from(profileRuntimes.values()).filter(
+    (runtime) => !profileName || runtime.profile.name === profileName
+  );
+
+  // 各档案独立刷新，单个档案失败不影响其他档案
+  await Promise.all(runtimes.map((runtime) => updateProfileStats(runtime)));
+}
+
+/**
+ * 更新单个档案的统计数据（同一档案的刷新不会重叠执行）
+ * @param runtime - 档案运行时状态
+ */
+function updateProfileStats(runtime: ProfileRuntime): Promise<void> {
+  // 已有刷新在进行时复用它，避免重叠请求
+  if (runtime.inFlight) {
+    log(`[日志] 档案 ${runtime.profile.name} 正在刷新，跳过重复请求`);
+    return runtime.inFlight;
+  }
+
+  runtime.inFlight = fetchProfileStats(runtime).finally(() => {
+    runtime.inFlight = undefined;
+
+    // 每次刷新后按最新状态重新安排下一次定时刷新
+    let nextUpdateAt: number | undefined;
+    if (isRefreshTimerRunning && profileRuntimes.get(runtime.profile.name) === runtime) {
+      nextUpdateAt = scheduleNextRefresh(runtime);
+    }
+
+    // 将结果共享给其他窗口
+    if (runtime.lastGood) {
+      Coordinator.publishStats(runtime.profile.name, {
+        stats: runtime.lastGood,
+        lastError: ErrorReporter.getLastError(runtime.profile.name),
+        updatedAt: Date.now(),
+        nextUpdateAt,
+      });
+    }
+  });
+  return runtime.inFlight;
+}
+
+/**
+ * 获取单个档案的统计数据并更新界面
+ * @param runtime - 档案运行时状态
+ */
+async function fetchProfileStats(runtime: ProfileRuntime): Promise<void> {
+  const { profile, statusBarItem } = runtime;
+  const label = getProfileLabel(profile);
+  let resolvedFromKey = false;
 
-    // 获取配置
-    const config = getConfiguration();
+  try {
+    log(`[日志] 开始刷新统计数据（档案：${profile.name}）...`);
 
     // 先验证基础配置（API URL 和 API ID/Key 至少一个存在）
-    const validation = validateApiConfig(config.apiUrl, config.apiId, config.apiKey);
+    const validation = validateApiConfig(profile.apiUrl, profile.apiId, profile.apiKey, profile.provider);
     if (!validation.valid) {
-      log('[日志] 配置无效 - ' + (validation.message || ''), true);
-      showConfigPrompt(statusBarItem, validation.missingConfig);
+      log(`[日志] 档案 ${profile.name} 配置无效 - ` + (validation.message || ''), true);
+      showConfigPrompt(statusBarItem, validation.missingConfig, label);
       return;
     }
 
-    // 获取实际的 API ID（优先使用 apiId，其次使用 apiKey 转换）
-    let actualApiId = config.apiId;
+    const provider = getUsageProvider(profile.provider);
 
-    // 如果 apiId 为空但 apiKey 存在，则通过 apiKey 获取 apiId
-    if ((!actualApiId || actualApiId.trim() === '') && config.apiKey && config.apiKey.trim() !== '') {
-      try {
-        log('[API] 检测到 API Key，尝试获取 API ID...');
-        actualApiId = await getApiIdFromKey(config.apiUrl, config.apiKey);
-        log(`[更新] 通过 API Key 获取到 API ID：${actualApiId}`);
-      } catch (error) {
-        logError('[更新] 通过 API Key 获取 API ID 失败', error as Error);
-        throw new Error('无法通过 API Key 获取 API ID：' + (error as Error).message);
+    // 获取实际的 API ID（优先使用 apiId，其次使用 apiKey 转换）
+    let actualApiId = profile.apiId;
+
+    // 如果 apiId 为空但 apiKey 存在，则通过 apiKey 获取 apiId（仅需要 API ID 的数据源）
+    if (provider.resolveApiId && (!actualApiId || actualApiId.trim() === '') && profile.apiKey && profile.apiKey.trim() !== '') {
+      resolvedFromKey = true;
+      const cachedApiId = ApiIdCache.getCachedApiId(profile.apiUrl, profile.apiKey);
+
+      if (cachedApiId) {
+        actualApiId = cachedApiId;
+      } else {
+        try {
+          log('[API] 检测到 API Key，尝试获取 API ID...');
+          actualApiId = await provider.resolveApiId(profile.apiUrl, profile.apiKey);
+          await ApiIdCache.saveCachedApiId(profile.apiUrl, profile.apiKey, actualApiId);
+          log(`[更新] 通过 API Key 获取到 API ID：${actualApiId}`);
+        } catch (error) {
+          logError('[更新] 通过 API Key 获取 API ID 失败', error as Error);
+          const relayError = classifyError(error, 'API Key 转换失败');
+          throw createRelayError(relayError.kind, '无法通过 API Key 获取 API ID：' + relayError.message, relayError.status);
+        }
       }
     }
 
-    // 显示加载状态
-    showLoadingStatus(statusBarItem);
+    // 没有可显示的数据时才显示加载状态，避免刷新时数字闪烁消失
+    if (!runtime.lastGood) {
+      showLoadingStatus(statusBarItem, label);
+    }
 
-    // 获取数据（带重试）
-    const data = await fetchRelayStatsWithRetry(
-      config.apiUrl,
-      actualApiId,
-      3, // 最多重试 3 次
+    // 获取数据（带重试；连续失败期间由调度器退避，不再在单次刷新内重试）
+    const data = await fetchUsageWithRetry(
+      provider,
+      { apiUrl: profile.apiUrl, apiId: actualApiId, apiKey: profile.apiKey, jsonPath: profile.jsonPath },
+      runtime.pollState.consecutiveFailures > 0 ? 1 : 3, // 最多重试 3 次
       1000 // 初始延迟 1 秒
     );
+    PollScheduler.recordPollSuccess(runtime.pollState, data);
+
+    // 缓存最近一次成功的数据（内存和 globalState）
+    runtime.lastGood = {
+      data,
+      apiUrl: profile.apiUrl,
+      apiId: actualApiId,
+      keyFingerprint: getProfileFingerprint(profile),
+      fetchedAt: Date.now(),
+    };
+    await StatsCache.saveCachedStats(profile.name, runtime.lastGood);
+    ErrorReporter.reportSuccess(profile.name, label);
+
+    // 保存用量快照到本地历史（预测基于历史快照计算）
+    HistoryStore.recordSnapshot(profile.name, data);
+
+    // 将两次刷新之间的费用增量归属到当前项目（项目预算基于归属费用计算）
+    ProjectAttribution.attributeUsage(profile.name, data, isWindowFocused);
 
     // 更新状态栏
-    updateStatusBar(statusBarItem, data, config.apiUrl, actualApiId);
+    renderProfileStats(runtime);
 
-    log('[日志] ��计数据更新成功');
+    // 实时更新仪表盘和树视图
+    DashboardPanel.updateDashboard(profile.name, data);
+    refreshUsageTree();
+    refreshProjectCostView();
+
+    // 检查阈值提醒规则和个人预算
+    await AlertManager.evaluateAlerts(profile.name, data, label);
+    await AlertManager.evaluateBudgetAlerts(profile.name, evaluateBudgets(profile.name, data), label);
+
+    log(`[日志] 统计数据更新成功（档案：${profile.name}）`);
   } catch (error) {
-    logError('[更新] 更新统计数据失败', error as Error);
-    showErrorStatus(statusBarItem, '获取数据失败');
-
-    // 显示错误提示（仅在首次失败时显示）
-    vscode.window
-      .showErrorMessage(
-        'Claude Relay Meter: 获取数据失败 - ' + (error as Error).message,
-        '重试',
-        '打开设置'
-      )
-      .then((selection) => {
-        if (selection === '重试') {
-          updateStats();
-        } else if (selection === '打开设置') {
-          vscode.commands.executeCommand('claude-relay-meter.openSettings');
-        }
-      });
+    logError(`[更新] 档案 ${profile.name} 更新统计数据失败`, error as Error);
+    PollScheduler.recordPollFailure(runtime.pollState);
+
+    // 缓存的 API ID 可能已失效（例如 API Key 被重新生成），下次刷新时重新获取
+    const errorKind = classifyError(error, '刷新失败').kind;
+    if (resolvedFromKey && (errorKind === 'auth' || errorKind === 'client')) {
+      await ApiIdCache.invalidateCachedApiId(profile.apiUrl, profile.apiKey);
+    }
+
+    // 记录失败并按通知策略决定是否弹出通知（连续失败不重复弹出）
+    const lastError = ErrorReporter.reportFailure(profile.name, error, label, !!runtime.lastGood);
+
+    // 有缓存数据时显示过期数据
+    if (runtime.lastGood) {
+      renderProfileStats(runtime, runtime.lastGood.fetchedAt);
+      return;
+    }
+
+    showErrorStatus(statusBarItem, '获取数据失败', label, lastError);
   }
 }
 
 /**
- * 启动定时刷新
+ * 使用档案缓存的最新数据渲染状态栏
+ * @param runtime - 档案运行时状态
+ * @param staleSince - 数据过期的起始时间（可选，提供时以过期样式显示）
+ * @param lastError - 最近一次错误（可选，默认使用本窗口记录的错误）
+ */
+function renderProfileStats(runtime: ProfileRuntime, staleSince?: number, lastError?: LastErrorInfo): void {
+  if (!runtime.lastGood) {
+    return;
+  }
+
+  const { data, apiUrl, apiId } = runtime.lastGood;
+  updateStatusBar(runtime.statusBarItem, data, apiUrl, apiId, {
+    profileName: getProfileLabel(runtime.profile),
+    isActiveProfile: profileRuntimes.size > 1 && runtime.profile.name === getActiveProfileName(),
+    forecasts: getProfileForecasts(runtime.profile.name, data.data.limits),
+    budgets: evaluateBudgets(runtime.profile.name, data),
+    staleSince,
+    lastError: staleSince !== undefined ? lastError || ErrorReporter.getLastError(runtime.profile.name) : undefined,
+  });
+}
+
+/**
+ * 启动定时刷新（每个档案按自适应调度独立安排下一次刷新）
  */
 function startRefreshTimer(): void {
   // 先停止现有的定时器
   stopRefreshTimer();
+  isRefreshTimerRunning = true;
 
-  // 获取刷新间隔配置
-  const config = getConfiguration();
-  const intervalMs = config.refreshInterval * 1000;
-
-  log('[日志] 启动定时刷新，间隔：' + config.refreshInterval + ' 秒');
+  for (const runtime of profileRuntimes.values()) {
+    log(`[日志] 启动定时刷新（档案：${runtime.profile.name}），基础间隔：${runtime.profile.refreshInterval} 秒`);
+    scheduleNextRefresh(runtime);
+  }
+}
 
-  // 创建新的定时器
-  refreshTimer = setInterval(async () => {
-    // 只在窗口有焦点时更新（可选）
-    if (isWindowFocused) {
-      log('[定时器] 执行定时更新...');
-      await updateStats();
+/**
+ * 安排档案的下一次定时刷新
+ * @param runtime - 档案运行时状态
+ * @returns 计划刷新的时间戳
+ */
+function scheduleNextRefresh(runtime: ProfileRuntime): number {
+  stopProfileTimer(runtime);
+
+  const { profile } = runtime;
+  const { delayMs, reason } = PollScheduler.getNextPollDelay(
+    runtime.pollState,
+    profile.refreshInterval,
+    runtime.lastGood?.data
+  );
+  log(`[定时器] 档案 ${profile.name} 下次刷新：${Math.round(delayMs / 1000)} 秒后（${reason}）`);
+
+  runtime.refreshTimer = setTimeout(() => {
+    runtime.refreshTimer = undefined;
+
+    if (!Coordinator.isLeader() && hasFreshSharedStats(runtime)) {
+      log(`[定时器] 其他窗口负责刷新，跳过此次更新（档案：${profile.name}）`);
+      scheduleNextRefresh(runtime);
+    } else if (isWindowFocused) {
+      // 只在窗口有焦点时更新（可选）
+      log(`[定时器] 执行定时更新（档案：${profile.name}）...`);
+      updateProfileStats(runtime);
     } else {
       log('[定时器] 窗口无焦点，跳过此次更新');
+      scheduleNextRefresh(runtime);
+    }
+  }, delayMs);
+
+  return Date.now() + delayMs;
+}
+
+/**
+ * 启动多窗口协调
+ * @param context - VSCode 扩展上下文
+ */
+function startCoordinator(context: vscode.ExtensionContext): void {
+  Coordinator.initializeCoordinator(context, {
+    onLeadershipChange: (isLeader) => {
+      // 激活过程中由首次更新负责获取数据
+      if (isLeader && isRefreshTimerRunning) {
+        // 接管刷新后立即刷新已过期的档案
+        for (const runtime of profileRuntimes.values()) {
+          if (!hasFreshSharedStats(runtime)) {
+            updateProfileStats(runtime);
+          }
+        }
+      }
+    },
+    onSharedStatsChange: applySharedStats,
+    onHistoryChange: HistoryStore.reloadHistory,
+  });
+}
+
+/**
+ * 判断档案是否有其他窗口刚刷新过、且尚未超过计划刷新时间的共享数据
+ * @param runtime - 档案运行时状态
+ * @returns 共享数据仍有效时返回 true
+ */
+function hasFreshSharedStats(runtime: ProfileRuntime): boolean {
+  const entry = Coordinator.getSharedStats(runtime.profile.name, runtime.profile.apiUrl, getProfileFingerprint(runtime.profile));
+  return !!entry && entry.nextUpdateAt !== undefined && Date.now() < entry.nextUpdateAt + SHARED_STATS_GRACE_MS;
+}
+
+/**
+ * 使用其他窗口写入的共享数据更新各档案的显示
+ */
+function applySharedStats(): void {
+  let changed = false;
+
+  for (const runtime of profileRuntimes.values()) {
+    const entry = Coordinator.getSharedStats(runtime.profile.name, runtime.profile.apiUrl, getProfileFingerprint(runtime.profile));
+    if (!entry || (runtime.sharedUpdatedAt !== undefined && entry.updatedAt <= runtime.sharedUpdatedAt)) {
+      continue;
     }
-  }, intervalMs);
+    // 本窗口的数据更新时不使用共享数据
+    if (runtime.lastGood && runtime.lastGood.fetchedAt > entry.stats.fetchedAt) {
+      continue;
+    }
+
+    runtime.sharedUpdatedAt = entry.updatedAt;
+    runtime.lastGood = entry.stats;
+    if (entry.lastError) {
+      renderProfileStats(runtime, entry.stats.fetchedAt, entry.lastError);
+    } else {
+      renderProfileStats(runtime);
+    }
+    DashboardPanel.updateDashboard(runtime.profile.name, entry.stats.data);
+    changed = true;
+    log(`[多窗口] 已使用共享数据更新档案：${runtime.profile.name}`);
+  }
+
+  if (changed) {
+    refreshUsageTree();
+    refreshProjectCostView();
+  }
 }
 
 /**
  * 停止定时刷新
  */
 function stopRefreshTimer(): void {
-  if (refreshTimer) {
-    clearInterval(refreshTimer);
-    refreshTimer = undefined;
-    log('[定时器] 已停止定时刷新');
+  isRefreshTimerRunning = false;
+  for (const runtime of profileRuntimes.values()) {
+    stopProfileTimer(runtime);
+  }
+}
+
+/**
+ * 停止单个档案的定时刷新
+ * @param runtime - 档案运行时状态
+ */
+function stopProfileTimer(runtime: ProfileRuntime): void {
+  if (runtime.refreshTimer) {
+    clearTimeout(runtime.refreshTimer);
+    runtime.refreshTimer = undefined;
   }
 }
 
@@ -421,10 +1127,10 @@ function stopRefreshTimer(): void {
 function getConfiguration(): StatusBarConfig {
   const config = vscode.workspace.getConfiguration('relayMeter');
 
-  // 直接从 VSCode 设置读取配置
-  const apiUrl = config.get<string>('apiUrl', '');
-  const apiId = config.get<string>('apiId', '');
-  const apiKey = config.get<string>('apiKey', '');
+  // 直接从 VSCode 设置读取配置（当前工作区应用的项目配置优先）
+  const apiUrl = ConfigManager.getApiUrl();
+  const apiId = ConfigManager.getCredential(undefined, 'apiId');
+  const apiKey = ConfigManager.getCredential(undefined, 'apiKey');
 
   return {
     apiUrl,
@@ -471,8 +1177,8 @@ async function initializeConfigFromClaudeSettings(): Promise<void> {
 
   // 写入 VSCode 设置
   try {
-    await ConfigManager.updateVSCodeConfig(claudeSettings.apiKey, claudeSettings.apiUrl);
-    log('[初始化] 从 Claude Settings 自动填入配置成功');
+    await ConfigManager.updateVSCodeConfig(claudeSettings.apiKey, claudeSettings.apiUrl, isWorkspaceScoped(claudeSettings));
+    log(`[初始化] 从 Claude Settings 自动填入配置成功（${describeClaudeSettingsSources(claudeSettings)}）`);
   } catch (error) {
     if (error instanceof Error) {
       log(`[初始化] 从 Claude Settings 填入配置失败: ${error.message}`, true);
@@ -480,6 +1186,56 @@ async function initializeConfigFromClaudeSettings(): Promise<void> {
   }
 }
 
+/**
+ * 处理设置 API Key 命令：选择档案并通过密码输入框保存到安全存储
+ */
+async function handleSetApiKey(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const hasProfiles = (config.get<unknown[]>('profiles', []) || []).length > 0;
+
+  // 1. 选择档案（未配置多档案时使用顶层配置）
+  let selectedProfile: RelayProfile | undefined;
+  if (hasProfiles) {
+    const selected = await vscode.window.showQuickPick(
+      ConfigManager.getProfiles().map((profile) => ({ label: profile.name, description: profile.apiUrl, profile })),
+      { placeHolder: '选择要设置 API Key 的档案' }
+    );
+    if (!selected) {
+      return;
+    }
+    selectedProfile = selected.profile;
+  }
+  const profileName = selectedProfile?.name;
+
+  // 2. 输入 API Key
+  const currentKey = selectedProfile ? selectedProfile.apiKey : ConfigManager.getCredential(undefined, 'apiKey');
+
+  const apiKey = await vscode.window.showInputBox({
+    title: `设置 API Key${profileName ? `（档案：${profileName}）` : ''}`,
+    prompt: currentKey
+      ? `当前：${ConfigManager.maskApiKey(currentKey)}。留空并确认将删除已保存的 API Key`
+      : 'API Key 将保存在 VSCode 安全存储中，不会写入 settings.json',
+    placeHolder: 'cr_...',
+    password: true,
+    ignoreFocusOut: true,
+  });
+
+  if (apiKey === undefined) {
+    return;
+  }
+
+  // 3. 保存到安全存储
+  try {
+    await ConfigManager.storeCredential(selectedProfile, 'apiKey', apiKey.trim());
+    vscode.window.showInformationMessage(apiKey.trim() ? 'API Key 已保存到安全存储' : 'API Key 已删除');
+    await updateStats(profileName);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logError(`[命令] 保存 API Key 失败：${errorMessage}`);
+    vscode.window.showErrorMessage('保存 API Key 失败: ' + errorMessage);
+  }
+}
+
 /**
  * 处理手动更新配置（从 Tooltip 按钮触发）
  */
@@ -491,7 +1247,7 @@ async function handleManualReloadConfig(): Promise<void> {
     const claudeSettings = readClaudeSettings();
 
     if (!claudeSettings.apiKey || !claudeSettings.apiUrl) {
-      vscode.window.showWarningMessage('Claude Settings 文件中未找到有效配置');
+      vscode.window.showWarningMessage('Claude Settings 和环境变量中未找到有效配置');
       return;
     }
 
@@ -510,33 +1266,27 @@ async function handleManualReloadConfig(): Promise<void> {
       return;
     }
 
-    // 4. 显示配置对比对话框
-    const message = '检测到 ~/.claude/settings.json 配置变更:\\n\\n当前: API URL: ' + (currentConfig?.apiUrl || '无') + ' | Key: ' + ConfigManager.maskApiKey(currentConfig?.apiKey || '') + '\\n新配置: API URL: ' + newConfig.apiUrl + ' | Key: ' + ConfigManager.maskApiKey(newConfig.apiKey) + '\\n\\n是否使用新配置?';
-
-    const useNewConfigButton = '使用新配置';
-    const keepCurrentConfigButton = '保持当前配置';
-    const openSettingsButton = '设置';
-
-    // 5. 提示用户选择（使用模态对话框）
-    const choice = await vscode.window.showInformationMessage(
-      message,
-      { modal: true },
-      useNewConfigButton,
-      keepCurrentConfigButton,
-      openSettingsButton
-    );
-
-    // 6. 处理用户选择
-    if (choice === useNewConfigButton) {
+    // 4. 在审阅面板中显示配置对比并测试新配置（非模态）
+    const choice = await reviewConfigChange({
+      title: '检测到 Claude Settings 配置变更',
+      currentConfig,
+      newConfig,
+      profile: ConfigManager.getDefaultProfile(),
+      claudeSettings,
+    });
+
+    // 5. 处理用户选择
+    if (choice === 'apply') {
       log('[手动更新] 用户选择：使用新配置');
-      await ConfigManager.updateVSCodeConfig(newConfig.apiKey, newConfig.apiUrl);
-      vscode.window.showInformationMessage('配置已更新');
+      const workspaceOnly = isWorkspaceScoped(claudeSettings);
+      await ConfigManager.updateVSCodeConfig(newConfig.apiKey, newConfig.apiUrl, workspaceOnly);
+      vscode.window.showInformationMessage(workspaceOnly ? '配置已更新（仅当前工作区）' : '配置已更新');
 
       // 刷新数据
       await updateStats();
-    } else if (choice === keepCurrentConfigButton) {
+    } else if (choice === 'keep') {
       log('[手动更新] 用户选择：保持当前配置');
-    } else if (choice === openSettingsButton) {
+    } else if (choice === 'settings') {
       log('[手动更新] 用户选择：打开设置');
       vscode.commands.executeCommand('workbench.action.openSettings', 'relayMeter');
     }
@@ -547,3 +1297,154 @@ async function handleManualReloadConfig(): Promise<void> {
     vscode.window.showErrorMessage(`更新配置失败: ${errorMessage}`);
   }
 }
+
+/**
+ * 处理写入 Claude Code 配置：预览差异，确认后把档案的 API 地址和 API Key 写入 settings.json
+ * @param profileName - 档案名称（可选，多档案且未指定时弹出选择）
+ */
+async function handleApplyToClaudeSettings(profileName?: string): Promise<void> {
+  const profiles = ConfigManager.getProfiles();
+  let profile = profiles.find((item) => item.name === profileName);
+
+  if (!profile) {
+    if (profiles.length === 1) {
+      profile = profiles[0];
+    } else {
+      const selected = await vscode.window.showQuickPick(
+        profiles.map((item) => ({ label: item.name, description: item.apiUrl, profile: item })),
+        { placeHolder: '选择要写入 Claude Code 配置的档案' }
+      );
+      profile = selected?.profile;
+    }
+  }
+  if (!profile) {
+    return;
+  }
+
+  if (!profile.apiUrl || !profile.apiKey) {
+    vscode.window.showWarningMessage(`档案"${profile.name}"缺少 API URL 或 API Key（Claude Code 需要 API Key，不能使用 API ID）`);
+    return;
+  }
+
+  try {
+    const plan = planClaudeSettingsUpdate(profile.apiUrl, profile.apiKey, profile.provider);
+    if (plan.newContent === plan.originalContent) {
+      vscode.window.showInformationMessage(`Claude Code 配置已与档案"${profile.name}"一致，无需写入`);
+      return;
+    }
+
+    await previewClaudeSettingsUpdate(plan);
+
+    const applyButton = '写入';
+    const choice = await vscode.window.showInformationMessage(
+      `将档案"${profile.name}"写入 ${describeClaudeSettingsFile(plan.file)}？只修改 env.ANTHROPIC_BASE_URL 和 env.ANTHROPIC_AUTH_TOKEN，写入前会备份原文件`,
+      applyButton,
+      '取消'
+    );
+    if (choice !== applyButton) {
+      log('[回写] 用户取消写入');
+      return;
+    }
+
+    const backupPath = applyClaudeSettingsUpdate(plan);
+    vscode.window.showInformationMessage(
+      `已写入 ${describeClaudeSettingsFile(plan.file)}${backupPath ? `，原文件已备份到 ${backupPath}` : ''}`
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logError(`[回写] 写入 Claude Code 配置失败：${errorMessage}`);
+    vscode.window.showErrorMessage(`写入 Claude Code 配置失败: ${errorMessage}`);
+  }
+}
+
+/**
+ * 处理切换中继档案：列出各档案今日剩余额度，选择后将该档案设为插件的当前档案，并切换 Claude Code 配置
+ */
+async function handleSwitchProfile(): Promise<void> {
+  const runtimes = Array.from(profileRuntimes.values());
+  if (runtimes.length < 2) {
+    vscode.window.showInformationMessage('只有一个中继档案，可在设置 relayMeter.profiles 中添加更多档案后切换');
+    return;
+  }
+
+  const activeName = getActiveProfileName();
+  const profile = await showProfileSwitcher({
+    profiles: runtimes.map((runtime) => runtime.profile),
+    getData: (name) => profileRuntimes.get(name)?.lastGood?.data,
+    refreshAll: async () => {
+      await Promise.all(Array.from(profileRuntimes.values()).map((runtime) => updateProfileStats(runtime)));
+    },
+    isCurrent: (item) => item.name === activeName,
+  });
+  if (!profile) {
+    return;
+  }
+
+  // 1. 切换插件的当前档案：状态栏项排到最前，仪表盘和用量树视图默认显示该档案
+  log(`[档案切换] 选择档案：${profile.name}`);
+  await ActiveProfile.setActiveProfile(profile);
+  syncProfiles();
+  for (const runtime of profileRuntimes.values()) {
+    renderProfileStats(runtime);
+  }
+  DashboardPanel.selectDashboardProfile(profile.name);
+  refreshUsageTree();
+
+  // 2. 切换 Claude Code 配置：与"写入 Claude Code 配置"相同，先预览差异再确认写入
+  await handleApplyToClaudeSettings(profile.name);
+}
+
+/**
+ * 处理凭证来源诊断：列出各来源提供的凭证以及最终生效的来源
+ */
+async function handleDiagnoseCredentialSources(): Promise<void> {
+  const priority = getCredentialSourcePriority();
+  const candidates = collectCredentialCandidates();
+  const result = readClaudeSettings();
+
+  const lines: string[] = [
+    '# 凭证来源诊断',
+    '',
+    `来源优先级（从高到低）：${priority.join(' > ')}`,
+    '',
+    '## 生效结果',
+    '',
+    `- API URL：${result.apiUrl || '未找到'}${result.apiUrlSource ? `（${describeClaudeSettingsFile(result.apiUrlSource)}）` : ''}`,
+    `- API Key：${result.apiKey ? ConfigManager.maskApiKey(result.apiKey) : '未找到'}${result.apiKeySource ? `（${describeClaudeSettingsFile(result.apiKeySource)}）` : ''}`,
+    '',
+    '## 各来源提供的凭证',
+    '',
+  ];
+
+  if (candidates.length === 0) {
+    lines.push('所有已启用的来源中都没有找到 ANTHROPIC_BASE_URL、ANTHROPIC_AUTH_TOKEN 或 ANTHROPIC_API_KEY。');
+  } else {
+    lines.push('| 来源 | API URL | API Key |', '| --- | --- | --- |');
+    for (const candidate of candidates) {
+      const urlWon = isSameCredentialSource(candidate.source, result.apiUrlSource);
+      const keyWon = isSameCredentialSource(candidate.source, result.apiKeySource);
+      const url = candidate.apiUrl ? `${candidate.apiUrl}${urlWon ? ' ✅' : ''}` : '-';
+      const key = candidate.apiKey
+        ? `${ConfigManager.maskApiKey(candidate.apiKey)}（${candidate.apiKeyVariable}）${keyWon ? ' ✅' : ''}`
+        : '-';
+      lines.push(`| ${describeClaudeSettingsFile(candidate.source)} | ${url} | ${key} |`);
+    }
+    lines.push('', '✅ 表示该项最终生效。可通过设置 relayMeter.credentialSources 调整来源优先级。');
+  }
+
+  const content = lines.join('\n');
+  log(`[凭证诊断]\n${content}`);
+
+  const document = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
+  await vscode.window.showTextDocument(document, { preview: true });
+}
+
+/**
+ * 判断两个凭证来源是否相同
+ * @param a - 来源
+ * @param b - 来源（可能为空）
+ * @returns 层级和路径都相同时返回 true
+ */
+function isSameCredentialSource(a: ClaudeSettingsFile, b: ClaudeSettingsFile | undefined): boolean {
+  return !!b && a.scope === b.scope && a.path === b.path;
+}
@@ -0,0 +1,417 @@
+/**
+ * 文件说明：配置变更审阅 Webview 面板
+ * 作用：以非模态面板并排显示当前配置和 Claude Settings 中的新配置，用户点击后使用新凭证请求中继测试连接，
+ *       由用户决定是否应用，并可记住"以后自动应用来自此来源的配置"
+ */
+
+import * as vscode from 'vscode';
+import { RelayProfile } from '../interfaces/types';
+import { classifyError, ERROR_KIND_LABELS } from '../services/apiErrors';
+import { rememberAutoApplySources, shouldAutoApply } from '../services/autoApplySources';
+import { getUsageProvider } from '../services/usageProvider';
+import { ClaudeSettingsResult, describeClaudeSettingsSources, WORKSPACE_SCOPES } from '../utils/claudeSettingsReader';
+import * as ConfigManager from '../utils/configManager';
+import { formatCost } from '../utils/formatter';
+import { log } from '../utils/logger';
+
+/**
+ * 用户的审阅结果
+ * - apply：使用新配置
+ * - keep：保持当前配置
+ * - settings：打开设置
+ * 关闭面板或被新的变更替换时为 undefined
+ */
+export type ConfigReviewChoice = 'apply' | 'keep' | 'settings';
+
+/**
+ * 审阅请求
+ */
+export interface ConfigReviewRequest {
+  /** 面板标题，例如"检测到 Claude Settings 配置变更" */
+  title: string;
+  currentConfig: ConfigManager.Config | null;
+  newConfig: ConfigManager.Config;
+  /** 新配置将应用到的档案（测试连接时使用该档案的数据源和通用 JSON 数据源配置） */
+  profile: RelayProfile;
+  /** 读取结果（用于显示来源和记住自动应用的来源） */
+  claudeSettings: ClaudeSettingsResult;
+  /** "保持当前配置"按钮的文字（默认为"保持当前配置"） */
+  keepLabel?: string;
+}
+
+/**
+ * 连接测试结果
+ */
+interface CredentialTestResult {
+  ok: boolean;
+  message: string;
+}
+
+/**
+ * Webview 发送给插件的消息
+ */
+interface ReviewMessage {
+  type: 'ready' | 'test' | 'apply' | 'keep' | 'settings';
+  remember?: boolean;
+}
+
+/**
+ * 扩展上下文（用于面板图标）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 当前打开的面板
+ */
+let panel: vscode.WebviewPanel | undefined;
+
+/**
+ * 面板当前审阅的请求
+ */
+let pendingRequest: ConfigReviewRequest | undefined;
+
+/**
+ * 当前请求的结果回调
+ */
+let resolvePending: ((choice: ConfigReviewChoice | undefined) => void) | undefined;
+
+/**
+ * 当前请求最近一次的测试结果
+ */
+let lastTestResult: CredentialTestResult | undefined;
+
+/**
+ * 初始化审阅面板
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeConfigReview(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+}
+
+/**
+ * 审阅配置变更
+ * @param request - 审阅请求
+ * @returns 用户的选择；来源已设为自动应用且测试通过时直接返回 'apply'
+ *
+ * 面板不是模态的：同一时间只有一个面板，新的变更会替换面板中的内容，之前的请求返回 undefined。
+ * 连接测试会把新的 Key 发送到新的地址，因此只在用户点击"测试连接"时进行；
+ * 自动应用时 API 地址来自工作区文件的变更也改为人工审阅
+ */
+export async function reviewConfigChange(request: ConfigReviewRequest): Promise<ConfigReviewChoice | undefined> {
+  const urlScope = request.claudeSettings.apiUrlSource?.scope;
+  const urlFromWorkspace = !!urlScope && WORKSPACE_SCOPES.includes(urlScope);
+  if (shouldAutoApply(request.claudeSettings) && urlFromWorkspace) {
+    log('[配置审阅] API 地址来自工作区文件，不自动测试，改为人工审阅');
+  } else if (shouldAutoApply(request.claudeSettings)) {
+    const result = await testCredentials(request.newConfig, request.profile);
+    if (result.ok) {
+      log(`[配置审阅] 来源已设为自动应用且测试通过，直接应用：${describeClaudeSettingsSources(request.claudeSettings)}`);
+      return 'apply';
+    }
+    log(`[配置审阅] 来源已设为自动应用但测试失败，改为人工审阅：${result.message}`, true);
+  }
+
+  resolvePending?.(undefined);
+  pendingRequest = request;
+  lastTestResult = undefined;
+
+  const choice = new Promise<ConfigReviewChoice | undefined>((resolve) => {
+    resolvePending = resolve;
+  });
+
+  showPanel();
+  postUpdate();
+
+  return choice;
+}
+
+/**
+ * 打开（或聚焦）审阅面板
+ */
+function showPanel(): void {
+  if (panel) {
+    panel.reveal(undefined, true);
+    return;
+  }
+
+  log('[配置审阅] 创建审阅面板');
+
+  panel = vscode.window.createWebviewPanel(
+    'claudeRelayMeterConfigReview',
+    'Claude Relay Meter 配置变更',
+    { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+    {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+    }
+  );
+  if (extensionContext) {
+    panel.iconPath = vscode.Uri.joinPath(extensionContext.extensionUri, 'icon.png');
+  }
+  panel.webview.html = getWebviewHtml(panel.webview);
+
+  panel.webview.onDidReceiveMessage((message: ReviewMessage) => {
+    void handleMessage(message);
+  });
+
+  panel.onDidDispose(() => {
+    panel = undefined;
+    pendingRequest = undefined;
+    log('[配置审阅] 审阅面板已关闭');
+    finish(undefined);
+  });
+}
+
+/**
+ * 处理 Webview 消息
+ * @param message - 消息
+ */
+async function handleMessage(message: ReviewMessage): Promise<void> {
+  const request = pendingRequest;
+  if (message.type === 'ready') {
+    postUpdate();
+    return;
+  }
+  if (!request) {
+    return;
+  }
+
+  switch (message.type) {
+    case 'test':
+      await runTest();
+      break;
+    case 'apply':
+      if (message.remember) {
+        await rememberAutoApplySources(request.claudeSettings);
+      }
+      finish('apply');
+      break;
+    case 'keep':
+    case 'settings':
+      finish(message.type);
+      break;
+  }
+}
+
+/**
+ * 结束当前请求并关闭面板
+ * @param choice - 用户的选择
+ */
+function finish(choice: ConfigReviewChoice | undefined): void {
+  const resolve = resolvePending;
+  resolvePending = undefined;
+  pendingRequest = undefined;
+  resolve?.(choice);
+  panel?.dispose();
+}
+
+/**
+ * 测试当前请求中的新凭证并把结果推送给 Webview
+ */
+async function runTest(): Promise<void> {
+  const request = pendingRequest;
+  if (!request || !panel) {
+    return;
+  }
+
+  lastTestResult = undefined;
+  panel.webview.postMessage({ type: 'testing' });
+
+  const result = await testCredentials(request.newConfig, request.profile);
+  // 测试期间面板内容可能已被新的变更替换
+  if (request !== pendingRequest || !panel) {
+    return;
+  }
+  lastTestResult = result;
+  panel.webview.postMessage({ type: 'testResult', ...result });
+}
+
+/**
+ * 使用新凭证请求中继，确认可以获取用量数据
+ * @param config - 新配置
+ * @param profile - 新配置将应用到的档案（使用其数据源和通用 JSON 数据源配置）
+ * @returns 测试结果
+ */
+async function testCredentials(config: ConfigManager.Config, profile: RelayProfile): Promise<CredentialTestResult> {
+  const provider = getUsageProvider(profile.provider);
+
+  try {
+    const apiId = provider.resolveApiId ? await provider.resolveApiId(config.apiUrl, config.apiKey) : '';
+    const data = await provider.fetchUsage({ apiUrl: config.apiUrl, apiId, apiKey: config.apiKey, jsonPath: profile.jsonPath });
+    const user = data.data;
+    log(`[配置审阅] 新配置测试通过：${config.apiUrl}`);
+    return {
+      ok: true,
+      message: `连接成功${user.name ? `：${user.name}` : ''}，今日费用 ${formatCost(user.limits.currentDailyCost)}`,
+    };
+  } catch (error) {
+    const relayError = classifyError(error, '连接测试失败');
+    log(`[配置审阅] 新配置测试失败（${relayError.kind}）：${relayError.message}`, true);
+    return { ok: false, message: `${ERROR_KIND_LABELS[relayError.kind]}：${relayError.message}` };
+  }
+}
+
+/**
+ * 向 Webview 推送当前请求
+ */
+function postUpdate(): void {
+  const request = pendingRequest;
+  if (!panel || !request) {
+    return;
+  }
+
+  const { currentConfig, newConfig, claudeSettings } = request;
+  panel.title = request.title;
+  panel.webview.postMessage({
+    type: 'update',
+    title: request.title,
+    keepLabel: request.keepLabel || '保持当前配置',
+    sources: describeClaudeSettingsSources(claudeSettings),
+    rows: [
+      {
+        label: 'API URL',
+        current: currentConfig?.apiUrl || '无',
+        next: newConfig.apiUrl,
+        changed: currentConfig?.apiUrl !== newConfig.apiUrl,
+      },
+      {
+        label: 'API Key',
+        current: currentConfig ? ConfigManager.maskApiKey(currentConfig.apiKey) : '无',
+        next: ConfigManager.maskApiKey(newConfig.apiKey),
+        changed: currentConfig?.apiKey !== newConfig.apiKey,
+      },
+      {
+        label: '来源',
+        current: 'VSCode 设置',
+        next: describeClaudeSettingsSources(claudeSettings),
+        changed: false,
+      },
+    ],
+    testResult: lastTestResult,
+  });
+}
+
+/**
+ * 生成随机 nonce（用于内容安全策略）
+ * @returns nonce 字符串
+ */
+function getNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+/**
+ * 生成 Webview HTML
+ * @param webview - Webview 实例
+ * @returns HTML 字符串
+ */
+function getWebviewHtml(webview: vscode.Webview): string {
+  const nonce = getNonce();
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Claude Relay Meter 配置变更</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px 20px; }
+    h1 { font-size: 1.3em; margin: 0 0 4px; }
+    table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+    th, td { border: 1px solid var(--vscode-panel-border); padding: 6px 10px; text-align: left; word-break: break-all; }
+    th { background: var(--vscode-editorWidget-background); }
+    td.old.changed { background: var(--vscode-diffEditor-removedTextBackground); }
+    td.new.changed { background: var(--vscode-diffEditor-insertedTextBackground); }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 12px; margin-right: 8px; cursor: pointer; }
+    button.secondary { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground); }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .test { margin: 12px 0; padding: 8px 10px; border-left: 3px solid var(--vscode-panel-border); }
+    .test.ok { border-color: var(--vscode-charts-green); }
+    .test.fail { border-color: var(--vscode-charts-red); }
+    label { display: block; margin: 12px 0; }
+  </style>
+</head>
+<body>
+  <h1 id="title"></h1>
+  <div class="muted">新配置来源：<span id="sources"></span></div>
+  <table>
+    <thead><tr><th></th><th>当前配置</th><th>新配置</th></tr></thead>
+    <tbody id="rows"></tbody>
+  </table>
+  <div id="test" class="test"></div>
+  <label><input type="checkbox" id="remember"> 以后自动应用来自此来源的配置（测试通过时不再询问）</label>
+  <div>
+    <button id="apply">使用新配置</button>
+    <button id="keep" class="secondary"></button>
+    <button id="retest" class="secondary">测试连接</button>
+    <button id="settings" class="secondary">设置</button>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+
+    function el(tag, text, className) {
+      const node = document.createElement(tag);
+      if (text !== undefined) { node.textContent = text; }
+      if (className) { node.className = className; }
+      return node;
+    }
+
+    function renderTest(result) {
+      const root = document.getElementById('test');
+      const apply = document.getElementById('apply');
+      if (result === 'testing') {
+        root.className = 'test';
+        root.textContent = '正在使用新配置测试连接...';
+        apply.textContent = '使用新配置';
+        return;
+      }
+      if (!result) {
+        root.className = 'test';
+        root.textContent = '尚未测试。点击"测试连接"会把新的 API Key 发送到新的 API URL，请确认地址可信后再测试。';
+        apply.textContent = '使用新配置';
+        return;
+      }
+      root.className = 'test ' + (result.ok ? 'ok' : 'fail');
+      root.textContent = (result.ok ? '✅ ' : '❌ ') + result.message;
+      apply.textContent = result.ok ? '使用新配置' : '仍然使用新配置';
+    }
+
+    function render(message) {
+      document.getElementById('title').textContent = message.title;
+      document.getElementById('sources').textContent = message.sources;
+      document.getElementById('keep').textContent = message.keepLabel;
+      document.getElementById('remember').checked = false;
+      const rows = document.getElementById('rows');
+      rows.replaceChildren();
+      message.rows.forEach(function (row) {
+        const tr = el('tr');
+        tr.appendChild(el('th', row.label));
+        tr.appendChild(el('td', row.current, 'old' + (row.changed ? ' changed' : '')));
+        tr.appendChild(el('td', row.next, 'new' + (row.changed ? ' changed' : '')));
+        rows.appendChild(tr);
+      });
+      renderTest(message.testResult);
+    }
+
+    window.addEventListener('message', function (event) {
+      const message = event.data || {};
+      if (message.type === 'update') { render(message); }
+      else if (message.type === 'testing') { renderTest('testing'); }
+      else if (message.type === 'testResult') { renderTest(message); }
+    });
+    document.getElementById('apply').addEventListener('click', function () {
+      vscode.postMessage({ type: 'apply', remember: document.getElementById('remember').checked });
+    });
+    document.getElementById('keep').addEventListener('click', function () { vscode.postMessage({ type: 'keep' }); });
+    document.getElementById('retest').addEventListener('click', function () { vscode.postMessage({ type: 'test' }); });
+    document.getElementById('settings').addEventListener('click', function () { vscode.postMessage({ type: 'settings' }); });
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,394 @@
+/**
+ * 文件说明：用量仪表盘 Webview 面板
+ * 作用：在 VSCode 内展示费用趋势、模型分布、Token 分布、限额仪表和窗口倒计时，并随每次刷新实时更新
+ */
+
+import * as vscode from 'vscode';
+import { RelayApiResponse } from '../interfaces/types';
+import * as HistoryStore from '../services/historyStore';
+import { log } from '../utils/logger';
+
+/**
+ * 趋势图使用的历史时长(毫秒)
+ */
+const CHART_HISTORY_SPAN = 24 * 60 * 60 * 1000;
+
+/**
+ * 当前打开的面板
+ */
+let panel: vscode.WebviewPanel | undefined;
+
+/**
+ * 面板当前显示的档案
+ */
+let selectedProfile: string | undefined;
+
+/**
+ * 各档案最近一次获取的数据
+ */
+const latestData = new Map<string, RelayApiResponse>();
+
+/**
+ * Webview 发送给插件的消息
+ */
+interface DashboardMessage {
+  type: 'ready' | 'selectProfile' | 'refresh';
+  profileName?: string;
+}
+
+/**
+ * 打开（或聚焦）用量仪表盘
+ * @param context - VSCode 扩展上下文
+ * @param profileName - 要显示的档案名称（可选）
+ */
+export function showDashboard(context: vscode.ExtensionContext, profileName?: string): void {
+  if (profileName) {
+    selectedProfile = profileName;
+  }
+
+  if (panel) {
+    panel.reveal();
+    postUpdate();
+    return;
+  }
+
+  log('[仪表盘] 创建仪表盘面板');
+
+  panel = vscode.window.createWebviewPanel(
+    'claudeRelayMeterDashboard',
+    'Claude Relay Meter 仪表盘',
+    vscode.ViewColumn.One,
+    {
+      enableScripts: true,
+      retainContextWhenHidden: true,
+    }
+  );
+  panel.iconPath = vscode.Uri.joinPath(context.extensionUri, 'icon.png');
+  panel.webview.html = getWebviewHtml(panel.webview);
+
+  // 面板的事件监听随面板一起释放，不放入 context.subscriptions，避免反复打开面板时不断累积
+  const disposables: vscode.Disposable[] = [];
+
+  panel.webview.onDidReceiveMessage(
+    (message: DashboardMessage) => {
+      if (message.type === 'ready') {
+        postUpdate();
+      } else if (message.type === 'selectProfile' && message.profileName) {
+        selectedProfile = message.profileName;
+        postUpdate();
+      } else if (message.type === 'refresh') {
+        vscode.commands.executeCommand('claude-relay-meter.refreshStats', selectedProfile);
+      }
+    },
+    undefined,
+    disposables
+  );
+
+  panel.onDidDispose(
+    () => {
+      panel = undefined;
+      disposables.forEach((disposable) => disposable.dispose());
+      log('[仪表盘] 仪表盘面板已关闭');
+    },
+    undefined,
+    disposables
+  );
+}
+
+/**
+ * 更新仪表盘数据（每次刷新成功后调用）
+ * @param profileName - 档案名称
+ * @param data - API 响应数据
+ */
+export function updateDashboard(profileName: string, data: RelayApiResponse): void {
+  latestData.set(profileName, data);
+
+  if (panel && (!selectedProfile || selectedProfile === profileName)) {
+    postUpdate();
+  }
+}
+
+/**
+ * 切换仪表盘显示的档案（切换当前档案时调用）
+ * @param profileName - 档案名称
+ */
+export function selectDashboardProfile(profileName: string): void {
+  selectedProfile = profileName;
+  postUpdate();
+}
+
+/**
+ * 移除已删除档案的数据
+ * @param profileNames - 当前存在的档案名称
+ */
+export function retainDashboardProfiles(profileNames: string[]): void {
+  for (const name of Array.from(latestData.keys())) {
+    if (!profileNames.includes(name)) {
+      latestData.delete(name);
+    }
+  }
+  if (selectedProfile && !profileNames.includes(selectedProfile)) {
+    selectedProfile = undefined;
+  }
+}
+
+/**
+ * 向 Webview 推送当前档案的数据
+ */
+function postUpdate(): void {
+  if (!panel) {
+    return;
+  }
+
+  const profiles = Array.from(latestData.keys());
+  if (!selectedProfile || !latestData.has(selectedProfile)) {
+    selectedProfile = profiles[0];
+  }
+
+  const data = selectedProfile ? latestData.get(selectedProfile) : undefined;
+  const history = selectedProfile
+    ? HistoryStore.querySnapshots({ profileName: selectedProfile, since: Date.now() - CHART_HISTORY_SPAN }).map(
+        (snapshot) => ({
+          t: snapshot.timestamp,
+          daily: snapshot.currentDailyCost,
+          window: snapshot.currentWindowCost,
+        })
+      )
+    : [];
+
+  panel.webview.postMessage({
+    type: 'update',
+    profiles,
+    profileName: selectedProfile,
+    data: data ? data.data : null,
+    history,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * 生成随机 nonce（用于内容安全策略）
+ * @returns nonce 字符串
+ */
+function getNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+/**
+ * 生成 Webview HTML
+ * @param webview - Webview 实例
+ * @returns HTML 字符串
+ */
+function getWebviewHtml(webview: vscode.Webview): string {
+  const nonce = getNonce();
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Claude Relay Meter 仪表盘</title>
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px 20px; }
+    header { display: flex; align-items: center; gap: 12px; flex-wrap: wrap; }
+    h1 { font-size: 1.4em; margin: 0; }
+    h2 { font-size: 1.1em; margin: 0 0 8px; }
+    select, button { background: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); padding: 2px 6px; }
+    button { cursor: pointer; }
+    .muted { color: var(--vscode-descriptionForeground); }
+    .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(320px, 1fr)); gap: 16px; margin-top: 16px; }
+    .card { border: 1px solid var(--vscode-panel-border); border-radius: 4px; padding: 12px; }
+    .gauge { margin-bottom: 10px; }
+    .gauge-label { display: flex; justify-content: space-between; font-size: 0.9em; }
+    .bar { height: 10px; background: var(--vscode-editorWidget-background); border-radius: 5px; overflow: hidden; margin-top: 3px; }
+    .bar > div { height: 100%; }
+    .row { display: flex; justify-content: space-between; font-size: 0.9em; margin-top: 6px; }
+    .stack { display: flex; height: 16px; border-radius: 4px; overflow: hidden; margin: 8px 0; }
+    .legend span { display: inline-block; width: 10px; height: 10px; margin-right: 4px; }
+    .countdown { font-size: 1.6em; font-weight: bold; }
+    svg text { fill: var(--vscode-descriptionForeground); font-size: 10px; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>⚡ Claude Relay Meter</h1>
+    <select id="profile"></select>
+    <button id="refresh">刷新</button>
+    <span id="updated" class="muted"></span>
+  </header>
+  <div id="empty" class="muted" style="margin-top: 16px;">暂无数据，请等待首次刷新完成。</div>
+  <div id="content" class="grid" style="display: none;">
+    <div class="card"><h2>限额使用</h2><div id="gauges"></div></div>
+    <div class="card"><h2>窗口倒计时</h2><div id="countdown" class="countdown"></div><div id="window-range" class="muted"></div></div>
+    <div class="card"><h2>费用趋势（24 小时）</h2><div id="chart"></div></div>
+    <div class="card"><h2>Token 分布</h2><div id="tokens"></div></div>
+    <div class="card"><h2>模型分布</h2><div id="models"></div></div>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const COLORS = ['var(--vscode-charts-blue)', 'var(--vscode-charts-green)', 'var(--vscode-charts-yellow)', 'var(--vscode-charts-purple)', 'var(--vscode-charts-orange)', 'var(--vscode-charts-red)'];
+    let countdownTimer;
+
+    function fmtCost(n) { return '$' + Number((Math.round(n * 10000) / 10000).toFixed(4)); }
+    function fmtNum(n) {
+      if (n >= 1e9) { return (n / 1e9).toFixed(2) + 'B'; }
+      if (n >= 1e6) { return (n / 1e6).toFixed(2) + 'M'; }
+      if (n >= 1e3) { return (n / 1e3).toFixed(1) + 'K'; }
+      return String(n);
+    }
+    function el(tag, text, style) {
+      const node = document.createElement(tag);
+      if (text !== undefined) { node.textContent = text; }
+      if (style) { node.setAttribute('style', style); }
+      return node;
+    }
+    function gaugeColor(p) { return p < 50 ? COLORS[1] : p < 80 ? COLORS[2] : COLORS[5]; }
+
+    function renderGauges(limits) {
+      const root = document.getElementById('gauges');
+      root.replaceChildren();
+      const items = [
+        ['每日', limits.currentDailyCost, limits.dailyCostLimit],
+        ['总计', limits.currentTotalCost, limits.totalCostLimit],
+        ['Opus 周', limits.weeklyOpusCost, limits.weeklyOpusCostLimit],
+        ['窗口', limits.currentWindowCost, limits.rateLimitCost]
+      ].filter(function (item) { return item[2] > 0; });
+      if (items.length === 0) { root.appendChild(el('div', '未设置费用限额', 'opacity: .7')); }
+      items.forEach(function (item) {
+        const percent = Math.min(100, (item[1] / item[2]) * 100);
+        const gauge = el('div'); gauge.className = 'gauge';
+        const label = el('div'); label.className = 'gauge-label';
+        label.appendChild(el('span', item[0]));
+        label.appendChild(el('span', fmtCost(item[1]) + ' / ' + fmtCost(item[2]) + '  ' + percent.toFixed(1) + '%'));
+        const bar = el('div'); bar.className = 'bar';
+        bar.appendChild(el('div', undefined, 'width:' + percent + '%; background:' + gaugeColor(percent)));
+        gauge.appendChild(label); gauge.appendChild(bar);
+        root.appendChild(gauge);
+      });
+    }
+
+    function renderCountdown(limits) {
+      const root = document.getElementById('countdown');
+      const range = document.getElementById('window-range');
+      clearInterval(countdownTimer);
+      if (!limits.windowEndTime) { root.textContent = '无窗口限制'; range.textContent = ''; return; }
+      const end = new Date(limits.windowEndTime).getTime();
+      range.textContent = new Date(limits.windowStartTime).toLocaleString() + ' ~ ' + new Date(end).toLocaleString();
+      function tick() {
+        const left = Math.max(0, Math.floor((end - Date.now()) / 1000));
+        const h = Math.floor(left / 3600), m = Math.floor((left % 3600) / 60), s = left % 60;
+        root.textContent = left > 0 ? h + ' 小时 ' + m + ' 分 ' + s + ' 秒' : '已重置';
+      }
+      tick();
+      countdownTimer = setInterval(tick, 1000);
+    }
+
+    function renderChart(history) {
+      const root = document.getElementById('chart');
+      root.replaceChildren();
+      if (history.length < 2) { root.appendChild(el('div', '历史数据不足（需开启本地用量历史并等待多次刷新）', 'opacity: .7')); return; }
+      const ns = 'http://www.w3.org/2000/svg';
+      const w = 360, h = 160, pad = 30;
+      const svg = document.createElementNS(ns, 'svg');
+      svg.setAttribute('viewBox', '0 0 ' + w + ' ' + h);
+      svg.setAttribute('width', '100%');
+      const t0 = history[0].t, t1 = history[history.length - 1].t;
+      const max = Math.max.apply(null, history.map(function (p) { return Math.max(p.daily, p.window); }).concat([0.0001]));
+      function x(t) { return pad + ((t - t0) / Math.max(1, t1 - t0)) * (w - pad * 2); }
+      function y(v) { return h - pad - (v / max) * (h - pad * 2); }
+      [['daily', COLORS[0], '每日费用'], ['window', COLORS[4], '窗口费用']].forEach(function (series, i) {
+        const line = document.createElementNS(ns, 'polyline');
+        line.setAttribute('fill', 'none');
+        line.setAttribute('stroke', series[1]);
+        line.setAttribute('stroke-width', '2');
+        line.setAttribute('points', history.map(function (p) { return x(p.t) + ',' + y(p[series[0]]); }).join(' '));
+        svg.appendChild(line);
+        const legend = document.createElementNS(ns, 'text');
+        legend.setAttribute('x', String(pad + i * 80)); legend.setAttribute('y', '12');
+        legend.setAttribute('style', 'fill:' + series[1]);
+        legend.textContent = series[2];
+        svg.appendChild(legend);
+      });
+      [[0, h - pad + 14, new Date(t0).toLocaleTimeString()], [w - pad * 3, h - pad + 14, new Date(t1).toLocaleTimeString()], [0, pad, fmtCost(max)]].forEach(function (label) {
+        const text = document.createElementNS(ns, 'text');
+        text.setAttribute('x', String(label[0])); text.setAttribute('y', String(label[1]));
+        text.textContent = label[2];
+        svg.appendChild(text);
+      });
+      root.appendChild(svg);
+    }
+
+    function renderTokens(total) {
+      const root = document.getElementById('tokens');
+      root.replaceChildren();
+      const parts = [['输入', total.inputTokens], ['输出', total.outputTokens], ['缓存创建', total.cacheCreateTokens], ['缓存读取', total.cacheReadTokens]];
+      const sum = parts.reduce(function (acc, part) { return acc + part[1]; }, 0);
+      if (sum === 0) { root.appendChild(el('div', '暂无 Token 使用', 'opacity: .7')); return; }
+      const stack = el('div'); stack.className = 'stack';
+      parts.forEach(function (part, i) { stack.appendChild(el('div', undefined, 'width:' + (part[1] / sum * 100) + '%; background:' + COLORS[i])); });
+      root.appendChild(stack);
+      parts.forEach(function (part, i) {
+        const row = el('div'); row.className = 'row legend';
+        const name = el('div'); name.appendChild(el('span', undefined, 'background:' + COLORS[i])); name.appendChild(document.createTextNode(part[0]));
+        row.appendChild(name);
+        row.appendChild(el('div', fmtNum(part[1]) + ' (' + (part[1] / sum * 100).toFixed(1) + '%)'));
+        root.appendChild(row);
+      });
+    }
+
+    function renderModels(models) {
+      const root = document.getElementById('models');
+      root.replaceChildren();
+      if (!models || models.length === 0) { root.appendChild(el('div', '中继未返回模型分布数据', 'opacity: .7')); return; }
+      const sorted = models.slice().sort(function (a, b) { return b.cost - a.cost; });
+      const totalCost = sorted.reduce(function (acc, m) { return acc + m.cost; }, 0) || 1;
+      sorted.forEach(function (model, i) {
+        const row = el('div'); row.className = 'row';
+        row.appendChild(el('span', model.displayName || model.modelName));
+        row.appendChild(el('span', fmtCost(model.cost) + ' · ' + fmtNum(model.requests) + ' 次 · ' + fmtNum(model.totalTokens) + ' Token'));
+        const bar = el('div'); bar.className = 'bar';
+        bar.appendChild(el('div', undefined, 'width:' + (model.cost / totalCost * 100) + '%; background:' + COLORS[i % COLORS.length]));
+        root.appendChild(row); root.appendChild(bar);
+      });
+    }
+
+    function render(message) {
+      const select = document.getElementById('profile');
+      select.replaceChildren();
+      message.profiles.forEach(function (name) {
+        const option = el('option', name); option.value = name; option.selected = name === message.profileName;
+        select.appendChild(option);
+      });
+      select.style.display = message.profiles.length > 1 ? '' : 'none';
+      document.getElementById('updated').textContent = '更新时间：' + new Date(message.updatedAt).toLocaleString();
+      const hasData = !!message.data;
+      document.getElementById('empty').style.display = hasData ? 'none' : '';
+      document.getElementById('content').style.display = hasData ? '' : 'none';
+      if (!hasData) { return; }
+      renderGauges(message.data.limits);
+      renderCountdown(message.data.limits);
+      renderChart(message.history);
+      renderTokens(message.data.usage.total);
+      renderModels(message.data.usage.models);
+    }
+
+    window.addEventListener('message', function (event) {
+      if (event.data && event.data.type === 'update') { render(event.data); }
+    });
+    document.getElementById('profile').addEventListener('change', function (event) {
+      vscode.postMessage({ type: 'selectProfile', profileName: event.target.value });
+    });
+    document.getElementById('refresh').addEventListener('click', function () {
+      vscode.postMessage({ type: 'refresh' });
+    });
+    vscode.postMessage({ type: 'ready' });
+  </script>
+</body>
+</html>`;
+}
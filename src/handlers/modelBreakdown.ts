@@ -0,0 +1,138 @@
+/**
+ * 文件说明：模型使用明细
+ * 作用：按费用排序模型使用数据，并通过 QuickPick 展示可逐层查看的模型明细
+ */
+
+import * as vscode from 'vscode';
+import { ModelUsage, UsageData } from '../interfaces/types';
+import { formatCost, formatLargeNumber, formatNumberWithDecimals } from '../utils/formatter';
+import { log } from '../utils/logger';
+
+/**
+ * 带费用占比的模型使用数据
+ */
+export interface ModelUsageShare extends ModelUsage {
+  share: number;
+}
+
+/**
+ * 模型列表中的 QuickPick 项
+ */
+interface ModelQuickPickItem extends vscode.QuickPickItem {
+  model: ModelUsageShare;
+}
+
+/**
+ * 按费用降序排列模型使用数据，并计算费用占比
+ * @param usage - 使用量数据
+ * @returns 排序后的模型列表（中继未返回模型数据时为空数组）
+ */
+export function getSortedModelUsage(usage: UsageData): ModelUsageShare[] {
+  const models = usage.models || [];
+  const modelCostSum = models.reduce((sum, model) => sum + model.cost, 0);
+  const totalCost = usage.total.cost > 0 ? usage.total.cost : modelCostSum;
+
+  return models
+    .map((model) => ({
+      ...model,
+      share: totalCost > 0 ? (model.cost / totalCost) * 100 : 0,
+    }))
+    .sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * 显示模型使用明细 QuickPick
+ * @param usage - 使用量数据
+ * @param title - 标题（可选，例如档案名称）
+ */
+export async function showModelBreakdownPicker(usage: UsageData, title?: string): Promise<void> {
+  const models = getSortedModelUsage(usage);
+
+  if (models.length === 0) {
+    vscode.window.showInformationMessage('中继服务未返回按模型分类的使用数据');
+    return;
+  }
+
+  // 循环显示：从明细返回时重新显示模型列表
+  while (true) {
+    const items: ModelQuickPickItem[] = models.map((model) => ({
+      label: `$(hubot) ${model.displayName || model.modelName}`,
+      description: `${formatCost(model.cost)} · ${formatNumberWithDecimals(model.share, 1)}%`,
+      detail: `请求 ${formatLargeNumber(model.requests)} · 输入 ${formatLargeNumber(model.inputTokens)} · 输出 ${formatLargeNumber(model.outputTokens)} · 缓存创建 ${formatLargeNumber(model.cacheCreateTokens)} · 缓存读取 ${formatLargeNumber(model.cacheReadTokens)}`,
+      model,
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      title: `模型使用明细${title ? ` - ${title}` : ''}`,
+      placeHolder: '选择模型查看详细数据（按费用排序）',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+
+    if (!selected) {
+      return;
+    }
+
+    log(`[模型明细] 查看模型：${selected.model.modelName}`);
+    const goBack = await showModelDetail(selected.model);
+    if (!goBack) {
+      return;
+    }
+  }
+}
+
+/**
+ * 显示单个模型的详细数据
+ * @param model - 模型使用数据
+ * @returns 用户选择返回列表时返回 true
+ */
+async function showModelDetail(model: ModelUsageShare): Promise<boolean> {
+  const avgCost = model.requests > 0 ? model.cost / model.requests : 0;
+  const avgTokens = model.requests > 0 ? Math.round(model.totalTokens / model.requests) : 0;
+  const cacheTokens = model.cacheCreateTokens + model.cacheReadTokens;
+  const cacheRate = model.totalTokens > 0 ? (cacheTokens / model.totalTokens) * 100 : 0;
+
+  const rows: [string, string][] = [
+    ['模型标识', model.modelName],
+    ['请求数', formatLargeNumber(model.requests)],
+    ['输入Token', formatLargeNumber(model.inputTokens)],
+    ['输出Token', formatLargeNumber(model.outputTokens)],
+    ['缓存创建Token', formatLargeNumber(model.cacheCreateTokens)],
+    ['缓存读取Token', formatLargeNumber(model.cacheReadTokens)],
+    ['总Token数', formatLargeNumber(model.totalTokens)],
+    ['缓存使用率', `${formatNumberWithDecimals(cacheRate, 1)}%`],
+    ['费用', `${model.formattedCost || formatCost(model.cost)}（精确：$${formatNumberWithDecimals(model.cost, 6)}）`],
+    ['费用占比', `${formatNumberWithDecimals(model.share, 2)}%`],
+    ['平均每次请求费用', `$${formatNumberWithDecimals(avgCost, 4)}`],
+    ['平均每次请求Token', formatLargeNumber(avgTokens)],
+  ];
+
+  const backItem: vscode.QuickPickItem = { label: '$(arrow-left) 返回模型列表' };
+  const copyItem: vscode.QuickPickItem = { label: '$(copy) 复制明细' };
+  const separator: vscode.QuickPickItem = { label: '', kind: vscode.QuickPickItemKind.Separator };
+
+  const selected = await vscode.window.showQuickPick(
+    [
+      backItem,
+      copyItem,
+      separator,
+      ...rows.map(([label, value]) => ({ label, description: value })),
+    ],
+    {
+      title: model.displayName || model.modelName,
+      placeHolder: '模型详细数据',
+    }
+  );
+
+  if (selected === backItem) {
+    return true;
+  }
+
+  if (selected === copyItem) {
+    const text = rows.map(([label, value]) => `${label}: ${value}`).join('\n');
+    await vscode.env.clipboard.writeText(`${model.displayName || model.modelName}\n${text}`);
+    vscode.window.showInformationMessage('模型明细已复制到剪贴板');
+  }
+
+  return false;
+}
@@ -0,0 +1,109 @@
+/**
+ * 文件说明：中继档案切换
+ * 作用：通过 QuickPick 列出已保存的中继档案及今日剩余额度（并行刷新后按剩余额度排序），供用户选择要切换到的档案
+ */
+
+import * as vscode from 'vscode';
+import { RelayApiResponse, RelayProfile } from '../interfaces/types';
+import { getDailyHeadroom } from '../services/budgetPlanner';
+import { formatCost } from '../utils/formatter';
+import { log } from '../utils/logger';
+
+/**
+ * 档案列表中的 QuickPick 项
+ */
+interface ProfileQuickPickItem extends vscode.QuickPickItem {
+  profile: RelayProfile;
+}
+
+/**
+ * 切换器的数据来源
+ */
+export interface ProfileSwitcherSource {
+  /** 所有档案 */
+  profiles: RelayProfile[];
+  /** 获取档案最近一次成功的数据 */
+  getData: (profileName: string) => RelayApiResponse | undefined;
+  /** 并行刷新所有档案的数据 */
+  refreshAll: () => Promise<void>;
+  /** 判断档案是否为插件的当前档案 */
+  isCurrent: (profile: RelayProfile) => boolean;
+}
+
+/**
+ * 显示档案切换 QuickPick
+ * @param source - 数据来源
+ * @returns 用户选择的档案，取消时返回 undefined
+ *
+ * 先用缓存数据显示列表，同时并行刷新所有档案，刷新完成后按最新剩余额度重新排序
+ */
+export function showProfileSwitcher(source: ProfileSwitcherSource): Promise<RelayProfile | undefined> {
+  const quickPick = vscode.window.createQuickPick<ProfileQuickPickItem>();
+  quickPick.title = '切换中继档案';
+  quickPick.placeholder = '正在刷新各档案的剩余额度...';
+  quickPick.matchOnDescription = true;
+  quickPick.items = buildItems(source);
+  quickPick.busy = true;
+
+  source
+    .refreshAll()
+    .catch((error) => log(`[档案切换] 刷新档案数据失败：${(error as Error).message}`, true))
+    .finally(() => {
+      quickPick.items = buildItems(source);
+      quickPick.busy = false;
+      quickPick.placeholder = '选择要让 Claude Code 使用的档案，按今日剩余额度排序';
+    });
+
+  return new Promise((resolve) => {
+    let selected: RelayProfile | undefined;
+    quickPick.onDidAccept(() => {
+      selected = quickPick.selectedItems[0]?.profile;
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      quickPick.dispose();
+      resolve(selected);
+    });
+    quickPick.show();
+  });
+}
+
+/**
+ * 构建按剩余额度降序排列的列表项
+ * @param source - 数据来源
+ * @returns QuickPick 项（没有数据的档案排在最后）
+ */
+function buildItems(source: ProfileSwitcherSource): ProfileQuickPickItem[] {
+  const entries = source.profiles.map((profile) => {
+    const data = source.getData(profile.name);
+    const headroom = data ? getDailyHeadroom(profile.name, data) : undefined;
+    // 不限额度视为无穷大，没有数据时排在最后
+    const rank = !data ? -1 : headroom === undefined ? Number.POSITIVE_INFINITY : headroom;
+    return { profile, data, headroom, rank };
+  });
+  entries.sort((a, b) => b.rank - a.rank);
+
+  return entries.map((entry, index) => {
+    const current = source.isCurrent(entry.profile);
+    const best = index === 0 && entry.rank >= 0 && entries.length > 1;
+
+    let detail: string;
+    if (!entry.data) {
+      detail = '暂无数据';
+    } else if (entry.headroom === undefined) {
+      detail = `今日剩余：不限（今日已用 ${formatCost(entry.data.data.limits.currentDailyCost)}）`;
+    } else {
+      detail = `今日剩余：${formatCost(entry.headroom)}（今日已用 ${formatCost(entry.data.data.limits.currentDailyCost)}）`;
+    }
+    if (!entry.profile.apiKey) {
+      detail += ' · 未保存 API Key，无法写入 Claude Code 配置';
+    }
+
+    return {
+      label: `${current ? '$(check)' : best ? '$(star-full)' : '$(server)'} ${entry.profile.name}`,
+      description: [entry.profile.apiUrl, current ? '当前使用' : '', best ? '剩余额度最多' : ''].filter(Boolean).join(' · '),
+      detail,
+      profile: entry.profile,
+    };
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * 文件说明：项目费用视图
+ * 作用：在活动栏中按项目（工作区文件夹）展示归属费用，按费用降序排列
+ */
+
+import * as vscode from 'vscode';
+import { ProjectCostEntry } from '../interfaces/types';
+import { formatCost, formatLargeNumber, formatNumberWithDecimals } from '../utils/formatter';
+import { log } from '../utils/logger';
+import { getFocusedProjectName, getProjectCosts } from '../services/projectAttribution';
+import { UsageTreeNode } from './usageTreeView';
+
+/**
+ * 项目费用视图 ID（与 package.json 中的 views 配置一致）
+ */
+export const PROJECT_COST_VIEW_ID = 'claudeRelayMeter.projectView';
+
+/**
+ * 项目费用树数据提供器
+ */
+class ProjectCostProvider implements vscode.TreeDataProvider<UsageTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<UsageTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(node: UsageTreeNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.label,
+      node.children && node.children.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.description = node.description;
+    item.tooltip = node.description ? `${node.label}: ${node.description}` : node.label;
+    if (node.icon) {
+      item.iconPath = new vscode.ThemeIcon(node.icon);
+    }
+    return item;
+  }
+
+  getChildren(node?: UsageTreeNode): UsageTreeNode[] {
+    if (node) {
+      return node.children || [];
+    }
+
+    const entries = getProjectCosts();
+    const totalCost = entries.reduce((sum, entry) => sum + entry.cost, 0);
+    const focusedName = getFocusedProjectName();
+
+    return entries.map((entry) => buildProjectNode(entry, totalCost, entry.name === focusedName && entry.path !== ''));
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * 当前的树数据提供器
+ */
+let provider: ProjectCostProvider | undefined;
+
+/**
+ * 注册项目费用视图
+ * @param context - VSCode 扩展上下文
+ */
+export function registerProjectCostView(context: vscode.ExtensionContext): void {
+  provider = new ProjectCostProvider();
+
+  const treeView = vscode.window.createTreeView(PROJECT_COST_VIEW_ID, {
+    treeDataProvider: provider,
+    showCollapseAll: true,
+  });
+
+  context.subscriptions.push(provider, treeView);
+  log('[项目费用] 项目费用视图已注册');
+}
+
+/**
+ * 刷新项目费用视图
+ */
+export function refreshProjectCostView(): void {
+  provider?.refresh();
+}
+
+/**
+ * 构建单个项目的节点
+ * @param entry - 项目费用
+ * @param totalCost - 所有项目的费用合计（用于计算占比）
+ * @param isFocused - 是否为当前项目
+ * @returns 树节点
+ */
+function buildProjectNode(entry: ProjectCostEntry, totalCost: number, isFocused: boolean): UsageTreeNode {
+  const share = totalCost > 0 ? (entry.cost / totalCost) * 100 : 0;
+  const children: UsageTreeNode[] = [
+    { label: '请求数', description: formatLargeNumber(entry.requests) },
+    { label: 'Token数', description: formatLargeNumber(entry.tokens) },
+  ];
+
+  const profileNames = Object.keys(entry.byProfile);
+  if (profileNames.length > 1) {
+    for (const name of profileNames) {
+      children.push({ label: `档案：${name}`, description: formatCost(entry.byProfile[name]), icon: 'account' });
+    }
+  }
+
+  children.push({ label: '最近使用', description: new Date(entry.lastSeen).toLocaleString() });
+  if (entry.path) {
+    children.push({ label: '路径', description: entry.path });
+  }
+
+  return {
+    label: isFocused ? `${entry.name}（当前）` : entry.name,
+    description: `${formatCost(entry.cost)} · ${formatNumberWithDecimals(share, 1)}%`,
+    icon: entry.path ? 'root-folder' : 'question',
+    children,
+  };
+}
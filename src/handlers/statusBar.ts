@@ -4,12 +4,17 @@
  */
 
 import * as vscode from 'vscode';
-import { RelayApiResponse, CostStats } from '../interfaces/types';
-import { formatCost, formatPercentage, formatTooltipLine, formatLargeNumber, formatRemainingTime, formatNumberWithDecimals } from '../utils/formatter';
+import { RelayApiResponse, CostStats, LimitForecast, StatusBarRenderOptions, LastErrorInfo, BudgetStatus } from '../interfaces/types';
+import { formatCost, formatPercentage, formatTooltipLine, formatLargeNumber, formatRemainingTime, formatNumberWithDecimals, formatClockTime, escapeMarkdownCell } from '../utils/formatter';
 import { getStatusBarColor } from '../utils/colorHelper';
 import { log } from '../utils/logger';
 // import { t } from '../utils/i18n'; // i18n 已移除
 import * as ConfigManager from '../utils/configManager';
+import { getEarliestExhaustion } from '../services/forecast';
+import { getHighestBudgetPercent } from '../services/budgetPlanner';
+import { ERROR_KIND_LABELS } from '../services/apiErrors';
+import { getSortedModelUsage } from './modelBreakdown';
+import { buildTemplateContext, renderTemplate, validateTemplate } from '../utils/statusBarTemplate';
 
 // 导入版本信息
 const packageJson = require('../../package.json');
@@ -17,37 +22,65 @@ const extensionVersion = packageJson.version;
 
 /**
  * 创建状态栏项
+ * @param profileName - 档案名称（可选，点击时仅刷新该档案）
+ * @param priority - 状态栏优先级，默认为 100
  * @returns VSCode 状态栏项实例
  */
-export function createStatusBarItem(): vscode.StatusBarItem {
+export function createStatusBarItem(profileName?: string, priority: number = 100): vscode.StatusBarItem {
   log('[状态栏] 创建状态栏项...');
 
-  // 创建状态栏项，显示在右侧，优先级为 100
+  // 创建状态栏项，显示在右侧
   const statusBarItem = vscode.window.createStatusBarItem(
     vscode.StatusBarAlignment.Right,
-    100
+    priority
   );
 
   // 设置点击命令（点击状态栏项时执行刷新）
-  statusBarItem.command = 'claude-relay-meter.refreshStats';
+  statusBarItem.command = getRefreshCommand(profileName);
 
   log('[状态栏] 状态栏项创建成功');
   return statusBarItem;
 }
 
+/**
+ * 获取状态栏项的刷新命令
+ * @param profileName - 档案名称（可选）
+ * @returns 刷新命令
+ */
+function getRefreshCommand(profileName?: string): vscode.Command {
+  return {
+    title: '刷新统计数据',
+    command: 'claude-relay-meter.refreshStats',
+    arguments: profileName ? [profileName] : [],
+  };
+}
+
+/**
+ * 获取状态栏文本中的档案前缀
+ * @param profileName - 档案名称（可选）
+ * @returns 档案前缀，未提供档案名称时返回空字符串
+ */
+function getProfilePrefix(profileName?: string): string {
+  return profileName ? `${profileName} ` : '';
+}
+
 /**
  * 更新状态栏显示
  * @param statusBarItem - 状态栏项实例
  * @param data - API 响应数据
  * @param apiUrl - API 基础地址
  * @param apiId - API 标识符
+ * @param options - 渲染选项（档案名称、消耗预测等，可选）
  */
 export function updateStatusBar(
   statusBarItem: vscode.StatusBarItem,
   data: RelayApiResponse,
   apiUrl: string,
-  apiId: string
+  apiId: string,
+  options: StatusBarRenderOptions = {}
 ): void {
+  const { profileName } = options;
+
   try {
     log('[状态栏] 开始更新状态栏显示...');
 
@@ -117,6 +150,7 @@ export function updateStatusBar(
     const hasWindowLimit = limits.currentWindowCost > 0 && limits.rateLimitCost > 0;
 
     // 根据是否有周限制决定状态栏显示格式
+    let colorPercentage: number;
     if (hasWindowLimit) {
       // 计算周限制统计
       const windowStats = calculateCostStats(
@@ -125,30 +159,68 @@ export function updateStatusBar(
       );
 
       // 有周限制时，显示：$(graph) 日:$X/$Y Z% | 周:$A/$B C%
-      statusBarItem.text = `$(graph) 日:${dailyStats.formattedUsed}/${dailyStats.formattedLimit} ${dailyStats.formattedPercentage}% | 周:${windowStats.formattedUsed}/${windowStats.formattedLimit} ${windowStats.formattedPercentage}%`;
+      statusBarItem.text = `$(graph) ${getProfilePrefix(profileName)}日:${dailyStats.formattedUsed}/${dailyStats.formattedLimit} ${dailyStats.formattedPercentage}% | 周:${windowStats.formattedUsed}/${windowStats.formattedLimit} ${windowStats.formattedPercentage}%`;
 
       // 使用周限制的百分比来设置颜色（周限制优先级更高）
-      statusBarItem.color = getStatusBarColor(windowStats.percentage);
+      colorPercentage = windowStats.percentage;
+      statusBarItem.color = getStatusBarColor(colorPercentage);
 
       log(
         `[状态栏] 状态栏更新成功 - 每日: ${dailyStats.formattedUsed}/${dailyStats.formattedLimit} (${dailyStats.formattedPercentage}%), 周限制: ${windowStats.formattedUsed}/${windowStats.formattedLimit} (${windowStats.formattedPercentage}%)`
       );
     } else {
       // 无周限制时，保持原格式：$(graph) $X/$Y Z%
-      statusBarItem.text = `$(graph) ${dailyStats.formattedUsed}/${dailyStats.formattedLimit} ${dailyStats.formattedPercentage}%`;
+      statusBarItem.text = `$(graph) ${getProfilePrefix(profileName)}${dailyStats.formattedUsed}/${dailyStats.formattedLimit} ${dailyStats.formattedPercentage}%`;
 
       // 设置状态栏颜色
-      statusBarItem.color = getStatusBarColor(dailyStats.percentage);
+      colorPercentage = dailyStats.percentage;
+      statusBarItem.color = getStatusBarColor(colorPercentage);
 
       log(
         `[状态栏] 状态栏更新成功 - 每日: ${dailyStats.formattedUsed}/${dailyStats.formattedLimit} (${dailyStats.formattedPercentage}%)`
       );
     }
 
+    // 个人预算的使用率更高时按预算着色（个人预算可能先于服务端限额超出）
+    const budgetPercent = getHighestBudgetPercent(options.budgets || []);
+    if (budgetPercent > colorPercentage) {
+      statusBarItem.color = getStatusBarColor(budgetPercent);
+      log(`[状态栏] 按个人预算着色：${formatNumberWithDecimals(budgetPercent, 2)}%`);
+    }
+
+    // 使用自定义模板覆盖默认格式（可选）
+    const config = vscode.workspace.getConfiguration('relayMeter');
+    const template = config.get<string>('statusBarTemplate', '').trim();
+    if (template) {
+      const validation = validateTemplate(template);
+      if (validation.valid) {
+        statusBarItem.text = renderTemplate(template, buildTemplateContext(data, profileName));
+      } else {
+        log(`[状态栏] 状态栏模板包含未知占位符：${validation.unknownPlaceholders.join(', ')}，使用默认格式`);
+      }
+    }
+
+    // 在状态栏中附加最早的用尽预测（可选）
+    if (config.get<boolean>('showForecastInStatusBar', false) && options.forecasts) {
+      const earliest = getEarliestExhaustion(options.forecasts);
+      if (earliest && earliest.exhaustAt !== null) {
+        statusBarItem.text += ` $(watch) ${formatClockTime(earliest.exhaustAt)}`;
+      }
+    }
+
+    // 过期数据：替换图标、附加数据时间并使用暗淡颜色
+    if (options.staleSince !== undefined) {
+      statusBarItem.text = `$(cloud-offline) ${statusBarItem.text.replace(/^\$\(graph\)\s*/, '')} · 截至 ${formatClockTime(options.staleSince)}`;
+      statusBarItem.color = new vscode.ThemeColor('disabledForeground');
+    }
+
     // 创建并设置悬停提示
-    const tooltip = createTooltip(data, apiUrl, apiId);
+    const tooltip = createTooltip(data, apiUrl, apiId, options);
     statusBarItem.tooltip = tooltip;
 
+    // 恢复点击刷新（配置提示状态下点击命令会被替换为打开设置）
+    statusBarItem.command = getRefreshCommand(profileName);
+
     // 显示状态栏项
     statusBarItem.show();
   } catch (error) {
@@ -161,29 +233,49 @@ export function updateStatusBar(
  * 显示错误状态
  * @param statusBarItem - 状态栏项实例
  * @param errorMessage - 错误消息
+ * @param profileName - 档案名称（可选）
+ * @param lastError - 最近一次错误详情（可选）
  */
 export function showErrorStatus(
   statusBarItem: vscode.StatusBarItem,
-  errorMessage: string
+  errorMessage: string,
+  profileName?: string,
+  lastError?: LastErrorInfo
 ): void {
   log(`[状态栏] 显示错误状态：${errorMessage}`);
 
   // 显示错误图标和消息
-  statusBarItem.text = `$(alert) ${errorMessage}`;
+  statusBarItem.text = `$(alert) ${getProfilePrefix(profileName)}${errorMessage}`;
   statusBarItem.color = new vscode.ThemeColor('statusBarItem.errorForeground');
   statusBarItem.tooltip = new vscode.MarkdownString(
-    `## ⚠️ ⚡ Claude Relay Meter\n\n**错误：** ${errorMessage}\n\n点击状态栏刷新数据`
+    `## ⚠️ ⚡ Claude Relay Meter\n\n**错误：** ${errorMessage}\n\n` +
+      (lastError ? formatLastError(lastError) : '') +
+      '点击状态栏刷新数据'
   );
   statusBarItem.show();
 }
 
+/**
+ * 格式化最近一次错误详情（悬停提示 Markdown）
+ * @param lastError - 最近一次错误详情
+ * @returns Markdown 文本
+ */
+function formatLastError(lastError: LastErrorInfo): string {
+  const now = Date.now();
+  return (
+    `**最近错误：** ${ERROR_KIND_LABELS[lastError.kind]} - ${lastError.message}\n\n` +
+    `**连续失败：** ${lastError.failureCount} 次（自 ${formatClockTime(lastError.failingSince, now)} 起，最近一次 ${formatClockTime(lastError.occurredAt, now)}）\n\n`
+  );
+}
+
 /**
  * 显示加载状态
  * @param statusBarItem - 状态栏项实例
+ * @param profileName - 档案名称（可选）
  */
-export function showLoadingStatus(statusBarItem: vscode.StatusBarItem): void {
+export function showLoadingStatus(statusBarItem: vscode.StatusBarItem, profileName?: string): void {
   log('[状态栏] 显示加载状态');
-  statusBarItem.text = '$(sync~spin) 加载中...';
+  statusBarItem.text = `$(sync~spin) ${getProfilePrefix(profileName)}加载中...`;
   statusBarItem.color = new vscode.ThemeColor('statusBarItem.foreground');
   statusBarItem.tooltip = new vscode.MarkdownString('加载中...');
   statusBarItem.show();
@@ -214,9 +306,16 @@ function calculateCostStats(used: number, limit: number): CostStats {
  * @param data - API 响应数据
  * @param apiUrl - API 基础地址
  * @param apiId - API 标识符
+ * @param options - 渲染选项
  * @returns Markdown 格式的提示文本
  */
-function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): vscode.MarkdownString {
+function createTooltip(
+  data: RelayApiResponse,
+  apiUrl: string,
+  apiId: string,
+  options: StatusBarRenderOptions
+): vscode.MarkdownString {
+  const { profileName } = options;
   const limits = data.data.limits;
   const usage = data.data.usage;
 
@@ -233,6 +332,15 @@ function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): v
 
   // 标题和基本用户信息
   tooltip.appendMarkdown(`## ⚡ Claude Relay Meter v${extensionVersion}\n`);
+  if (profileName) {
+    tooltip.appendMarkdown(`**档案：** ${profileName}${options.isActiveProfile ? '（当前档案）' : ''}\n\n`);
+  }
+  if (options.staleSince !== undefined) {
+    tooltip.appendMarkdown(`⚠️ **数据已过期：** 暂时无法连接中继服务，显示的是 ${new Date(options.staleSince).toLocaleString()} 获取的数据\n\n`);
+    if (options.lastError) {
+      tooltip.appendMarkdown(formatLastError(options.lastError));
+    }
+  }
   tooltip.appendMarkdown(`### 👤 用户信息\n`);
   tooltip.appendMarkdown(`**名称：** ${data.data.name}\n`);
   tooltip.appendMarkdown(`**ID：** \`${data.data.id}\`\n`);
@@ -311,6 +419,16 @@ function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): v
   }
   tooltip.appendMarkdown('\n');
 
+  // 个人预算
+  if (options.budgets && options.budgets.length > 0) {
+    appendBudgetSection(tooltip, options.budgets);
+  }
+
+  // 消耗预测
+  if (options.forecasts && options.forecasts.length > 0) {
+    appendForecastSection(tooltip, options.forecasts);
+  }
+
   // 详细使用统计
   tooltip.appendMarkdown(`### 📊 详细使用统计\n`);
 
@@ -359,6 +477,20 @@ function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): v
     tooltip.appendMarkdown(`**缓存读取Token：** ${formatLargeNumber(usage.total.cacheReadTokens)} (${cacheReadPercentage}%)\n\n`);
   }
 
+  // 模型使用明细（按费用排序）
+  const models = getSortedModelUsage(usage);
+  if (models.length > 0) {
+    tooltip.appendMarkdown(`### 🤖 模型使用明细\n\n`);
+    tooltip.appendMarkdown(`| 模型 | 请求 | 输入 | 输出 | 缓存创建 | 缓存读取 | 费用 | 占比 |\n`);
+    tooltip.appendMarkdown(`|---|---:|---:|---:|---:|---:|---:|---:|\n`);
+    for (const model of models) {
+      tooltip.appendMarkdown(
+        `| ${escapeMarkdownCell(model.displayName || model.modelName)} | ${formatLargeNumber(model.requests)} | ${formatLargeNumber(model.inputTokens)} | ${formatLargeNumber(model.outputTokens)} | ${formatLargeNumber(model.cacheCreateTokens)} | ${formatLargeNumber(model.cacheReadTokens)} | ${formatCost(model.cost)} | ${formatNumberWithDecimals(model.share, 1)}% |\n`
+      );
+    }
+    tooltip.appendMarkdown('\n');
+  }
+
   // 账户信息
   tooltip.appendMarkdown(`### 🔗 关联账户\n`);
   if (data.data.accounts.claudeAccountId) {
@@ -398,12 +530,16 @@ function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): v
   // 构建网页仪表板地址
   const webDashboardUrl = `${apiUrl}/admin-next/api-stats?apiId=${apiId}`;
   const webDashboardArgs = encodeURIComponent(JSON.stringify({ url: webDashboardUrl }));
+  // 本地命令的参数（多档案时指定档案名称）
+  const dashboardArgs = encodeURIComponent(JSON.stringify(profileName ? [profileName] : []));
 
   // 提示和操作按钮
   tooltip.appendMarkdown(`💡 **提示：** 点击状态栏刷新数据\n`);
   tooltip.appendMarkdown(
     `[设置](command:claude-relay-meter.openSettings) | ` +
     `[仪表盘](command:claude-relay-meter.openWebDashboard?${webDashboardArgs}) | ` +
+    `[用量面板](command:claude-relay-meter.showDashboard?${dashboardArgs}) | ` +
+    `[模型明细](command:claude-relay-meter.showModelBreakdown?${dashboardArgs}) | ` +
     `[重载配置](command:claude-relay-meter.manualReloadConfig)\n\n`
   );
 
@@ -413,13 +549,60 @@ function createTooltip(data: RelayApiResponse, apiUrl: string, apiId: string): v
     tooltip.appendMarkdown(`⚠️ Claude Settings 监听已关闭\n\n`);
   }
 
-  // 更新时间
-  const now = new Date().toLocaleString();
-  tooltip.appendMarkdown(`🕐 更新时间：${now}`);
+  // 更新时间（过期数据显示获取时间）
+  const updatedAt = new Date(options.staleSince !== undefined ? options.staleSince : Date.now()).toLocaleString();
+  tooltip.appendMarkdown(`🕐 更新时间：${updatedAt}`);
 
   return tooltip;
 }
 
+/**
+ * 在悬停提示中添加消耗预测区块
+ * @param tooltip - 悬停提示
+ * @param forecasts - 预测结果列表
+ */
+function appendForecastSection(tooltip: vscode.MarkdownString, forecasts: LimitForecast[]): void {
+  tooltip.appendMarkdown(`### 🔮 消耗预测\n`);
+
+  for (const forecast of forecasts) {
+    let description: string;
+
+    if (forecast.used >= forecast.limit) {
+      description = '已用尽';
+    } else if (forecast.ratePerHour <= 0) {
+      description = '暂无消耗趋势（数据不足或近期无消耗）';
+    } else {
+      const rate = `${formatCost(forecast.ratePerHour)}/小时`;
+      if (forecast.willExhaust && forecast.exhaustAt !== null) {
+        description = `按当前速度（${rate}）预计 **${formatClockTime(forecast.exhaustAt)}** 用尽`;
+      } else {
+        const resetText = forecast.kind === 'daily' ? '今日' : '窗口重置前';
+        description = `按当前速度（${rate}）${resetText}不会用尽`;
+      }
+    }
+
+    tooltip.appendMarkdown(`**${forecast.label}：** ${description}\n`);
+  }
+  tooltip.appendMarkdown('\n');
+}
+
+/**
+ * 在悬停提示中添加个人预算段落
+ * @param tooltip - 悬停提示
+ * @param budgets - 预算评估结果
+ */
+function appendBudgetSection(tooltip: vscode.MarkdownString, budgets: BudgetStatus[]): void {
+  tooltip.appendMarkdown(`### 🎯 个人预算\n`);
+
+  for (const budget of budgets) {
+    const stats = calculateCostStats(budget.spent, budget.amount);
+    const exceeded = budget.spent >= budget.amount ? ' ⚠️ 已超出' : '';
+    const partial = budget.partial ? '（本地历史不足，仅统计部分数据）' : '';
+    tooltip.appendMarkdown(`**${budget.label}：** ${stats.formattedUsed} / ${stats.formattedLimit}  ${getColoredPercentage(stats)}${exceeded}${partial}\n`);
+  }
+  tooltip.appendMarkdown('\n');
+}
+
 /**
  * 获取带颜色的百分比文本
  * @param stats - 费用统计对象
@@ -473,25 +656,28 @@ function getColoredPercentage(stats: CostStats): string {
  * 显示配置提示
  * @param statusBarItem - 状态栏项实例
  * @param missingConfig - 缺失的配置项类型
+ * @param profileName - 档案名称（可选）
  */
 export function showConfigPrompt(
   statusBarItem: vscode.StatusBarItem,
-  missingConfig?: 'apiUrl' | 'apiId' | 'both'
+  missingConfig?: 'apiUrl' | 'apiId' | 'both',
+  profileName?: string
 ): void {
   log(`[状态栏] 显示配置提示，缺失配置：${missingConfig || 'both'}`);
 
   // 根据缺失的配置项设置不同的文本
+  const prefix = getProfilePrefix(profileName);
   let statusText = '';
   let tooltipMessage = '';
 
   if (missingConfig === 'apiUrl') {
-    statusText = '$(gear) 未配置 API URL';
+    statusText = `$(gear) ${prefix}未配置 API URL`;
     tooltipMessage = '请先配置 API URL（必填）';
   } else if (missingConfig === 'apiId') {
-    statusText = '$(gear) 未配置 API ID/Key';
+    statusText = `$(gear) ${prefix}未配置 API ID/Key`;
     tooltipMessage = '请先配置 API ID 或 API Key（二选一）';
   } else {
-    statusText = '$(gear) Claude Relay Meter 需要配置';
+    statusText = `$(gear) ${prefix}Claude Relay Meter 需要配置`;
     tooltipMessage = '请先配置 API URL（必填）以及 API ID 或 API Key（二选一）';
   }
 
@@ -533,3 +719,22 @@ export function createReloadButton(): vscode.StatusBarItem {
   log('[状态栏] 重载配置按钮创建成功');
   return reloadButton;
 }
+
+/**
+ * 创建切换档案按钮
+ * @returns VSCode 状态栏项实例（配置了多个档案时才显示）
+ */
+export function createSwitchProfileButton(): vscode.StatusBarItem {
+  // 优先级为 98（在重载配置按钮右侧）
+  const switchButton = vscode.window.createStatusBarItem(
+    vscode.StatusBarAlignment.Right,
+    98
+  );
+
+  switchButton.text = '$(arrow-swap)';
+  switchButton.tooltip = '切换中继档案';
+  switchButton.command = 'claude-relay-meter.switchProfile';
+
+  log('[状态栏] 切换档案按钮创建成功');
+  return switchButton;
+}
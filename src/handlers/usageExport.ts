@@ -0,0 +1,463 @@
+/**
+ * 文件说明：用量数据导出
+ * 作用：将当前用量数据、本地历史快照和项目费用导出为 JSON、CSV 或 Markdown 报告，通过保存对话框写入文件
+ */
+
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProjectCostEntry, RelayUserData, TotalUsage, UsageSnapshot } from '../interfaces/types';
+import { escapeMarkdownCell, formatCost, formatLargeNumber, formatNumberWithDecimals, formatPercentage } from '../utils/formatter';
+import { log, logError } from '../utils/logger';
+import { getSortedModelUsage } from './modelBreakdown';
+
+/**
+ * 导出格式
+ */
+type ExportFormat = 'json' | 'markdown' | 'modelsCsv' | 'historyCsv';
+
+/**
+ * 格式选择 QuickPick 项
+ */
+interface ExportFormatItem extends vscode.QuickPickItem {
+  format: ExportFormat;
+  extension: string;
+  filterName: string;
+}
+
+/**
+ * 项目费用导出格式选择 QuickPick 项
+ */
+interface ProjectExportFormatItem extends vscode.QuickPickItem {
+  format: 'csv' | 'json';
+  extension: string;
+  filterName: string;
+}
+
+/**
+ * 导出格式选项
+ */
+const EXPORT_FORMATS: ExportFormatItem[] = [
+  {
+    label: '$(markdown) Markdown 报告',
+    description: '总计、限额、模型明细、缓存效率和每日费用',
+    format: 'markdown',
+    extension: 'md',
+    filterName: 'Markdown',
+  },
+  {
+    label: '$(json) JSON',
+    description: '完整的用户数据和本地历史快照',
+    format: 'json',
+    extension: 'json',
+    filterName: 'JSON',
+  },
+  {
+    label: '$(table) CSV（模型明细）',
+    description: '每个模型一行',
+    format: 'modelsCsv',
+    extension: 'csv',
+    filterName: 'CSV',
+  },
+  {
+    label: '$(history) CSV（历史快照）',
+    description: '每条本地历史快照一行',
+    format: 'historyCsv',
+    extension: 'csv',
+    filterName: 'CSV',
+  },
+];
+
+/**
+ * 项目费用导出格式选项
+ */
+const PROJECT_EXPORT_FORMATS: ProjectExportFormatItem[] = [
+  {
+    label: '$(table) CSV',
+    description: '每个项目一行',
+    format: 'csv',
+    extension: 'csv',
+    filterName: 'CSV',
+  },
+  {
+    label: '$(json) JSON',
+    description: '完整的项目费用数据（含按日费用）',
+    format: 'json',
+    extension: 'json',
+    filterName: 'JSON',
+  },
+];
+
+/**
+ * 导出用量数据
+ * @param profileName - 档案名称
+ * @param data - 当前用户数据
+ * @param snapshots - 该档案的本地历史快照（按时间升序）
+ */
+export async function exportUsage(profileName: string, data: RelayUserData, snapshots: UsageSnapshot[]): Promise<void> {
+  const selected = await vscode.window.showQuickPick(EXPORT_FORMATS, {
+    title: `导出用量数据 - ${profileName}`,
+    placeHolder: '选择导出格式',
+  });
+  if (!selected) {
+    return;
+  }
+
+  if (selected.format === 'historyCsv' && snapshots.length === 0) {
+    vscode.window.showWarningMessage('没有本地历史快照可导出，请确认已开启 relayMeter.enableHistory');
+    return;
+  }
+
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: getDefaultUri(profileName, selected),
+    filters: { [selected.filterName]: [selected.extension] },
+    saveLabel: '导出',
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  try {
+    const exportedAt = new Date();
+    let content: string;
+    switch (selected.format) {
+      case 'json':
+        content = buildJson(profileName, data, snapshots, exportedAt);
+        break;
+      case 'markdown':
+        content = buildMarkdownReport(profileName, data, snapshots, exportedAt);
+        break;
+      case 'modelsCsv':
+        content = buildModelsCsv(data);
+        break;
+      case 'historyCsv':
+        content = buildHistoryCsv(snapshots);
+        break;
+    }
+
+    await writeExportFile(targetUri, content, '用量数据');
+    log(`[导出] 已导出用量数据（档案：${profileName}，格式：${selected.format}）：${targetUri.fsPath}`);
+  } catch (error) {
+    logError('[导出] 导出用量数据失败', error as Error);
+    vscode.window.showErrorMessage('导出用量数据失败：' + (error as Error).message);
+  }
+}
+
+/**
+ * 导出项目费用
+ * @param entries - 项目费用列表（按费用降序）
+ */
+export async function exportProjectCosts(entries: ProjectCostEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    vscode.window.showWarningMessage('还没有归属到项目的费用，请确认已开启 relayMeter.enableProjectAttribution');
+    return;
+  }
+
+  const selected = await vscode.window.showQuickPick(PROJECT_EXPORT_FORMATS, {
+    title: '导出项目费用',
+    placeHolder: '选择导出格式',
+  });
+  if (!selected) {
+    return;
+  }
+
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || os.homedir();
+  const targetUri = await vscode.window.showSaveDialog({
+    defaultUri: vscode.Uri.file(path.join(folder, `relay-project-costs-${formatDateKey(new Date())}.${selected.extension}`)),
+    filters: { [selected.filterName]: [selected.extension] },
+    saveLabel: '导出',
+  });
+  if (!targetUri) {
+    return;
+  }
+
+  try {
+    const content =
+      selected.format === 'json'
+        ? JSON.stringify({ exportedAt: new Date().toISOString(), projects: entries }, null, 2)
+        : buildProjectCostsCsv(entries);
+
+    await writeExportFile(targetUri, content, '项目费用');
+    log(`[导出] 已导出项目费用（格式：${selected.format}）：${targetUri.fsPath}`);
+  } catch (error) {
+    logError('[导出] 导出项目费用失败', error as Error);
+    vscode.window.showErrorMessage('导出项目费用失败：' + (error as Error).message);
+  }
+}
+
+/**
+ * 写入导出文件并提示打开
+ * @param targetUri - 目标文件
+ * @param content - 文件内容
+ * @param title - 导出内容名称（用于提示）
+ */
+async function writeExportFile(targetUri: vscode.Uri, content: string, title: string): Promise<void> {
+  await vscode.workspace.fs.writeFile(targetUri, Buffer.from(content, 'utf8'));
+
+  const openButton = '打开文件';
+  const choice = await vscode.window.showInformationMessage(`${title}已导出到 ${targetUri.fsPath}`, openButton);
+  if (choice === openButton) {
+    await vscode.window.showTextDocument(targetUri);
+  }
+}
+
+/**
+ * 构建 JSON 导出内容
+ * @param profileName - 档案名称
+ * @param data - 当前用户数据
+ * @param snapshots - 历史快照
+ * @param exportedAt - 导出时间
+ * @returns JSON 文本
+ */
+function buildJson(profileName: string, data: RelayUserData, snapshots: UsageSnapshot[], exportedAt: Date): string {
+  return JSON.stringify({ exportedAt: exportedAt.toISOString(), profile: profileName, current: data, history: snapshots }, null, 2);
+}
+
+/**
+ * 构建模型明细 CSV
+ * @param data - 当前用户数据
+ * @returns CSV 文本
+ */
+function buildModelsCsv(data: RelayUserData): string {
+  const header = ['model', 'requests', 'inputTokens', 'outputTokens', 'cacheCreateTokens', 'cacheReadTokens', 'totalTokens', 'cost', 'costShare'];
+  const rows = getSortedModelUsage(data.usage).map((model) => [
+    model.modelName,
+    model.requests,
+    model.inputTokens,
+    model.outputTokens,
+    model.cacheCreateTokens,
+    model.cacheReadTokens,
+    model.totalTokens,
+    model.cost,
+    formatNumberWithDecimals(model.share, 2),
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * 构建历史快照 CSV
+ * @param snapshots - 历史快照
+ * @returns CSV 文本
+ */
+function buildHistoryCsv(snapshots: UsageSnapshot[]): string {
+  const header = [
+    'timestamp',
+    'profile',
+    'dailyCost',
+    'windowCost',
+    'weeklyOpusCost',
+    'totalCost',
+    'requests',
+    'inputTokens',
+    'outputTokens',
+    'cacheCreateTokens',
+    'cacheReadTokens',
+    'allTokens',
+    'usageCost',
+  ];
+  const rows = snapshots.map((snapshot) => [
+    new Date(snapshot.timestamp).toISOString(),
+    snapshot.profileName,
+    snapshot.currentDailyCost,
+    snapshot.currentWindowCost,
+    snapshot.weeklyOpusCost,
+    snapshot.currentTotalCost,
+    snapshot.total.requests,
+    snapshot.total.inputTokens,
+    snapshot.total.outputTokens,
+    snapshot.total.cacheCreateTokens,
+    snapshot.total.cacheReadTokens,
+    snapshot.total.allTokens,
+    snapshot.total.cost,
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * 构建项目费用 CSV（每个项目一行，多档案时附带各档案费用）
+ * @param entries - 项目费用列表
+ * @returns CSV 文本
+ */
+function buildProjectCostsCsv(entries: ProjectCostEntry[]): string {
+  const rows: (string | number)[][] = [['项目', '路径', '费用(USD)', '请求数', 'Token数', '各档案费用', '首次记录', '最近使用']];
+  for (const entry of entries) {
+    const byProfile = Object.entries(entry.byProfile)
+      .map(([name, cost]) => `${name}=${cost.toFixed(6)}`)
+      .join('; ');
+    rows.push([
+      entry.name,
+      entry.path,
+      entry.cost.toFixed(6),
+      entry.requests,
+      entry.tokens,
+      byProfile,
+      new Date(entry.firstSeen).toISOString(),
+      new Date(entry.lastSeen).toISOString(),
+    ]);
+  }
+  return toCsv(rows);
+}
+
+/**
+ * 构建 Markdown 报告
+ * @param profileName - 档案名称
+ * @param data - 当前用户数据
+ * @param snapshots - 历史快照
+ * @param exportedAt - 导出时间
+ * @returns Markdown 文本
+ */
+function buildMarkdownReport(profileName: string, data: RelayUserData, snapshots: UsageSnapshot[], exportedAt: Date): string {
+  const total = data.usage.total;
+  const limits = data.limits;
+  const lines: string[] = [
+    `# Claude Relay 用量报告 - ${data.name || profileName}`,
+    '',
+    `- 档案：${profileName}`,
+    `- API ID：\`${data.id}\``,
+    `- 导出时间：${exportedAt.toLocaleString()}`,
+  ];
+  if (data.expiresAt) {
+    lines.push(`- 过期时间：${new Date(data.expiresAt).toLocaleString()}`);
+  }
+
+  lines.push(
+    '',
+    '## 总计',
+    '',
+    '| 项目 | 数值 |',
+    '| --- | ---: |',
+    `| 总请求数 | ${formatLargeNumber(total.requests)} |`,
+    `| 输入Token | ${formatLargeNumber(total.inputTokens)} |`,
+    `| 输出Token | ${formatLargeNumber(total.outputTokens)} |`,
+    `| 缓存创建Token | ${formatLargeNumber(total.cacheCreateTokens)} |`,
+    `| 缓存读取Token | ${formatLargeNumber(total.cacheReadTokens)} |`,
+    `| 总Token数 | ${formatLargeNumber(total.allTokens)} |`,
+    `| 总费用 | ${escapeMarkdownCell(total.formattedCost || formatCost(total.cost))} |`,
+    '',
+    '## 费用限额',
+    '',
+    '| 限额 | 已用 | 上限 | 使用率 |',
+    '| --- | ---: | ---: | ---: |'
+  );
+
+  const limitRows: [string, number, number][] = [
+    ['每日', limits.currentDailyCost, limits.dailyCostLimit],
+    ['窗口', limits.currentWindowCost, limits.rateLimitCost],
+    ['Opus 周', limits.weeklyOpusCost, limits.weeklyOpusCostLimit],
+    ['总计', limits.currentTotalCost, limits.totalCostLimit],
+  ];
+  for (const [label, used, limit] of limitRows) {
+    lines.push(
+      limit > 0
+        ? `| ${label} | ${formatCost(used)} | ${formatCost(limit)} | ${formatPercentage(used, limit)}% |`
+        : `| ${label} | ${formatCost(used)} | 无限制 | - |`
+    );
+  }
+
+  const models = getSortedModelUsage(data.usage);
+  if (models.length > 0) {
+    lines.push(
+      '',
+      '## 模型明细',
+      '',
+      '| 模型 | 请求数 | 输入Token | 输出Token | 缓存读取Token | 费用 | 占比 |',
+      '| --- | ---: | ---: | ---: | ---: | ---: | ---: |'
+    );
+    for (const model of models) {
+      lines.push(
+        `| ${escapeMarkdownCell(model.displayName || model.modelName)} | ${formatLargeNumber(model.requests)} | ${formatLargeNumber(model.inputTokens)} | ${formatLargeNumber(model.outputTokens)} | ${formatLargeNumber(model.cacheReadTokens)} | ${escapeMarkdownCell(model.formattedCost || formatCost(model.cost))} | ${formatNumberWithDecimals(model.share, 1)}% |`
+      );
+    }
+  }
+
+  lines.push('', '## 缓存效率', '', ...buildCacheEfficiencyLines(total));
+
+  const dailyCosts = getDailyCosts(snapshots);
+  if (dailyCosts.length > 0) {
+    lines.push('', '## 每日费用（本地历史）', '', '| 日期 | 费用 |', '| --- | ---: |');
+    for (const [date, cost] of dailyCosts) {
+      lines.push(`| ${date} | ${formatCost(cost)} |`);
+    }
+    const sum = dailyCosts.reduce((acc, [, cost]) => acc + cost, 0);
+    lines.push(`| **合计** | **${formatCost(sum)}** |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 构建缓存效率段落
+ * @param total - 总使用量
+ * @returns Markdown 行列表
+ *
+ * 缓存命中率 = 缓存读取Token / (输入Token + 缓存创建Token + 缓存读取Token)
+ */
+function buildCacheEfficiencyLines(total: TotalUsage): string[] {
+  const promptTokens = total.inputTokens + total.cacheCreateTokens + total.cacheReadTokens;
+  if (promptTokens === 0) {
+    return ['暂无输入Token数据'];
+  }
+
+  const hitRate = (total.cacheReadTokens / promptTokens) * 100;
+  const reuseRatio = total.cacheCreateTokens > 0 ? total.cacheReadTokens / total.cacheCreateTokens : 0;
+
+  return [
+    `- 缓存命中率：${formatNumberWithDecimals(hitRate, 1)}%（缓存读取 ${formatLargeNumber(total.cacheReadTokens)} / 输入总量 ${formatLargeNumber(promptTokens)}）`,
+    `- 缓存复用倍数：${formatNumberWithDecimals(reuseRatio, 1)}（每创建 1 个缓存Token 被读取的次数）`,
+  ];
+}
+
+/**
+ * 按本地日期汇总每日费用（取每天最后一条快照的每日费用）
+ * @param snapshots - 历史快照（按时间升序）
+ * @returns [日期, 费用] 列表（按日期升序）
+ */
+function getDailyCosts(snapshots: UsageSnapshot[]): [string, number][] {
+  const byDate = new Map<string, number>();
+  for (const snapshot of snapshots) {
+    byDate.set(formatDateKey(new Date(snapshot.timestamp)), snapshot.currentDailyCost);
+  }
+  return Array.from(byDate.entries());
+}
+
+/**
+ * 将二维数组转换为 CSV 文本（带 BOM，便于 Excel 识别 UTF-8）
+ * @param rows - 行列表
+ * @returns CSV 文本
+ *
+ * 以 = + - @ 等开头的文本单元格会被电子表格当作公式执行，前面加 ' 作为纯文本
+ */
+function toCsv(rows: (string | number)[][]): string {
+  const escape = (value: string | number) => {
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return '\uFEFF' + rows.map((row) => row.map(escape).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * 获取保存对话框的默认路径（优先使用第一个工作区目录）
+ * @param profileName - 档案名称
+ * @param format - 导出格式
+ * @returns 默认文件 URI
+ */
+function getDefaultUri(profileName: string, format: ExportFormatItem): vscode.Uri {
+  const date = formatDateKey(new Date());
+  const suffix = format.format === 'historyCsv' ? '-history' : format.format === 'modelsCsv' ? '-models' : '';
+  const safeName = profileName.replace(/[\\/:*?"<>|\s]+/g, '_');
+  const fileName = `relay-usage-${safeName}${suffix}-${date}.${format.extension}`;
+
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || os.homedir();
+  return vscode.Uri.file(path.join(folder, fileName));
+}
+
+/**
+ * 格式化本地日期（YYYY-MM-DD）
+ * @param date - 日期
+ * @returns 日期字符串
+ */
+function formatDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
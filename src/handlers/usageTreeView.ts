@@ -0,0 +1,316 @@
+/**
+ * 文件说明：活动栏用量树视图
+ * 作用：以可展开的树形结构展示用户信息、费用限制、使用统计、关联账户和限制规则
+ */
+
+import * as vscode from 'vscode';
+import { RelayApiResponse } from '../interfaces/types';
+import { formatCost, formatLargeNumber, formatPercentage, formatRemainingTime } from '../utils/formatter';
+import { log } from '../utils/logger';
+
+/**
+ * 树视图 ID（与 package.json 中的 views 配置一致）
+ */
+export const USAGE_TREE_VIEW_ID = 'claudeRelayMeter.usageView';
+
+/**
+ * 树视图可显示的档案数据
+ */
+export interface UsageTreeProfile {
+  name: string;
+  data: RelayApiResponse;
+  serverVersion?: string;
+  active?: boolean;
+}
+
+/**
+ * 树节点
+ */
+export interface UsageTreeNode {
+  label: string;
+  description?: string;
+  icon?: string;
+  copyValue?: string;
+  children?: UsageTreeNode[];
+}
+
+/**
+ * 树数据提供器
+ */
+class UsageTreeProvider implements vscode.TreeDataProvider<UsageTreeNode> {
+  private readonly changeEmitter = new vscode.EventEmitter<UsageTreeNode | undefined>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly getProfiles: () => UsageTreeProfile[]) {}
+
+  refresh(): void {
+    this.changeEmitter.fire(undefined);
+  }
+
+  getTreeItem(node: UsageTreeNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.label,
+      node.children && node.children.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    );
+    item.description = node.description;
+    item.tooltip = node.description ? `${node.label}: ${node.description}` : node.label;
+    if (node.icon) {
+      item.iconPath = new vscode.ThemeIcon(node.icon);
+    }
+    if (node.copyValue) {
+      // 可复制节点在右键菜单中提供"复制"操作
+      item.contextValue = 'copyable';
+    }
+    return item;
+  }
+
+  getChildren(node?: UsageTreeNode): UsageTreeNode[] {
+    if (node) {
+      return node.children || [];
+    }
+
+    const profiles = this.getProfiles();
+
+    // 单档案时直接显示各分组，多档案时按档案分组
+    if (profiles.length === 1) {
+      return buildProfileSections(profiles[0].data, profiles[0].serverVersion);
+    }
+
+    return profiles.map((profile) => ({
+      label: profile.name,
+      description: profile.active ? '当前档案' : undefined,
+      icon: profile.active ? 'check' : 'account',
+      children: buildProfileSections(profile.data, profile.serverVersion),
+    }));
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
+
+/**
+ * 当前的树数据提供器
+ */
+let provider: UsageTreeProvider | undefined;
+
+/**
+ * 注册用量树视图及其命令
+ * @param context - VSCode 扩展上下文
+ * @param getProfiles - 获取当前各档案数据的函数
+ */
+export function registerUsageTreeView(
+  context: vscode.ExtensionContext,
+  getProfiles: () => UsageTreeProfile[]
+): void {
+  provider = new UsageTreeProvider(getProfiles);
+
+  const treeView = vscode.window.createTreeView(USAGE_TREE_VIEW_ID, {
+    treeDataProvider: provider,
+    showCollapseAll: true,
+  });
+
+  // 复制节点值命令（树视图右键菜单）
+  const copyCommand = vscode.commands.registerCommand(
+    'claude-relay-meter.copyTreeValue',
+    async (node?: UsageTreeNode) => {
+      if (!node || !node.copyValue) {
+        return;
+      }
+      await vscode.env.clipboard.writeText(node.copyValue);
+      log(`[树视图] 已复制：${node.label}`);
+      vscode.window.showInformationMessage(`已复制${node.label}`);
+    }
+  );
+
+  context.subscriptions.push(provider, treeView, copyCommand);
+  log('[树视图] 用量树视图已注册');
+}
+
+/**
+ * 刷新树视图（每次数据更新后调用）
+ */
+export function refreshUsageTree(): void {
+  provider?.refresh();
+}
+
+/**
+ * 构建单个档案的分组节点
+ * @param data - API 响应数据
+ * @param serverVersion - 检测到的中继服务端版本（可选）
+ * @returns 分组节点列表
+ */
+function buildProfileSections(data: RelayApiResponse, serverVersion?: string): UsageTreeNode[] {
+  return [
+    buildUserSection(data, serverVersion),
+    buildLimitsSection(data),
+    buildUsageSection(data),
+    buildAccountsSection(data),
+    buildRestrictionsSection(data),
+  ];
+}
+
+/**
+ * 构建用户信息分组
+ * @param data - API 响应数据
+ * @param serverVersion - 检测到的中继服务端版本（可选）
+ * @returns 分组节点
+ */
+function buildUserSection(data: RelayApiResponse, serverVersion?: string): UsageTreeNode {
+  const user = data.data;
+  const children: UsageTreeNode[] = [
+    { label: '名称', description: user.name, copyValue: user.name },
+    { label: 'API ID', description: user.id, icon: 'key', copyValue: user.id },
+    { label: '描述', description: user.description || '无' },
+    { label: '状态', description: user.isActive ? '激活' : '未激活', icon: user.isActive ? 'pass' : 'error' },
+    { label: '权限', description: user.permissions },
+  ];
+
+  // 旧版服务端或其他数据源可能不返回时间字段
+  if (user.createdAt) {
+    children.push({ label: '创建时间', description: new Date(user.createdAt).toLocaleString() });
+  }
+  if (user.activatedAt) {
+    children.push({ label: '激活时间', description: new Date(user.activatedAt).toLocaleString() });
+  }
+
+  if (user.expiresAt) {
+    children.push({ label: '过期时间', description: new Date(user.expiresAt).toLocaleString() });
+    children.push({ label: '过期模式', description: user.expirationMode });
+  }
+  if (user.activationDays > 0) {
+    children.push({ label: '激活天数', description: `${user.activationDays} 天` });
+  }
+  if (serverVersion) {
+    children.push({ label: '服务端版本', description: serverVersion, icon: 'versions' });
+  }
+
+  return { label: '用户信息', icon: 'person', children };
+}
+
+/**
+ * 构建费用限制分组
+ * @param data - API 响应数据
+ * @returns 分组节点
+ */
+function buildLimitsSection(data: RelayApiResponse): UsageTreeNode {
+  const limits = data.data.limits;
+  const costLine = (used: number, limit: number) =>
+    `${formatCost(used)} / ${formatCost(limit)} (${formatPercentage(used, limit)}%)`;
+
+  const children: UsageTreeNode[] = [
+    {
+      label: '每日限制',
+      description: limits.dailyCostLimit > 0 ? costLine(limits.currentDailyCost, limits.dailyCostLimit) : `${formatCost(limits.currentDailyCost)}（无限制）`,
+      icon: 'calendar',
+    },
+  ];
+
+  if (limits.totalCostLimit > 0) {
+    children.push({ label: '总限制', description: costLine(limits.currentTotalCost, limits.totalCostLimit), icon: 'credit-card' });
+  }
+  if (limits.weeklyOpusCostLimit > 0) {
+    children.push({ label: 'Opus周限制', description: costLine(limits.weeklyOpusCost, limits.weeklyOpusCostLimit), icon: 'sparkle' });
+  }
+  if (limits.rateLimitCost > 0) {
+    children.push({ label: '窗口限制', description: costLine(limits.currentWindowCost, limits.rateLimitCost), icon: 'watch' });
+    if (limits.windowRemainingSeconds !== null) {
+      children.push({ label: '窗口重置', description: formatRemainingTime(limits.windowRemainingSeconds) });
+    }
+  }
+  if (limits.tokenLimit > 0) {
+    children.push({ label: 'Token限制', description: `${formatLargeNumber(limits.currentWindowTokens)} / ${formatLargeNumber(limits.tokenLimit)}` });
+  }
+  if (limits.concurrencyLimit > 0) {
+    children.push({ label: '并发限制', description: `${limits.currentWindowRequests} / ${limits.concurrencyLimit}` });
+  }
+  if (limits.rateLimitRequests > 0) {
+    children.push({ label: '请求数限制', description: `${limits.currentWindowRequests} / ${limits.rateLimitRequests}` });
+  }
+
+  return { label: '费用限制', icon: 'dashboard', children };
+}
+
+/**
+ * 构建使用统计分组
+ * @param data - API 响应数据
+ * @returns 分组节点
+ */
+function buildUsageSection(data: RelayApiResponse): UsageTreeNode {
+  const total = data.data.usage.total;
+
+  return {
+    label: '使用统计',
+    icon: 'graph',
+    children: [
+      { label: '总请求数', description: formatLargeNumber(total.requests) },
+      { label: '总Token数', description: formatLargeNumber(total.allTokens) },
+      { label: '输入Token', description: formatLargeNumber(total.inputTokens) },
+      { label: '输出Token', description: formatLargeNumber(total.outputTokens) },
+      { label: '缓存创建Token', description: formatLargeNumber(total.cacheCreateTokens) },
+      { label: '缓存读取Token', description: formatLargeNumber(total.cacheReadTokens) },
+      { label: '总费用', description: total.formattedCost, copyValue: total.formattedCost },
+    ],
+  };
+}
+
+/**
+ * 构建关联账户分组
+ * @param data - API 响应数据
+ * @returns 分组节点
+ */
+function buildAccountsSection(data: RelayApiResponse): UsageTreeNode {
+  const accounts = data.data.accounts;
+  const children: UsageTreeNode[] = [];
+
+  const entries: [string, string | null][] = [
+    ['Claude账户', accounts.claudeAccountId],
+    ['Gemini账户', accounts.geminiAccountId],
+    ['OpenAI账户', accounts.openaiAccountId],
+  ];
+  for (const [label, accountId] of entries) {
+    if (accountId) {
+      children.push({ label, description: accountId, icon: 'link', copyValue: accountId });
+    }
+  }
+
+  if (children.length === 0) {
+    children.push({ label: '关联账户', description: '无' });
+  }
+
+  return { label: '关联账户', icon: 'organization', children };
+}
+
+/**
+ * 构建限制规则分组
+ * @param data - API 响应数据
+ * @returns 分组节点
+ */
+function buildRestrictionsSection(data: RelayApiResponse): UsageTreeNode {
+  const restrictions = data.data.restrictions;
+  const modelRestricted = restrictions.enableModelRestriction && restrictions.restrictedModels.length > 0;
+  const clientRestricted = restrictions.enableClientRestriction && restrictions.allowedClients.length > 0;
+
+  return {
+    label: '限制规则',
+    icon: 'shield',
+    children: [
+      {
+        label: '模型限制',
+        description: modelRestricted ? '已启用' : '未启用',
+        children: modelRestricted
+          ? restrictions.restrictedModels.map((model) => ({ label: model, copyValue: model }))
+          : undefined,
+      },
+      {
+        label: '客户端限制',
+        description: clientRestricted ? '已启用' : '未启用',
+        children: clientRestricted
+          ? restrictions.allowedClients.map((client) => ({ label: client, copyValue: client }))
+          : undefined,
+      },
+    ],
+  };
+}
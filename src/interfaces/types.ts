@@ -140,6 +140,270 @@ export interface StatusBarConfig {
   enableLogging: boolean;
 }
 
+/**
+ * 状态栏渲染选项（随数据一起传入状态栏处理器的附加信息）
+ */
+export interface StatusBarRenderOptions {
+  profileName?: string;
+  isActiveProfile?: boolean;
+  forecasts?: LimitForecast[];
+  staleSince?: number;
+  lastError?: LastErrorInfo;
+  budgets?: BudgetStatus[];
+}
+
+/**
+ * 请求错误分类
+ * - network：无法连接服务器
+ * - timeout：请求超时
+ * - auth：认证失败（HTTP 401 / 403）
+ * - client：其他 4xx 错误
+ * - server：5xx 错误
+ * - invalidPayload：返回数据无效
+ * - unknown：其他无法归类的错误（不是请求本身失败）
+ */
+export type RelayErrorKind = 'network' | 'timeout' | 'auth' | 'client' | 'server' | 'invalidPayload' | 'unknown';
+
+/**
+ * 最近一次错误信息（用于悬停提示）
+ */
+export interface LastErrorInfo {
+  kind: RelayErrorKind;
+  message: string;
+  occurredAt: number;
+  failingSince: number;
+  failureCount: number;
+}
+
+/**
+ * 最近一次成功获取的数据（离线时作为过期数据显示）
+ */
+export interface CachedStats {
+  data: RelayApiResponse;
+  apiUrl: string;
+  apiId: string;
+  /** 档案配置的 API ID / API Key 的指纹（不保存明文，凭证变化后缓存失效） */
+  keyFingerprint: string;
+  fetchedAt: number;
+}
+
+/**
+ * 多窗口共享的档案数据（由负责刷新的窗口写入共享文件）
+ */
+export interface SharedStatsEntry {
+  stats: CachedStats;
+  lastError?: LastErrorInfo;
+  updatedAt: number;
+  nextUpdateAt?: number;
+}
+
+/**
+ * API Key 换取的 API ID 缓存项
+ */
+export interface ApiIdCacheEntry {
+  apiId: string;
+  resolvedAt: number;
+}
+
+/**
+ * 中继配置档案接口（对应 relayMeter.profiles 中的一项）
+ */
+export interface RelayProfile {
+  /** 档案标识（settings 中的 id，用于关联安全存储中的凭证；旧版档案没有时按名称关联） */
+  id?: string;
+  name: string;
+  apiUrl: string;
+  apiId: string;
+  apiKey: string;
+  refreshInterval: number;
+  provider: UsageProviderType;
+  jsonPath?: JsonPathProviderConfig;
+}
+
+/**
+ * 用量数据源类型
+ * - relay：claude-relay-service（/apiStats/api/user-stats）
+ * - newApi：new-api / one-api 风格的令牌用量接口（/api/usage/token）
+ * - jsonPath：任意 JSON 接口，通过 JSONPath 映射到用量字段
+ */
+export type UsageProviderType = 'relay' | 'newApi' | 'jsonPath';
+
+/**
+ * 请求用量数据所需的凭证
+ */
+export interface UsageCredentials {
+  apiUrl: string;
+  apiId: string;
+  apiKey: string;
+  jsonPath?: JsonPathProviderConfig;
+}
+
+/**
+ * 用量数据源适配器（统一转换为 RelayApiResponse，供状态栏、历史和提醒使用）
+ */
+export interface UsageProvider {
+  type: UsageProviderType;
+  label: string;
+  /** 通过 API Key 换取 API ID（仅需要 API ID 的数据源提供） */
+  resolveApiId?: (apiUrl: string, apiKey: string) => Promise<string>;
+  fetchUsage: (credentials: UsageCredentials) => Promise<RelayApiResponse>;
+}
+
+/**
+ * 通用 JSON 数据源配置（对应 relayMeter.jsonPathProvider）
+ */
+export interface JsonPathProviderConfig {
+  endpoint: string;
+  method?: 'GET' | 'POST';
+  headers?: Record<string, string>;
+  body?: unknown;
+  mapping: Record<string, string>;
+  costScale?: number;
+}
+
+/**
+ * 用量快照接口（本地历史记录中的一条时间序列数据）
+ */
+export interface UsageSnapshot {
+  timestamp: number;
+  profileName: string;
+  apiId: string;
+  currentDailyCost: number;
+  currentWindowCost: number;
+  weeklyOpusCost: number;
+  currentTotalCost: number;
+  total: SnapshotTotalUsage;
+  models: SnapshotModelUsage[];
+}
+
+/**
+ * 快照中的总使用量（不含格式化字段）
+ */
+export interface SnapshotTotalUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreateTokens: number;
+  cacheReadTokens: number;
+  allTokens: number;
+  cost: number;
+}
+
+/**
+ * 快照中的模型使用量
+ */
+export interface SnapshotModelUsage {
+  modelName: string;
+  requests: number;
+  allTokens: number;
+  cost: number;
+}
+
+/**
+ * 历史快照查询条件
+ */
+export interface SnapshotQuery {
+  profileName?: string;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+/**
+ * 限额类型（用于消耗预测）
+ */
+export type LimitKind = 'daily' | 'window' | 'opus';
+
+/**
+ * 限额消耗预测结果
+ */
+export interface LimitForecast {
+  kind: LimitKind;
+  label: string;
+  used: number;
+  limit: number;
+  ratePerHour: number;
+  exhaustAt: number | null;
+  resetAt: number | null;
+  willExhaust: boolean;
+}
+
+/**
+ * 提醒规则监测指标
+ * - daily / window / opus / total：对应费用限额的使用百分比
+ * - expiry：距离 API Key 过期的剩余天数
+ */
+export type AlertMetric = 'daily' | 'window' | 'opus' | 'total' | 'expiry';
+
+/**
+ * 提醒规则（对应 relayMeter.alertRules 中的一项）
+ */
+export interface AlertRule {
+  metric: AlertMetric;
+  threshold: number;
+  enabled?: boolean;
+}
+
+/**
+ * 提醒规则的持久化状态
+ */
+export interface AlertRuleState {
+  triggeredAt: number;
+  remindAt?: number;
+}
+
+/**
+ * 单个项目（工作区文件夹）的归属费用
+ */
+export interface ProjectCostEntry {
+  name: string;
+  path: string;
+  cost: number;
+  requests: number;
+  tokens: number;
+  byProfile: Record<string, number>;
+  days: Record<string, number>;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+/**
+ * 个人预算周期
+ * - daily：当天（中继服务的每日费用）
+ * - weekly：本周（周一 00:00 起，基于本地历史计算）
+ * - monthly：本月（1 日 00:00 起，基于本地历史计算）
+ * - total：累计总费用
+ */
+export type BudgetPeriod = 'daily' | 'weekly' | 'monthly' | 'total';
+
+/**
+ * 个人预算（对应 relayMeter.budgets 中的一项）
+ */
+export interface BudgetRule {
+  name?: string;
+  period: BudgetPeriod;
+  amount: number;
+  profile?: string;
+  project?: string;
+  alertAt?: number;
+  enabled?: boolean;
+}
+
+/**
+ * 个人预算的评估结果
+ */
+export interface BudgetStatus {
+  key: string;
+  label: string;
+  period: BudgetPeriod;
+  amount: number;
+  spent: number;
+  percent: number;
+  alertAt: number;
+  partial: boolean;
+  project?: string;
+}
+
 /**
  * API Key 转换响应接口
  */
@@ -0,0 +1,57 @@
+/**
+ * 文件说明：当前档案
+ * 作用：记录用户通过"切换中继档案"选择的当前档案（持久化到 globalState），
+ *       多档案时当前档案的状态栏项排在最前，仪表盘和用量树视图默认显示该档案
+ */
+
+import * as vscode from 'vscode';
+import { RelayProfile } from '../interfaces/types';
+import { log } from '../utils/logger';
+
+/**
+ * 保存在 globalState 中的键名
+ */
+const ACTIVE_PROFILE_KEY = 'relayMeter.activeProfile';
+
+/**
+ * 扩展上下文（用于读写 globalState）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 初始化当前档案
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeActiveProfile(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+}
+
+/**
+ * 获取当前档案
+ * @param profiles - 所有档案
+ * @returns 用户选择的档案；未选择过或该档案已删除时为第一个档案
+ *
+ * 按档案 id 识别（没有 id 的旧档案按名称），重命名档案后仍保持选择
+ */
+export function resolveActiveProfile(profiles: RelayProfile[]): RelayProfile | undefined {
+  const key = extensionContext?.globalState.get<string>(ACTIVE_PROFILE_KEY);
+  return profiles.find((profile) => getProfileKey(profile) === key) || profiles[0];
+}
+
+/**
+ * 设置当前档案
+ * @param profile - 档案
+ */
+export async function setActiveProfile(profile: RelayProfile): Promise<void> {
+  await extensionContext?.globalState.update(ACTIVE_PROFILE_KEY, getProfileKey(profile));
+  log(`[当前档案] 已切换到档案：${profile.name}`);
+}
+
+/**
+ * 获取档案的识别键
+ * @param profile - 档案
+ * @returns 档案 id，没有 id 时为名称
+ */
+function getProfileKey(profile: RelayProfile): string {
+  return profile.id || `name:${profile.name}`;
+}
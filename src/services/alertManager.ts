@@ -0,0 +1,284 @@
+/**
+ * 文件说明：阈值提醒管理器
+ * 作用：根据可配置的提醒规则和个人预算检查用量数据，在越过阈值时发送通知，并持久化去重状态
+ */
+
+import * as vscode from 'vscode';
+import { AlertMetric, AlertRule, AlertRuleState, BudgetStatus, RelayApiResponse } from '../interfaces/types';
+import { formatCost, formatNumberWithDecimals } from '../utils/formatter';
+import { log } from '../utils/logger';
+
+/**
+ * 提醒状态在 globalState 中的键名
+ */
+const ALERT_STATE_KEY = 'relayMeter.alertState';
+
+/**
+ * 默认提醒规则
+ */
+const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { metric: 'daily', threshold: 80 },
+  { metric: 'window', threshold: 90 },
+  { metric: 'opus', threshold: 75 },
+  { metric: 'expiry', threshold: 3 },
+];
+
+/**
+ * 各指标的显示名称
+ */
+const METRIC_LABELS: Record<AlertMetric, string> = {
+  daily: '每日费用',
+  window: '窗口费用',
+  opus: 'Opus 周费用',
+  total: '总费用',
+  expiry: 'API Key 有效期',
+};
+
+/**
+ * 扩展上下文（用于读写 globalState）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 初始化提醒管理器
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeAlerts(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+}
+
+/**
+ * 检查用量数据并在越过阈值时发送通知
+ * @param profileName - 档案名称
+ * @param data - API 响应数据
+ * @param label - 通知中显示的档案标签（可选，多档案时提供）
+ */
+export async function evaluateAlerts(profileName: string, data: RelayApiResponse, label?: string): Promise<void> {
+  if (!extensionContext || !isAlertsEnabled()) {
+    return;
+  }
+
+  const states = getAlertStates();
+  const now = Date.now();
+  let changed = false;
+
+  for (const rule of getAlertRules()) {
+    const value = getMetricValue(rule.metric, data);
+    const stateKey = `${profileName}|${getRuleKey(rule)}`;
+    const state = states[stateKey];
+
+    // 指标不可用或回落到阈值以下：清除状态，下次越过阈值时重新提醒
+    if (value === null || !isThresholdCrossed(rule, value)) {
+      if (state) {
+        delete states[stateKey];
+        changed = true;
+        log(`[提醒] 规则已恢复正常：${stateKey}`);
+      }
+      continue;
+    }
+
+    // 已提醒过且未到稍后提醒时间：跳过
+    if (state && (state.remindAt === undefined || now < state.remindAt)) {
+      continue;
+    }
+
+    states[stateKey] = { triggeredAt: now };
+    changed = true;
+    log(`[提醒] 触发提醒规则：${stateKey}，当前值：${formatNumberWithDecimals(value, 2)}`);
+
+    // 通知不阻塞刷新流程，用户的选择异步写回状态
+    showAlertNotification(stateKey, buildRuleMessage(rule, value, label));
+  }
+
+  if (changed) {
+    await saveAlertStates(states);
+  }
+}
+
+/**
+ * 检查个人预算并在达到提醒阈值时发送通知（与服务端限额是否超出无关）
+ * @param profileName - 档案名称
+ * @param budgets - 预算评估结果
+ * @param label - 通知中显示的档案标签（可选，多档案时提供）
+ */
+export async function evaluateBudgetAlerts(profileName: string, budgets: BudgetStatus[], label?: string): Promise<void> {
+  if (!extensionContext || !isAlertsEnabled()) {
+    return;
+  }
+
+  const states = getAlertStates();
+  let changed = false;
+
+  for (const budget of budgets) {
+    // 项目预算统计的是项目在所有档案下的费用，每个档案刷新时都会评估，提醒状态不区分档案以免重复通知
+    const stateKey = budget.project ? `budget:${budget.key}` : `${profileName}|budget:${budget.key}`;
+    const state = states[stateKey];
+
+    // 新周期开始后已用费用回落，清除状态以便下个周期重新提醒
+    if (budget.percent < budget.alertAt) {
+      if (state) {
+        delete states[stateKey];
+        changed = true;
+        log(`[提醒] 预算已恢复正常：${stateKey}`);
+      }
+      continue;
+    }
+
+    if (state && (state.remindAt === undefined || Date.now() < state.remindAt)) {
+      continue;
+    }
+
+    states[stateKey] = { triggeredAt: Date.now() };
+    changed = true;
+    log(`[提醒] 触发预算提醒：${stateKey}，已使用 ${formatNumberWithDecimals(budget.percent, 2)}%`);
+
+    const prefix = 'Claude Relay Meter: ' + (label && !budget.project ? `[${label}] ` : '');
+    const message =
+      budget.percent >= 100
+        ? `${prefix}已超出个人预算「${budget.label}」：已用 ${formatCost(budget.spent)}，预算 ${formatCost(budget.amount)}`
+        : `${prefix}个人预算「${budget.label}」已使用 ${formatNumberWithDecimals(budget.percent, 2)}%（${formatCost(budget.spent)} / ${formatCost(budget.amount)}）`;
+    showAlertNotification(stateKey, message);
+  }
+
+  if (changed) {
+    await saveAlertStates(states);
+  }
+}
+
+/**
+ * 清除所有提醒状态
+ */
+export async function resetAlertStates(): Promise<void> {
+  await saveAlertStates({});
+  log('[提醒] 提醒状态已重置');
+}
+
+/**
+ * 检查提醒是否启用
+ * @returns 如果启用返回 true
+ */
+function isAlertsEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return config.get<boolean>('enableAlerts', true);
+}
+
+/**
+ * 获取已启用的提醒规则
+ * @returns 提醒规则列表
+ */
+function getAlertRules(): AlertRule[] {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const rules = config.get<AlertRule[]>('alertRules', DEFAULT_ALERT_RULES) || [];
+
+  return rules.filter(
+    (rule) => rule.enabled !== false && rule.metric in METRIC_LABELS && typeof rule.threshold === 'number'
+  );
+}
+
+/**
+ * 获取规则的唯一键
+ * @param rule - 提醒规则
+ * @returns 规则键
+ */
+function getRuleKey(rule: AlertRule): string {
+  return `${rule.metric}:${rule.threshold}`;
+}
+
+/**
+ * 计算指标当前值
+ * @param metric - 监测指标
+ * @param data - API 响应数据
+ * @returns 费用指标返回使用百分比，expiry 返回剩余天数；无法计算时返回 null
+ */
+function getMetricValue(metric: AlertMetric, data: RelayApiResponse): number | null {
+  const limits = data.data.limits;
+  const percent = (used: number, limit: number) => (limit > 0 ? (used / limit) * 100 : null);
+
+  switch (metric) {
+    case 'daily':
+      return percent(limits.currentDailyCost, limits.dailyCostLimit);
+    case 'window':
+      return percent(limits.currentWindowCost, limits.rateLimitCost);
+    case 'opus':
+      return percent(limits.weeklyOpusCost, limits.weeklyOpusCostLimit);
+    case 'total':
+      return percent(limits.currentTotalCost, limits.totalCostLimit);
+    case 'expiry': {
+      const expiresAt = data.data.expiresAt ? new Date(data.data.expiresAt).getTime() : NaN;
+      return isNaN(expiresAt) ? null : (expiresAt - Date.now()) / (24 * 60 * 60 * 1000);
+    }
+  }
+}
+
+/**
+ * 判断指标是否越过阈值
+ * @param rule - 提醒规则
+ * @param value - 指标当前值
+ * @returns 越过阈值返回 true
+ */
+function isThresholdCrossed(rule: AlertRule, value: number): boolean {
+  // 过期提醒是"剩余天数低于阈值"，其余是"使用百分比达到阈值"
+  return rule.metric === 'expiry' ? value < rule.threshold : value >= rule.threshold;
+}
+
+/**
+ * 构建提醒规则的通知消息
+ * @param rule - 提醒规则
+ * @param value - 指标当前值
+ * @param label - 档案标签（可选）
+ * @returns 通知消息
+ */
+function buildRuleMessage(rule: AlertRule, value: number, label?: string): string {
+  const prefix = 'Claude Relay Meter: ' + (label ? `[${label}] ` : '');
+  return rule.metric === 'expiry'
+    ? `${prefix}API Key 将在 ${formatNumberWithDecimals(Math.max(0, value), 1)} 天后过期（阈值 ${rule.threshold} 天）`
+    : `${prefix}${METRIC_LABELS[rule.metric]}已使用 ${formatNumberWithDecimals(value, 2)}%（阈值 ${rule.threshold}%）`;
+}
+
+/**
+ * 显示提醒通知，并处理稍后提醒操作
+ * @param stateKey - 状态键
+ * @param message - 通知消息
+ */
+async function showAlertNotification(stateKey: string, message: string): Promise<void> {
+  const acknowledgeButton = '知道了';
+  const snoozeHourButton = '1 小时后提醒';
+  const snoozeTodayButton = '明天再提醒';
+
+  const choice = await vscode.window.showWarningMessage(message, acknowledgeButton, snoozeHourButton, snoozeTodayButton);
+
+  let remindAt: number | undefined;
+  if (choice === snoozeHourButton) {
+    remindAt = Date.now() + 60 * 60 * 1000;
+  } else if (choice === snoozeTodayButton) {
+    const tomorrow = new Date();
+    tomorrow.setHours(24, 0, 0, 0);
+    remindAt = tomorrow.getTime();
+  } else {
+    // 确认或关闭通知：本次越过阈值不再提醒
+    return;
+  }
+
+  const states = getAlertStates();
+  if (states[stateKey]) {
+    states[stateKey].remindAt = remindAt;
+    await saveAlertStates(states);
+    log(`[提醒] 规则 ${stateKey} 已设置稍后提醒：${new Date(remindAt).toLocaleString()}`);
+  }
+}
+
+/**
+ * 读取提醒状态
+ * @returns 状态键到状态的映射
+ */
+function getAlertStates(): Record<string, AlertRuleState> {
+  return { ...(extensionContext?.globalState.get<Record<string, AlertRuleState>>(ALERT_STATE_KEY) || {}) };
+}
+
+/**
+ * 保存提醒状态
+ * @param states - 状态键到状态的映射
+ */
+async function saveAlertStates(states: Record<string, AlertRuleState>): Promise<void> {
+  await extensionContext?.globalState.update(ALERT_STATE_KEY, states);
+}
@@ -3,16 +3,18 @@
  * 作用：负责与 Claude Relay Service 后端通信，获取用量数据
  */
 
-import axios, { AxiosError } from 'axios';
-import { RelayApiResponse, ApiKeyResponse } from '../interfaces/types';
+import { RelayApiResponse, ApiKeyResponse, UsageProviderType } from '../interfaces/types';
 import { log, logError } from '../utils/logger';
+import { classifyError, createHttpError, createRelayError, InvalidPayloadError, RelayApiError } from './apiErrors';
+import { getHttpClient } from './httpClient';
+import { normalizeRelayResponse } from './responseValidator';
 
 /**
  * 获取 Claude Relay 用量统计数据
  * @param apiUrl - API 基础地址（例如：https://text.com）
  * @param apiId - API 标识符
  * @returns API 响应数据
- * @throws 当请求失败时抛出错误
+ * @throws {RelayApiError} 当请求失败时抛出分类错误
  *
  * 请求说明：
  * - 方法：POST
@@ -30,7 +32,7 @@ export async function fetchRelayStats(
     const fullUrl = `${apiUrl}/apiStats/api/user-stats`;
 
     // 发送 POST 请求
-    const response = await axios.post<RelayApiResponse>(
+    const response = await getHttpClient().post<RelayApiResponse>(
       fullUrl,
       {
         apiId: apiId,
@@ -41,51 +43,24 @@ export async function fetchRelayStats(
           Accept: '*/*',
           'Accept-Language': 'zh-CN,zh;q=0.9',
         },
-        timeout: 10000, // 10 秒超时
       }
     );
 
     // 检查响应状态
     if (response.status !== 200) {
-      throw new Error(`API 请求失败，状态码：${response.status}`);
+      throw createHttpError(response.status, `API 请求失败，状态码：${response.status}`);
     }
 
-    // 检查响应数据
-    if (!response.data || !response.data.success) {
-      throw new Error('API 返回数据无效或请求失败');
-    }
+    // 校验响应数据（缺失或类型不符的字段使用默认值，success 不为 true 时抛出错误）
+    const data = normalizeRelayResponse(response.data, apiUrl);
 
     log('[API] 用量数据获取成功');
-    log('[API] 用量数据获取成功'+response.data);
-    return response.data;
+    return data;
   } catch (error) {
-    // 处理不同类型的错误
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-
-      if (axiosError.response) {
-        // 服务器返回了错误响应
-        logError(
-          `[API] 服务器错误，状态码：${axiosError.response.status}`,
-          error as Error
-        );
-        throw new Error(
-          `API 请求失败：服务器返回 ${axiosError.response.status} 错误`
-        );
-      } else if (axiosError.request) {
-        // 请求已发送但没有收到响应
-        logError('[API] 网络错误，无法连接到服务器', error as Error);
-        throw new Error('无法连接到服务器，请检查网络连接和 API 地址');
-      } else {
-        // 请求配置出错
-        logError('[API] 请求配置错误', error as Error);
-        throw new Error('请求配置错误：' + axiosError.message);
-      }
-    } else {
-      // 其他类型的错误
-      logError('[API] 未知错误', error as Error);
-      throw error;
-    }
+    // 按原因分类错误
+    const relayError = classifyError(error, 'API 请求失败');
+    logError(`[API] 用量数据请求失败（${relayError.kind}）`, relayError);
+    throw relayError;
   }
 }
 
@@ -94,12 +69,14 @@ export async function fetchRelayStats(
  * @param apiUrl - API 基础地址
  * @param apiId - API 标识符
  * @param apiKey - API Key（可选，与 apiId 二选一）
+ * @param provider - 用量数据源类型（relay 以外的数据源只使用 API Key）
  * @returns 验证结果、错误消息和缺失配置类型
  */
 export function validateApiConfig(
   apiUrl: string,
   apiId: string,
-  apiKey?: string
+  apiKey?: string,
+  provider: UsageProviderType = 'relay'
 ): { valid: boolean; message?: string; missingConfig?: 'apiUrl' | 'apiId' | 'both' } {
   const urlMissing = !apiUrl || apiUrl.trim() === '';
   const idMissing = !apiId || apiId.trim() === '';
@@ -142,6 +119,18 @@ export function validateApiConfig(
     };
   }
 
+  // 其他数据源没有 API ID 的概念，必须配置 API Key
+  if (provider !== 'relay') {
+    if (keyMissing) {
+      return {
+        valid: false,
+        message: '当前数据源需要配置 API Key，请在设置中配置',
+        missingConfig: 'apiId',
+      };
+    }
+    return { valid: true };
+  }
+
   // 检查 API ID 或 API Key 是否至少有一个存在
   if (idMissing && keyMissing) {
     return {
@@ -206,7 +195,7 @@ export async function testApiConnection(
  * @param apiUrl - API 基础地址
  * @param apiKey - API Key
  * @returns API ID
- * @throws 当请求失败时抛出错误
+ * @throws {RelayApiError} 当请求失败时抛出分类错误
  *
  * 请求说明：
  * - 方法：POST
@@ -224,7 +213,7 @@ export async function getApiIdFromKey(
     const fullUrl = `${apiUrl}/apiStats/api/get-key-id`;
 
     // 发送 POST 请求
-    const response = await axios.post<ApiKeyResponse>(
+    const response = await getHttpClient().post<ApiKeyResponse>(
       fullUrl,
       {
         apiKey: apiKey,
@@ -235,50 +224,26 @@ export async function getApiIdFromKey(
           Accept: '*/*',
           'Accept-Language': 'zh-CN,zh;q=0.9',
         },
-        timeout: 10000, // 10 秒超时
       }
     );
 
     // 检查响应状态
     if (response.status !== 200) {
-      throw new Error(`API Key 转换请求失败，状态码：${response.status}`);
+      throw createHttpError(response.status, `API Key 转换请求失败，状态码：${response.status}`);
     }
 
-    // 检查响应数据
+    // 检查响应数据（API Key 无效时中继返回 success: false）
     if (!response.data || !response.data.success || !response.data.data?.id) {
-      throw new Error('API Key 转换失败或返回数据无效');
+      throw new InvalidPayloadError('API Key 转换失败或返回数据无效');
     }
 
     log(`[API] API ID 获取成功：${response.data.data.id}`);
     return response.data.data.id;
   } catch (error) {
-    // 处理不同类型的错误
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-
-      if (axiosError.response) {
-        // 服务器返回了错误响应
-        logError(
-          `[API] API Key 转换服务器错误，状态码：${axiosError.response.status}`,
-          error as Error
-        );
-        throw new Error(
-          `API Key 转换失败：服务器返回 ${axiosError.response.status} 错误`
-        );
-      } else if (axiosError.request) {
-        // 请求已发送但没有收到响应
-        logError('[API] API Key 转换网络错误', error as Error);
-        throw new Error('无法连接到服务器，请检查网络连接和 API 地址');
-      } else {
-        // 请求配置出错
-        logError('[API] API Key 转换请求配置错误', error as Error);
-        throw new Error('请求配置错误：' + axiosError.message);
-      }
-    } else {
-      // 其他类型的错误
-      logError('[API] API Key 转换未知错误', error as Error);
-      throw error;
-    }
+    // 按原因分类错误
+    const relayError = classifyError(error, 'API Key 转换失败');
+    logError(`[API] API Key 转换失败（${relayError.kind}）`, relayError);
+    throw relayError;
   }
 }
 
@@ -289,6 +254,7 @@ export async function getApiIdFromKey(
  * @param maxRetries - 最大重试次数，默认为 3
  * @param retryDelay - 重试延迟（毫秒），默认为 1000
  * @returns API 响应数据
+ * @throws {RelayApiError} 所有重试失败或遇到不可重试的错误时抛出
  */
 export async function fetchRelayStatsWithRetry(
   apiUrl: string,
@@ -296,16 +262,39 @@ export async function fetchRelayStatsWithRetry(
   maxRetries: number = 3,
   retryDelay: number = 1000
 ): Promise<RelayApiResponse> {
-  let lastError: Error | undefined;
+  return requestWithRetry(() => fetchRelayStats(apiUrl, apiId), maxRetries, retryDelay);
+}
+
+/**
+ * 带重试机制执行请求（供各用量数据源共用）
+ * @param request - 请求函数
+ * @param maxRetries - 最大重试次数，默认为 3
+ * @param retryDelay - 重试延迟（毫秒），默认为 1000
+ * @returns 请求结果
+ * @throws {RelayApiError} 所有重试失败或遇到不可重试的错误时抛出
+ */
+export async function requestWithRetry<T>(
+  request: () => Promise<T>,
+  maxRetries: number = 3,
+  retryDelay: number = 1000
+): Promise<T> {
+  let lastError: RelayApiError | undefined;
+  let attempts = 0;
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    attempts = attempt;
     try {
       log(`[API] 尝试请求数据（第 ${attempt}/${maxRetries} 次）`);
-      return await fetchRelayStats(apiUrl, apiId);
+      return await request();
     } catch (error) {
-      lastError = error as Error;
+      lastError = classifyError(error, 'API 请求失败');
       logError(`[API] 第 ${attempt} 次请求失败`, lastError);
 
+      // 认证、请求参数或数据格式错误，重试也不会成功
+      if (!lastError.retryable) {
+        break;
+      }
+
       // 如果不是最后一次尝试，等待后重试
       if (attempt < maxRetries) {
         log(`[API] 等待 ${retryDelay}ms 后重试...`);
@@ -316,8 +305,10 @@ export async function fetchRelayStatsWithRetry(
     }
   }
 
-  // 所有重试都失败
-  throw new Error(
-    `API 请求失败，已重试 ${maxRetries} 次。最后错误：${lastError?.message}`
+  // 所有重试都失败（保留最后一次错误的分类）
+  throw createRelayError(
+    lastError?.kind || 'network',
+    `API 请求失败，已尝试 ${attempts} 次。最后错误：${lastError?.message}`,
+    lastError?.status
   );
 }
@@ -0,0 +1,181 @@
+/**
+ * 文件说明：API 请求错误分类
+ * 作用：将请求失败按原因分类为不同的错误类型，便于重试和通知策略区分处理
+ */
+
+import axios from 'axios';
+import { RelayErrorKind } from '../interfaces/types';
+
+/**
+ * 各错误类型的显示名称
+ */
+export const ERROR_KIND_LABELS: Record<RelayErrorKind, string> = {
+  network: '网络错误',
+  timeout: '请求超时',
+  auth: '认证失败',
+  client: '请求错误',
+  server: '服务器错误',
+  invalidPayload: '数据无效',
+  unknown: '未知错误',
+};
+
+/**
+ * 中继 API 错误基类
+ */
+export class RelayApiError extends Error {
+  constructor(
+    readonly kind: RelayErrorKind,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  /**
+   * 是否值得重试（认证、请求参数和数据格式错误重试也不会成功）
+   */
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || this.kind === 'server';
+  }
+}
+
+/**
+ * 网络错误：请求已发送但没有收到响应
+ */
+export class NetworkError extends RelayApiError {
+  constructor(message: string) {
+    super('network', message);
+  }
+}
+
+/**
+ * 超时错误
+ */
+export class TimeoutError extends RelayApiError {
+  constructor(message: string) {
+    super('timeout', message);
+  }
+}
+
+/**
+ * 认证错误：HTTP 401 / 403
+ */
+export class AuthError extends RelayApiError {
+  constructor(message: string, status?: number) {
+    super('auth', message, status);
+  }
+}
+
+/**
+ * 客户端错误：除认证外的其他 HTTP 4xx
+ */
+export class ClientError extends RelayApiError {
+  constructor(message: string, status?: number) {
+    super('client', message, status);
+  }
+}
+
+/**
+ * 服务器错误：HTTP 5xx
+ */
+export class ServerError extends RelayApiError {
+  constructor(message: string, status?: number) {
+    super('server', message, status);
+  }
+}
+
+/**
+ * 数据无效错误：响应格式不符合预期
+ */
+export class InvalidPayloadError extends RelayApiError {
+  constructor(message: string) {
+    super('invalidPayload', message);
+  }
+}
+
+/**
+ * 未知错误：不是请求本身失败（例如处理响应时抛出的异常），无法归入其他类型
+ */
+export class UnknownError extends RelayApiError {
+  constructor(message: string) {
+    super('unknown', message);
+  }
+}
+
+/**
+ * 按错误类型创建对应的错误实例
+ * @param kind - 错误类型
+ * @param message - 错误消息
+ * @param status - HTTP 状态码（可选）
+ * @returns 错误实例
+ */
+export function createRelayError(kind: RelayErrorKind, message: string, status?: number): RelayApiError {
+  switch (kind) {
+    case 'network':
+      return new NetworkError(message);
+    case 'timeout':
+      return new TimeoutError(message);
+    case 'auth':
+      return new AuthError(message, status);
+    case 'client':
+      return new ClientError(message, status);
+    case 'server':
+      return new ServerError(message, status);
+    case 'invalidPayload':
+      return new InvalidPayloadError(message);
+    case 'unknown':
+      return new UnknownError(message);
+  }
+}
+
+/**
+ * 按 HTTP 状态码创建错误
+ * @param status - HTTP 状态码
+ * @param message - 错误消息
+ * @returns 错误实例
+ */
+export function createHttpError(status: number, message: string): RelayApiError {
+  if (status === 401 || status === 403) {
+    return new AuthError(message, status);
+  }
+  if (status >= 500) {
+    return new ServerError(message, status);
+  }
+  return new ClientError(message, status);
+}
+
+/**
+ * 将任意错误转换为分类错误
+ * @param error - 原始错误
+ * @param messagePrefix - 错误消息前缀（例如"API Key 转换失败"）
+ * @returns 分类后的错误实例
+ */
+export function classifyError(error: unknown, messagePrefix: string): RelayApiError {
+  if (error instanceof RelayApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      // 服务器返回了错误响应
+      return createHttpError(
+        error.response.status,
+        `${messagePrefix}：服务器返回 ${error.response.status} 错误`
+      );
+    }
+    if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+      return new TimeoutError(`${messagePrefix}：请求超时，请检查网络连接或稍后重试`);
+    }
+    if (error.request) {
+      // 请求已发送但没有收到响应
+      return new NetworkError('无法连接到服务器，请检查网络连接和 API 地址');
+    }
+    // 请求配置出错
+    return new ClientError('请求配置错误：' + error.message);
+  }
+
+  // 非 axios 错误不是连接失败，不归为网络错误
+  const message = error instanceof Error ? error.message : String(error);
+  return new UnknownError(`${messagePrefix}：${message}`);
+}
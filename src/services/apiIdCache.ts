@@ -0,0 +1,108 @@
+/**
+ * 文件说明：API ID 解析缓存
+ * 作用：按 (apiUrl, apiKey) 缓存通过 API Key 换取的 API ID，避免每次刷新都额外请求一次
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { ApiIdCacheEntry } from '../interfaces/types';
+import { log } from '../utils/logger';
+
+/**
+ * 缓存在 globalState 中的键名
+ */
+const API_ID_CACHE_KEY = 'relayMeter.apiIdCache';
+
+/**
+ * 扩展上下文（用于读写 globalState）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 内存中的缓存（缓存键 -> 解析结果）
+ */
+let cache: Record<string, ApiIdCacheEntry> = {};
+
+/**
+ * 初始化缓存，从 globalState 恢复上次保存的解析结果
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeApiIdCache(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+  cache = { ...(context.globalState.get<Record<string, ApiIdCacheEntry>>(API_ID_CACHE_KEY) || {}) };
+  log(`[ID缓存] 已恢复 ${Object.keys(cache).length} 条 API ID 缓存`);
+}
+
+/**
+ * 获取缓存的 API ID
+ * @param apiUrl - API 地址
+ * @param apiKey - API Key
+ * @returns 缓存的 API ID，不存在时返回 undefined
+ */
+export function getCachedApiId(apiUrl: string, apiKey: string): string | undefined {
+  return cache[getCacheKey(apiUrl, apiKey)]?.apiId;
+}
+
+/**
+ * 保存 API ID 解析结果
+ * @param apiUrl - API 地址
+ * @param apiKey - API Key
+ * @param apiId - 解析得到的 API ID
+ */
+export async function saveCachedApiId(apiUrl: string, apiKey: string, apiId: string): Promise<void> {
+  cache[getCacheKey(apiUrl, apiKey)] = { apiId, resolvedAt: Date.now() };
+  await extensionContext?.globalState.update(API_ID_CACHE_KEY, cache);
+}
+
+/**
+ * 使某个 (apiUrl, apiKey) 的缓存失效（例如请求返回认证错误时）
+ * @param apiUrl - API 地址
+ * @param apiKey - API Key
+ */
+export async function invalidateCachedApiId(apiUrl: string, apiKey: string): Promise<void> {
+  const key = getCacheKey(apiUrl, apiKey);
+  if (!cache[key]) {
+    return;
+  }
+
+  delete cache[key];
+  await extensionContext?.globalState.update(API_ID_CACHE_KEY, cache);
+  log('[ID缓存] 已使 API ID 缓存失效');
+}
+
+/**
+ * 只保留当前档案仍在使用的缓存（API Key 或地址变化后旧缓存自动失效）
+ * @param pairs - 当前使用的 (apiUrl, apiKey) 列表
+ */
+export async function retainCachedApiIds(pairs: { apiUrl: string; apiKey: string }[]): Promise<void> {
+  const keys = pairs.map((pair) => getCacheKey(pair.apiUrl, pair.apiKey));
+  const staleKeys = Object.keys(cache).filter((key) => !keys.includes(key));
+  if (staleKeys.length === 0) {
+    return;
+  }
+
+  for (const key of staleKeys) {
+    delete cache[key];
+  }
+  await extensionContext?.globalState.update(API_ID_CACHE_KEY, cache);
+  log(`[ID缓存] 已移除 ${staleKeys.length} 条过期的 API ID 缓存`);
+}
+
+/**
+ * 清空所有 API ID 缓存
+ */
+export async function clearApiIdCache(): Promise<void> {
+  cache = {};
+  await extensionContext?.globalState.update(API_ID_CACHE_KEY, cache);
+  log('[ID缓存] API ID 缓存已清空');
+}
+
+/**
+ * 计算缓存键（API Key 只以哈希形式保存，不写入明文）
+ * @param apiUrl - API 地址
+ * @param apiKey - API Key
+ * @returns 缓存键
+ */
+function getCacheKey(apiUrl: string, apiKey: string): string {
+  return crypto.createHash('sha256').update(`${apiUrl.trim()}\n${apiKey.trim()}`).digest('hex');
+}
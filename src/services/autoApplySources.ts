@@ -0,0 +1,82 @@
+/**
+ * 文件说明：自动应用的配置来源
+ * 作用：记录用户选择"以后自动应用"的凭证来源（配置文件或环境变量），来自这些来源的配置变更在测试通过后直接应用，不再弹出审阅
+ */
+
+import * as vscode from 'vscode';
+import { log } from '../utils/logger';
+import { ClaudeSettingsFile, ClaudeSettingsResult } from '../utils/claudeSettingsReader';
+
+/**
+ * 保存在 globalState 中的键名
+ */
+const AUTO_APPLY_SOURCES_KEY = 'relayMeter.autoApplySources';
+
+/**
+ * 扩展上下文（用于读写 globalState）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 已记住的来源标识
+ */
+let sources = new Set<string>();
+
+/**
+ * 初始化，从 globalState 恢复已记住的来源
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeAutoApplySources(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+  sources = new Set(context.globalState.get<string[]>(AUTO_APPLY_SOURCES_KEY) || []);
+  log(`[自动应用] 已恢复 ${sources.size} 个自动应用的配置来源`);
+}
+
+/**
+ * 判断读取结果是否应自动应用
+ * @param result - 读取结果
+ * @returns API URL 和 API Key 的来源都已记住时返回 true
+ */
+export function shouldAutoApply(result: ClaudeSettingsResult): boolean {
+  const resultSources = getResultSources(result);
+  return resultSources.length > 0 && resultSources.every((source) => sources.has(getSourceId(source)));
+}
+
+/**
+ * 记住读取结果中的来源（以后自动应用）
+ * @param result - 读取结果
+ */
+export async function rememberAutoApplySources(result: ClaudeSettingsResult): Promise<void> {
+  for (const source of getResultSources(result)) {
+    sources.add(getSourceId(source));
+  }
+  await extensionContext?.globalState.update(AUTO_APPLY_SOURCES_KEY, Array.from(sources));
+  log(`[自动应用] 已记住配置来源，共 ${sources.size} 个`);
+}
+
+/**
+ * 清除所有已记住的来源
+ */
+export async function clearAutoApplySources(): Promise<void> {
+  sources.clear();
+  await extensionContext?.globalState.update(AUTO_APPLY_SOURCES_KEY, undefined);
+  log('[自动应用] 已清除所有自动应用的配置来源');
+}
+
+/**
+ * 获取读取结果涉及的来源
+ * @param result - 读取结果
+ * @returns 来源列表（API URL 和 API Key 的来源，可能相同）
+ */
+function getResultSources(result: ClaudeSettingsResult): ClaudeSettingsFile[] {
+  return [result.apiUrlSource, result.apiKeySource].filter((source): source is ClaudeSettingsFile => !!source);
+}
+
+/**
+ * 获取来源标识
+ * @param source - 来源
+ * @returns 形如 project:/path/.claude/settings.json 的标识
+ */
+function getSourceId(source: ClaudeSettingsFile): string {
+  return `${source.scope}:${source.path}`;
+}
@@ -0,0 +1,228 @@
+/**
+ * 文件说明：个人预算
+ * 作用：根据 relayMeter.budgets 中的个人预算（独立于中继服务的限额）和本地历史快照，计算各预算周期内的已用费用；
+ *       指定 project 的预算使用归属到该项目的费用
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { BudgetPeriod, BudgetRule, BudgetStatus, RelayApiResponse, UsageSnapshot } from '../interfaces/types';
+import * as HistoryStore from './historyStore';
+import * as ProjectAttribution from './projectAttribution';
+
+/**
+ * 各预算周期的显示名称
+ */
+export const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: '每日预算',
+  weekly: '每周预算',
+  monthly: '每月预算',
+  total: '总预算',
+};
+
+/**
+ * 评估档案的个人预算
+ * @param profileName - 档案名称
+ * @param data - 最新的 API 响应数据
+ * @param now - 当前时间戳（默认为 Date.now()）
+ * @returns 预算评估结果列表（未配置预算时为空数组）
+ */
+export function evaluateBudgets(profileName: string, data: RelayApiResponse, now: number = Date.now()): BudgetStatus[] {
+  const rules = getBudgetRules(profileName);
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const limits = data.data.limits;
+
+  return rules.map((rule) => {
+    let spent: number;
+    let partial = false;
+
+    if (rule.project) {
+      spent = computeProjectSpend(rule.project, rule.period, now);
+    } else {
+      switch (rule.period) {
+        case 'daily':
+          spent = limits.currentDailyCost;
+          break;
+        case 'total':
+          spent = limits.currentTotalCost;
+          break;
+        case 'weekly':
+        case 'monthly': {
+          const result = computePeriodSpend(
+            HistoryStore.querySnapshots({ profileName }),
+            limits.currentTotalCost,
+            limits.currentDailyCost,
+            getPeriodStart(rule.period, now)
+          );
+          spent = result.spent;
+          partial = result.partial;
+          break;
+        }
+      }
+    }
+
+    return {
+      key: getBudgetKey(rule),
+      label: rule.name || (rule.project ? `${path.basename(rule.project)} ${BUDGET_PERIOD_LABELS[rule.period]}` : BUDGET_PERIOD_LABELS[rule.period]),
+      period: rule.period,
+      amount: rule.amount,
+      spent,
+      percent: (spent / rule.amount) * 100,
+      alertAt: typeof rule.alertAt === 'number' && rule.alertAt > 0 ? rule.alertAt : 100,
+      partial,
+      project: rule.project,
+    };
+  });
+}
+
+/**
+ * 获取预算评估结果中最高的使用百分比
+ * @param budgets - 预算评估结果
+ * @returns 最高使用百分比，没有预算时返回 0
+ */
+export function getHighestBudgetPercent(budgets: BudgetStatus[]): number {
+  return budgets.reduce((highest, budget) => Math.max(highest, budget.percent), 0);
+}
+
+/**
+ * 计算档案今日剩余可用费用
+ * @param profileName - 档案名称
+ * @param data - 最新的 API 响应数据
+ * @returns 中继每日费用限额和个人每日预算（不含项目预算）中剩余最少的金额（不小于 0）；都未设置时返回 undefined（不限）
+ */
+export function getDailyHeadroom(profileName: string, data: RelayApiResponse): number | undefined {
+  const limits = data.data.limits;
+  const remaining: number[] = [];
+
+  if (limits.dailyCostLimit > 0) {
+    remaining.push(limits.dailyCostLimit - limits.currentDailyCost);
+  }
+  for (const rule of getBudgetRules(profileName)) {
+    if (rule.period === 'daily' && !rule.project) {
+      remaining.push(rule.amount - limits.currentDailyCost);
+    }
+  }
+
+  return remaining.length > 0 ? Math.max(Math.min(...remaining), 0) : undefined;
+}
+
+/**
+ * 获取适用于档案的预算规则
+ * @param profileName - 档案名称
+ * @returns 预算规则列表（未指定 profile 的预算适用于所有档案）
+ */
+function getBudgetRules(profileName: string): BudgetRule[] {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const rules = config.get<BudgetRule[]>('budgets', []) || [];
+
+  return rules.filter(
+    (rule) =>
+      rule.enabled !== false &&
+      rule.period in BUDGET_PERIOD_LABELS &&
+      typeof rule.amount === 'number' &&
+      rule.amount > 0 &&
+      (!rule.profile || rule.profile === profileName)
+  );
+}
+
+/**
+ * 获取预算的唯一键（用于提醒去重）
+ * @param rule - 预算规则
+ * @returns 预算键（项目预算的提醒不区分档案，键中包含 profile 以区分只对不同档案生效的同名预算）
+ */
+function getBudgetKey(rule: BudgetRule): string {
+  return `${rule.period}:${rule.amount}${rule.project ? `@${rule.project}` : ''}${rule.profile ? `#${rule.profile}` : ''}${rule.name ? `:${rule.name}` : ''}`;
+}
+
+/**
+ * 获取预算周期的起始时间
+ * @param period - 预算周期（weekly / monthly）
+ * @param now - 当前时间戳
+ * @returns 本周一或本月 1 日 00:00 的时间戳
+ */
+function getPeriodStart(period: 'weekly' | 'monthly', now: number): number {
+  const date = new Date(now);
+  date.setHours(0, 0, 0, 0);
+
+  if (period === 'monthly') {
+    date.setDate(1);
+  } else {
+    // getDay()：周日为 0，换算为距周一的天数
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+
+  return date.getTime();
+}
+
+/**
+ * 根据本地历史计算周期内的已用费用
+ * @param snapshots - 档案的历史快照（按时间升序）
+ * @param currentTotalCost - 当前累计总费用
+ * @param currentDailyCost - 当前每日费用
+ * @param periodStart - 周期起始时间戳
+ * @returns 已用费用；没有紧邻周期开始的快照时为估算值（partial = true）
+ *
+ * 计算方式：
+ * - 周期开始前一个压缩时段（1 小时）内有快照：当前总费用 - 该快照的总费用
+ * - 周期开始前的快照更早（例如周期开始时 VSCode 未运行）：该快照之后到周期开始前的费用会被算进本周期，
+ *   不使用该快照，按周期内的首条快照估算并标记为不完整
+ * - 只有周期内的快照：当前总费用 - 首条快照的总费用 + 首条快照当天已用费用（首条快照之前的天数无法统计）
+ * - 没有快照：只能统计当天费用
+ */
+export function computePeriodSpend(
+  snapshots: UsageSnapshot[],
+  currentTotalCost: number,
+  currentDailyCost: number,
+  periodStart: number
+): { spent: number; partial: boolean } {
+  let baseline: UsageSnapshot | undefined;
+  let firstInPeriod: UsageSnapshot | undefined;
+  for (const snapshot of snapshots) {
+    if (snapshot.timestamp < periodStart) {
+      baseline = snapshot;
+    } else {
+      firstInPeriod = snapshot;
+      break;
+    }
+  }
+
+  const staleBaseline = !!baseline && periodStart - baseline.timestamp > HistoryStore.COMPACT_INTERVAL;
+  if (baseline && !staleBaseline) {
+    return { spent: Math.max(0, currentTotalCost - baseline.currentTotalCost), partial: false };
+  }
+
+  if (firstInPeriod) {
+    const spent = currentTotalCost - firstInPeriod.currentTotalCost + firstInPeriod.currentDailyCost;
+    // 首条快照在周期第一天时数据完整；周期开始前的快照过旧时无法确认，一律视为不完整
+    const partial = staleBaseline || firstInPeriod.timestamp - periodStart >= 24 * 60 * 60 * 1000;
+    return { spent: Math.max(0, spent), partial };
+  }
+
+  return { spent: currentDailyCost, partial: true };
+}
+
+/**
+ * 计算归属到项目的周期内费用（项目费用记录了按日费用，无需历史快照）
+ * @param project - 项目（工作区文件夹）的绝对路径或名称
+ * @param period - 预算周期
+ * @param now - 当前时间戳
+ * @returns 已用费用，项目不存在或名称不唯一时返回 0
+ */
+function computeProjectSpend(project: string, period: BudgetPeriod, now: number): number {
+  const entry = ProjectAttribution.getProjectCost(project);
+  if (!entry) {
+    return 0;
+  }
+
+  if (period === 'total') {
+    return entry.cost;
+  }
+
+  const startKey = ProjectAttribution.getDayKey(period === 'daily' ? now : getPeriodStart(period, now));
+  return Object.entries(entry.days)
+    .filter(([day]) => day >= startKey)
+    .reduce((sum, [, cost]) => sum + cost, 0);
+}
@@ -0,0 +1,179 @@
+/**
+ * 文件说明：错误通知节流
+ * 作用：记录各档案的连续失败状态，按错误类型的通知策略决定是否弹出通知，并在恢复时发送恢复提示
+ */
+
+import * as vscode from 'vscode';
+import { LastErrorInfo, RelayErrorKind } from '../interfaces/types';
+import { formatClockTime } from '../utils/formatter';
+import { log } from '../utils/logger';
+import { classifyError, ERROR_KIND_LABELS } from './apiErrors';
+
+/**
+ * 错误通知策略
+ * - always：每次失败都通知
+ * - once：连续失败期间只通知一次，之后仅在状态栏显示
+ * - never：从不通知
+ */
+export type ErrorNotificationPolicy = 'always' | 'once' | 'never';
+
+/**
+ * 默认通知策略：连续失败期间每类错误只通知一次
+ */
+const DEFAULT_POLICIES: Record<RelayErrorKind, ErrorNotificationPolicy> = {
+  network: 'once',
+  timeout: 'once',
+  auth: 'once',
+  client: 'once',
+  server: 'once',
+  invalidPayload: 'once',
+  unknown: 'once',
+};
+
+/**
+ * 单个档案的失败状态
+ */
+interface FailureState {
+  lastError: LastErrorInfo;
+  notifiedKinds: Set<RelayErrorKind>;
+}
+
+/**
+ * 各档案的失败状态
+ */
+const failureStates = new Map<string, FailureState>();
+
+/**
+ * 记录一次失败，并按通知策略决定是否通知
+ * @param profileName - 档案名称
+ * @param error - 原始错误
+ * @param label - 通知中显示的档案标签（可选，多档案时提供）
+ * @param hasFallbackData - 是否有可回退显示的最近一次成功数据
+ * @returns 最近一次错误信息
+ */
+export function reportFailure(
+  profileName: string,
+  error: unknown,
+  label?: string,
+  hasFallbackData = false
+): LastErrorInfo {
+  const relayError = classifyError(error, '刷新失败');
+  const now = Date.now();
+  const previous = failureStates.get(profileName);
+
+  const lastError: LastErrorInfo = {
+    kind: relayError.kind,
+    message: relayError.message,
+    occurredAt: now,
+    failingSince: previous ? previous.lastError.failingSince : now,
+    failureCount: previous ? previous.lastError.failureCount + 1 : 1,
+  };
+  const state: FailureState = {
+    lastError,
+    notifiedKinds: previous ? previous.notifiedKinds : new Set(),
+  };
+  failureStates.set(profileName, state);
+
+  const policy = getNotificationPolicy(relayError.kind);
+  const shouldNotify = policy === 'always' || (policy === 'once' && !state.notifiedKinds.has(relayError.kind));
+
+  log(
+    `[错误通知] 档案 ${profileName} 第 ${lastError.failureCount} 次失败（${relayError.kind}），策略：${policy}${shouldNotify ? '' : '，不通知'}`
+  );
+
+  if (shouldNotify) {
+    state.notifiedKinds.add(relayError.kind);
+    showFailureNotification(profileName, lastError, label, hasFallbackData);
+  }
+
+  return lastError;
+}
+
+/**
+ * 记录一次成功，如果之前的失败已通知过用户则发送恢复提示
+ * @param profileName - 档案名称
+ * @param label - 通知中显示的档案标签（可选）
+ */
+export function reportSuccess(profileName: string, label?: string): void {
+  const state = failureStates.get(profileName);
+  if (!state) {
+    return;
+  }
+
+  failureStates.delete(profileName);
+  log(`[错误通知] 档案 ${profileName} 已恢复，连续失败 ${state.lastError.failureCount} 次`);
+
+  if (state.notifiedKinds.size > 0) {
+    const prefix = 'Claude Relay Meter: ' + (label ? `[${label}] ` : '');
+    vscode.window.showInformationMessage(
+      `${prefix}连接已恢复（自 ${formatClockTime(state.lastError.failingSince, Date.now())} 起失败 ${state.lastError.failureCount} 次）`
+    );
+  }
+}
+
+/**
+ * 获取档案最近一次错误信息
+ * @param profileName - 档案名称
+ * @returns 错误信息；当前未处于失败状态时返回 undefined
+ */
+export function getLastError(profileName: string): LastErrorInfo | undefined {
+  return failureStates.get(profileName)?.lastError;
+}
+
+/**
+ * 只保留仍存在的档案的失败状态
+ * @param profileNames - 当前档案名称列表
+ */
+export function retainErrorStates(profileNames: string[]): void {
+  for (const name of Array.from(failureStates.keys())) {
+    if (!profileNames.includes(name)) {
+      failureStates.delete(name);
+    }
+  }
+}
+
+/**
+ * 获取错误类型的通知策略
+ * @param kind - 错误类型
+ * @returns 通知策略
+ */
+function getNotificationPolicy(kind: RelayErrorKind): ErrorNotificationPolicy {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const policies = config.get<Partial<Record<RelayErrorKind, ErrorNotificationPolicy>>>('errorNotifications', {}) || {};
+  const policy = policies[kind];
+
+  return policy === 'always' || policy === 'once' || policy === 'never' ? policy : DEFAULT_POLICIES[kind];
+}
+
+/**
+ * 显示失败通知
+ * @param profileName - 档案名称
+ * @param lastError - 最近一次错误信息
+ * @param label - 档案标签（可选）
+ * @param hasFallbackData - 是否正在显示历史数据
+ */
+async function showFailureNotification(
+  profileName: string,
+  lastError: LastErrorInfo,
+  label: string | undefined,
+  hasFallbackData: boolean
+): Promise<void> {
+  const prefix = 'Claude Relay Meter: ' + (label ? `[${label}] ` : '');
+  const suffix = hasFallbackData ? '（状态栏显示最近一次成功获取的数据）' : '';
+  const message = `${prefix}${ERROR_KIND_LABELS[lastError.kind]} - ${lastError.message}${suffix}`;
+
+  const retryButton = '重试';
+  const settingsButton = '打开设置';
+
+  // 认证和请求错误需要用户修改配置，其余错误提示重试
+  const needsConfig = lastError.kind === 'auth' || lastError.kind === 'client';
+  const choice = needsConfig
+    ? await vscode.window.showErrorMessage(message, settingsButton, retryButton)
+    : await vscode.window.showWarningMessage(message, retryButton, settingsButton);
+
+  if (choice === retryButton) {
+    vscode.commands.executeCommand('claude-relay-meter.refreshStats', profileName);
+  } else if (choice === settingsButton) {
+    vscode.commands.executeCommand('claude-relay-meter.openSettings');
+  }
+}
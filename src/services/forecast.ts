@@ -0,0 +1,205 @@
+/**
+ * 文件说明：消耗速度预测
+ * 作用：根据本地历史快照计算费用消耗速度，预测每日 / 窗口 / Opus 周限额的用尽时间
+ */
+
+import * as vscode from 'vscode';
+import { LimitsData, LimitForecast, LimitKind, UsageSnapshot } from '../interfaces/types';
+import * as HistoryStore from './historyStore';
+
+/**
+ * 计算速度所需的最短采样跨度(毫秒)
+ */
+const MIN_SAMPLE_SPAN = 60 * 1000;
+
+/**
+ * 各限额类型的显示名称
+ */
+const LIMIT_LABELS: Record<LimitKind, string> = {
+  daily: '每日限制',
+  window: '窗口限制',
+  opus: 'Opus周限制',
+};
+
+/**
+ * 获取档案的限额消耗预测
+ * @param profileName - 档案名称
+ * @param limits - 最新的限制数据
+ * @returns 预测结果列表（只包含已设置限额的项目）
+ */
+export function getProfileForecasts(profileName: string, limits: LimitsData): LimitForecast[] {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const windowMinutes = Math.max(config.get<number>('forecastWindowMinutes', 30), 5);
+  const resetUtcOffset = config.get<number | null>('dailyResetUtcOffset', null);
+
+  const snapshots = HistoryStore.querySnapshots({
+    profileName,
+    since: Date.now() - windowMinutes * 60 * 1000,
+  });
+
+  return computeForecasts(snapshots, limits, Date.now(), typeof resetUtcOffset === 'number' ? resetUtcOffset : undefined);
+}
+
+/**
+ * 根据快照序列计算限额消耗预测
+ * @param snapshots - 按时间升序排列的快照
+ * @param limits - 最新的限制数据
+ * @param now - 当前时间戳（默认为 Date.now()）
+ * @param resetUtcOffset - 每日限额重置时区的 UTC 偏移（小时），未指定时按本机时区的午夜重置
+ * @returns 预测结果列表
+ */
+export function computeForecasts(
+  snapshots: UsageSnapshot[],
+  limits: LimitsData,
+  now: number = Date.now(),
+  resetUtcOffset?: number
+): LimitForecast[] {
+  const forecasts: LimitForecast[] = [];
+
+  if (limits.dailyCostLimit > 0) {
+    forecasts.push(
+      buildForecast('daily', snapshots, limits.currentDailyCost, limits.dailyCostLimit, getNextMidnight(now, resetUtcOffset), now)
+    );
+  }
+
+  if (limits.rateLimitCost > 0) {
+    const windowEnd = limits.windowEndTime ? new Date(limits.windowEndTime).getTime() : NaN;
+    forecasts.push(
+      buildForecast(
+        'window',
+        snapshots,
+        limits.currentWindowCost,
+        limits.rateLimitCost,
+        isNaN(windowEnd) ? null : windowEnd,
+        now
+      )
+    );
+  }
+
+  if (limits.weeklyOpusCostLimit > 0) {
+    forecasts.push(buildForecast('opus', snapshots, limits.weeklyOpusCost, limits.weeklyOpusCostLimit, null, now));
+  }
+
+  return forecasts;
+}
+
+/**
+ * 获取最早用尽的预测项
+ * @param forecasts - 预测结果列表
+ * @returns 重置前会用尽且用尽时间最早的预测项，不存在时返回 undefined
+ */
+export function getEarliestExhaustion(forecasts: LimitForecast[]): LimitForecast | undefined {
+  return forecasts
+    .filter((forecast) => forecast.willExhaust && forecast.exhaustAt !== null)
+    .sort((a, b) => (a.exhaustAt as number) - (b.exhaustAt as number))[0];
+}
+
+/**
+ * 构建单项预测
+ * @param kind - 限额类型
+ * @param snapshots - 快照序列
+ * @param used - 当前已使用金额
+ * @param limit - 限额
+ * @param resetAt - 限额重置时间（未知时为 null）
+ * @param now - 当前时间戳
+ * @returns 预测结果
+ */
+function buildForecast(
+  kind: LimitKind,
+  snapshots: UsageSnapshot[],
+  used: number,
+  limit: number,
+  resetAt: number | null,
+  now: number
+): LimitForecast {
+  const ratePerHour = calculateRatePerHour(snapshots.map((snapshot) => ({
+    timestamp: snapshot.timestamp,
+    value: getSnapshotValue(kind, snapshot),
+  })));
+
+  let exhaustAt: number | null = null;
+  if (used >= limit) {
+    // 已经用尽
+    exhaustAt = now;
+  } else if (ratePerHour > 0) {
+    exhaustAt = now + ((limit - used) / ratePerHour) * 60 * 60 * 1000;
+  }
+
+  return {
+    kind,
+    label: LIMIT_LABELS[kind],
+    used,
+    limit,
+    ratePerHour,
+    exhaustAt,
+    resetAt,
+    willExhaust: exhaustAt !== null && (resetAt === null || exhaustAt < resetAt),
+  };
+}
+
+/**
+ * 计算每小时消耗速度
+ * @param points - 按时间升序排列的采样点
+ * @returns 每小时消耗金额；采样不足或检测不到增长时返回 0
+ *
+ * 说明：如果序列中出现数值下降（限额已重置），只使用最后一次重置之后的采样
+ */
+function calculateRatePerHour(points: { timestamp: number; value: number }[]): number {
+  let startIndex = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (points[i].value < points[i - 1].value) {
+      startIndex = i;
+    }
+  }
+
+  const segment = points.slice(startIndex);
+  if (segment.length < 2) {
+    return 0;
+  }
+
+  const first = segment[0];
+  const last = segment[segment.length - 1];
+  const span = last.timestamp - first.timestamp;
+
+  if (span < MIN_SAMPLE_SPAN || last.value <= first.value) {
+    return 0;
+  }
+
+  return (last.value - first.value) / (span / (60 * 60 * 1000));
+}
+
+/**
+ * 获取快照中对应限额类型的数值
+ * @param kind - 限额类型
+ * @param snapshot - 快照
+ * @returns 已使用金额
+ */
+function getSnapshotValue(kind: LimitKind, snapshot: UsageSnapshot): number {
+  switch (kind) {
+    case 'daily':
+      return snapshot.currentDailyCost;
+    case 'window':
+      return snapshot.currentWindowCost;
+    case 'opus':
+      return snapshot.weeklyOpusCost;
+  }
+}
+
+/**
+ * 获取下一个午夜的时间戳（每日限额重置时间）
+ * @param now - 当前时间戳
+ * @param utcOffset - 重置时区的 UTC 偏移（小时），未指定时使用本机时区
+ * @returns 下一个午夜的时间戳
+ */
+function getNextMidnight(now: number, utcOffset?: number): number {
+  if (utcOffset === undefined) {
+    const date = new Date(now);
+    date.setHours(24, 0, 0, 0);
+    return date.getTime();
+  }
+
+  // 平移到重置时区后按 UTC 取下一个午夜，再平移回来
+  const offsetMs = utcOffset * 60 * 60 * 1000;
+  const shifted = new Date(now + offsetMs);
+  return Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate() + 1) - offsetMs;
+}
@@ -0,0 +1,351 @@
+/**
+ * 文件说明：本地用量历史存储
+ * 作用：将每次获取的用量数据保存为时间序列快照，支持保留期限、压缩和查询
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { RelayApiResponse, UsageSnapshot, SnapshotQuery } from '../interfaces/types';
+import { log, logError } from '../utils/logger';
+
+/**
+ * 历史文件名
+ */
+const HISTORY_FILE_NAME = 'usage-history.json';
+
+/**
+ * 历史文件格式版本
+ */
+const HISTORY_FILE_VERSION = 1;
+
+/**
+ * 保存防抖延迟(毫秒)
+ */
+const SAVE_DEBOUNCE_DELAY = 5000;
+
+/**
+ * 压缩检查间隔(毫秒)，也是压缩后每条快照代表的时间段长度
+ */
+export const COMPACT_INTERVAL = 60 * 60 * 1000;
+
+/**
+ * 历史文件内容
+ */
+interface HistoryFile {
+  version: number;
+  snapshots: UsageSnapshot[];
+}
+
+/**
+ * 历史文件完整路径
+ */
+let historyFilePath: string | undefined;
+
+/**
+ * 内存中的快照列表（按时间升序）
+ */
+let snapshots: UsageSnapshot[] = [];
+
+/**
+ * 保存防抖定时器
+ */
+let saveTimer: NodeJS.Timeout | undefined;
+
+/**
+ * 上次压缩时间
+ */
+let lastCompactTime = 0;
+
+/**
+ * 是否禁止写入历史文件（无法读取的历史文件备份失败时，本次会话不再写入，避免覆盖原文件）
+ */
+let saveDisabled = false;
+
+/**
+ * 初始化历史存储
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeHistoryStore(context: vscode.ExtensionContext): void {
+  try {
+    const storageDir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(storageDir, { recursive: true });
+    historyFilePath = path.join(storageDir, HISTORY_FILE_NAME);
+
+    const loaded = loadSnapshots(historyFilePath);
+    if (!loaded) {
+      backupUnreadableFile(historyFilePath);
+    }
+    snapshots = loaded || [];
+    compactSnapshots();
+
+    log(`[历史记录] 历史存储已初始化，共 ${snapshots.length} 条快照：${historyFilePath}`);
+  } catch (error) {
+    logError('[历史记录] 初始化历史存储失败', error as Error);
+    snapshots = [];
+  }
+}
+
+/**
+ * 记录一次用量快照
+ * @param profileName - 档案名称
+ * @param data - API 响应数据
+ */
+export function recordSnapshot(profileName: string, data: RelayApiResponse): void {
+  if (!isHistoryEnabled() || !historyFilePath) {
+    return;
+  }
+
+  const snapshot = createSnapshot(profileName, data);
+  snapshots.push(snapshot);
+
+  // 每小时最多压缩一次
+  if (snapshot.timestamp - lastCompactTime >= COMPACT_INTERVAL) {
+    compactSnapshots();
+  }
+
+  scheduleSave();
+  log(`[历史记录] 已记录快照（档案：${profileName}），当前共 ${snapshots.length} 条`);
+}
+
+/**
+ * 查询历史快照
+ * @param query - 查询条件（可选）
+ * @returns 符合条件的快照列表（按时间升序）
+ */
+export function querySnapshots(query: SnapshotQuery = {}): UsageSnapshot[] {
+  const result = snapshots.filter(
+    (snapshot) =>
+      (!query.profileName || snapshot.profileName === query.profileName) &&
+      (query.since === undefined || snapshot.timestamp >= query.since) &&
+      (query.until === undefined || snapshot.timestamp <= query.until)
+  );
+
+  // limit 表示只返回最近的 N 条
+  if (query.limit !== undefined && result.length > query.limit) {
+    return result.slice(result.length - query.limit);
+  }
+
+  return result;
+}
+
+/**
+ * 获取某个档案的最新快照
+ * @param profileName - 档案名称
+ * @returns 最新快照，不存在时返回 undefined
+ */
+export function getLatestSnapshot(profileName: string): UsageSnapshot | undefined {
+  for (let i = snapshots.length - 1; i >= 0; i--) {
+    if (snapshots[i].profileName === profileName) {
+      return snapshots[i];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 清空历史记录
+ * @param profileName - 档案名称（可选，未提供时清空所有档案）
+ */
+export function clearHistory(profileName?: string): void {
+  snapshots = profileName ? snapshots.filter((snapshot) => snapshot.profileName !== profileName) : [];
+  saveSnapshots();
+  log(`[历史记录] 已清空历史记录${profileName ? `（档案：${profileName}）` : ''}`);
+}
+
+/**
+ * 立即将待保存的快照写入磁盘（插件停用时调用）
+ */
+export function flushHistory(): void {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = undefined;
+    saveSnapshots();
+  }
+}
+
+/**
+ * 从磁盘重新读取历史记录（其他窗口写入历史文件后调用）
+ */
+export function reloadHistory(): void {
+  // 本窗口有待保存的快照时不覆盖内存数据
+  if (!historyFilePath || saveTimer) {
+    return;
+  }
+
+  // 读取失败（例如文件版本不兼容）时保留内存中的快照，避免下次保存时把空列表写回磁盘
+  const loaded = loadSnapshots(historyFilePath);
+  if (!loaded) {
+    log('[历史记录] 重新读取历史文件失败，保留当前内存中的快照', true);
+    return;
+  }
+
+  snapshots = loaded;
+  log(`[历史记录] 已重新读取历史文件，共 ${snapshots.length} 条快照`);
+}
+
+/**
+ * 检查历史记录是否启用
+ * @returns 如果启用返回 true
+ */
+export function isHistoryEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return config.get<boolean>('enableHistory', true);
+}
+
+/**
+ * 由 API 响应创建快照
+ * @param profileName - 档案名称
+ * @param data - API 响应数据
+ * @returns 快照对象
+ */
+function createSnapshot(profileName: string, data: RelayApiResponse): UsageSnapshot {
+  const limits = data.data.limits;
+  const total = data.data.usage.total;
+
+  return {
+    timestamp: Date.now(),
+    profileName,
+    apiId: data.data.id,
+    currentDailyCost: limits.currentDailyCost,
+    currentWindowCost: limits.currentWindowCost,
+    weeklyOpusCost: limits.weeklyOpusCost,
+    currentTotalCost: limits.currentTotalCost,
+    total: {
+      requests: total.requests,
+      inputTokens: total.inputTokens,
+      outputTokens: total.outputTokens,
+      cacheCreateTokens: total.cacheCreateTokens,
+      cacheReadTokens: total.cacheReadTokens,
+      allTokens: total.allTokens,
+      cost: total.cost,
+    },
+    models: (data.data.usage.models || []).map((model) => ({
+      modelName: model.modelName,
+      requests: model.requests,
+      allTokens: model.totalTokens,
+      cost: model.cost,
+    })),
+  };
+}
+
+/**
+ * 压缩历史快照
+ *
+ * 规则：
+ * - 超过保留天数（relayMeter.historyRetentionDays）的快照直接删除
+ * - 超过压缩时限（relayMeter.historyCompactAfterHours）的快照，每个档案每小时只保留最后一条
+ */
+function compactSnapshots(): void {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const retentionDays = Math.max(config.get<number>('historyRetentionDays', 30), 1);
+  const compactAfterHours = Math.max(config.get<number>('historyCompactAfterHours', 24), 1);
+
+  const now = Date.now();
+  const retentionCutoff = now - retentionDays * 24 * 60 * 60 * 1000;
+  const compactCutoff = now - compactAfterHours * 60 * 60 * 1000;
+  const before = snapshots.length;
+
+  // 记录每个档案每小时的最后一条快照
+  const lastInBucket = new Map<string, number>();
+  snapshots.forEach((snapshot, index) => {
+    if (snapshot.timestamp < compactCutoff) {
+      const bucket = `${snapshot.profileName}:${Math.floor(snapshot.timestamp / COMPACT_INTERVAL)}`;
+      lastInBucket.set(bucket, index);
+    }
+  });
+
+  snapshots = snapshots.filter((snapshot, index) => {
+    if (snapshot.timestamp < retentionCutoff) {
+      return false;
+    }
+    if (snapshot.timestamp < compactCutoff) {
+      const bucket = `${snapshot.profileName}:${Math.floor(snapshot.timestamp / COMPACT_INTERVAL)}`;
+      return lastInBucket.get(bucket) === index;
+    }
+    return true;
+  });
+
+  lastCompactTime = now;
+
+  if (snapshots.length !== before) {
+    log(`[历史记录] 压缩完成：${before} -> ${snapshots.length} 条快照`);
+    scheduleSave();
+  }
+}
+
+/**
+ * 从磁盘读取快照
+ * @param filePath - 历史文件路径
+ * @returns 快照列表（文件不存在时为空数组），解析失败或版本不兼容时返回 undefined
+ */
+function loadSnapshots(filePath: string): UsageSnapshot[] | undefined {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const content: HistoryFile = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    if (content.version !== HISTORY_FILE_VERSION || !Array.isArray(content.snapshots)) {
+      log(`[历史记录] 历史文件版本不兼容（${content.version}），已忽略`, true);
+      return undefined;
+    }
+    return content.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    logError('[历史记录] 读取历史文件失败', error as Error);
+    return undefined;
+  }
+}
+
+/**
+ * 备份无法读取的历史文件（损坏或由更新版本的插件写入），之后从空历史开始记录
+ * @param filePath - 历史文件路径
+ *
+ * 备份失败时禁止本次会话写入，保证原文件不会被空历史覆盖
+ */
+function backupUnreadableFile(filePath: string): void {
+  const backupPath = `${filePath}.${Date.now()}.bak`;
+  try {
+    fs.copyFileSync(filePath, backupPath);
+    log(`[历史记录] 历史文件无法读取，已备份到 ${backupPath}，将重新开始记录`, true);
+  } catch (error) {
+    saveDisabled = true;
+    logError('[历史记录] 备份无法读取的历史文件失败，本次会话不再写入历史文件', error as Error);
+  }
+}
+
+/**
+ * 延迟保存快照（防抖）
+ */
+function scheduleSave(): void {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+  }
+
+  saveTimer = setTimeout(() => {
+    saveTimer = undefined;
+    saveSnapshots();
+  }, SAVE_DEBOUNCE_DELAY);
+}
+
+/**
+ * 将快照写入磁盘
+ */
+function saveSnapshots(): void {
+  if (!historyFilePath || saveDisabled) {
+    return;
+  }
+
+  try {
+    const content: HistoryFile = {
+      version: HISTORY_FILE_VERSION,
+      snapshots,
+    };
+    // 先写临时文件再重命名，避免其他窗口读到写了一半的文件
+    const tempPath = `${historyFilePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(content), 'utf8');
+    fs.renameSync(tempPath, historyFilePath);
+  } catch (error) {
+    logError('[历史记录] 保存历史文件失败', error as Error);
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * 文件说明：共享 HTTP 客户端
+ * 作用：按插件设置和 VSCode 的 http.proxy / http.proxyStrictSSL / http.noProxy 创建统一的 axios 实例，
+ *       负责代理、自定义 CA、客户端证书、超时和附加请求头，所有对中继服务的请求都通过它发送
+ */
+
+import axios, { AxiosInstance, AxiosProxyConfig } from 'axios';
+import * as fs from 'fs';
+import * as https from 'https';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { HttpsProxyAgent } from 'https-proxy-agent';
+import * as vscode from 'vscode';
+import { log } from '../utils/logger';
+import { ClientError } from './apiErrors';
+
+/**
+ * 影响 HTTP 客户端的设置项（变更后需要重建客户端）
+ */
+const HTTP_SETTINGS = [
+  'relayMeter.proxy',
+  'relayMeter.caCertificatePath',
+  'relayMeter.clientCertificatePath',
+  'relayMeter.clientKeyPath',
+  'relayMeter.requestTimeout',
+  'relayMeter.extraHeaders',
+  'http.proxy',
+  'http.proxyStrictSSL',
+  'http.noProxy',
+];
+
+/**
+ * 默认请求超时（秒）
+ */
+const DEFAULT_TIMEOUT_SECONDS = 10;
+
+/**
+ * 当前的 HTTP 客户端（设置变更后重建）
+ */
+let client: AxiosInstance | undefined;
+
+/**
+ * 当前客户端使用的连接代理（重建客户端时释放保持的连接）
+ */
+let agents: https.Agent[] = [];
+
+/**
+ * 当前客户端的请求超时（毫秒）
+ */
+let clientTimeoutMs = DEFAULT_TIMEOUT_SECONDS * 1000;
+
+/**
+ * 获取共享 HTTP 客户端
+ * @returns axios 实例
+ * @throws {ClientError} 证书文件无法读取或代理地址无效时抛出（不可重试）
+ */
+export function getHttpClient(): AxiosInstance {
+  if (!client) {
+    client = createHttpClient();
+  }
+  return client;
+}
+
+/**
+ * 丢弃当前 HTTP 客户端，下次请求时按最新设置重建
+ */
+export function resetHttpClient(): void {
+  client = undefined;
+
+  // 旧客户端的 keep-alive 连接不会再被复用，等进行中的请求超时后释放，避免连接泄漏
+  const oldAgents = agents;
+  agents = [];
+  if (oldAgents.length > 0) {
+    setTimeout(() => oldAgents.forEach((agent) => agent.destroy()), clientTimeoutMs).unref();
+  }
+
+  log('[HTTP] 网络设置已变更，将重建 HTTP 客户端');
+}
+
+/**
+ * 判断配置变更是否影响 HTTP 客户端
+ * @param event - 配置变更事件
+ * @returns 影响时返回 true
+ */
+export function affectsHttpClient(event: vscode.ConfigurationChangeEvent): boolean {
+  return HTTP_SETTINGS.some((section) => event.affectsConfiguration(section));
+}
+
+/**
+ * 按当前设置创建 HTTP 客户端
+ * @returns axios 实例
+ * @throws {ClientError} 证书文件无法读取或代理地址无效时抛出
+ *
+ * 代理地址优先级：relayMeter.proxy > http.proxy > 环境变量 HTTPS_PROXY / HTTP_PROXY；
+ * http.noProxy 和环境变量 NO_PROXY 中的主机不走代理。
+ * http.proxyStrictSSL 只作用于经过代理的请求，直连请求始终校验证书（自签名证书请配置 relayMeter.caCertificatePath）
+ */
+function createHttpClient(): AxiosInstance {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const httpConfig = vscode.workspace.getConfiguration('http');
+
+  const timeoutSeconds = config.get<number>('requestTimeout', DEFAULT_TIMEOUT_SECONDS);
+  const extraHeaders = config.get<Record<string, string>>('extraHeaders', {}) || {};
+  const strictSSL = httpConfig.get<boolean>('proxyStrictSSL', true);
+
+  const tlsOptions: https.AgentOptions = { keepAlive: true, rejectUnauthorized: true };
+  const caPath = config.get<string>('caCertificatePath', '').trim();
+  if (caPath) {
+    // 追加到系统默认根证书之后，公网证书仍然有效
+    tlsOptions.ca = [...tls.rootCertificates, readCertificateFile(caPath, 'CA 证书')];
+  }
+  const certPath = config.get<string>('clientCertificatePath', '').trim();
+  const keyPath = config.get<string>('clientKeyPath', '').trim();
+  if (certPath) {
+    tlsOptions.cert = readCertificateFile(certPath, '客户端证书');
+    tlsOptions.key = readCertificateFile(keyPath || certPath, '客户端私钥');
+  }
+
+  const proxyUrl = getProxyUrl(config.get<string>('proxy', ''), httpConfig.get<string>('proxy', ''));
+  const noProxy = getNoProxyList(httpConfig.get<string[]>('noProxy', []));
+  const directAgent = new https.Agent(tlsOptions);
+  const proxyAgent = proxyUrl ? new HttpsProxyAgent(proxyUrl, { ...tlsOptions, rejectUnauthorized: strictSSL }) : undefined;
+  const httpProxy = proxyUrl ? toAxiosProxy(proxyUrl) : undefined;
+  agents = proxyAgent ? [directAgent, proxyAgent] : [directAgent];
+  clientTimeoutMs = Math.max(timeoutSeconds, 1) * 1000;
+
+  const instance = axios.create({
+    timeout: Math.max(timeoutSeconds, 1) * 1000,
+    headers: extraHeaders,
+    httpsAgent: directAgent,
+    // 代理由下方拦截器按请求地址选择，禁用 axios 自带的环境变量代理
+    proxy: false,
+  });
+
+  if (proxyAgent) {
+    instance.interceptors.request.use((request) => {
+      const target = new URL(request.url || '', request.baseURL);
+      if (shouldBypassProxy(target.hostname, noProxy)) {
+        return request;
+      }
+      if (target.protocol === 'https:') {
+        request.httpsAgent = proxyAgent;
+      } else {
+        request.proxy = httpProxy;
+      }
+      return request;
+    });
+  }
+
+  log(
+    `[HTTP] HTTP 客户端已创建：代理 ${proxyUrl ? maskProxyUrl(proxyUrl) : '无'}，超时 ${timeoutSeconds} 秒，` +
+      `${proxyUrl ? `代理请求证书校验 ${strictSSL ? '开启' : '关闭'}` : '证书校验开启'}${caPath ? '，自定义 CA' : ''}${certPath ? '，客户端证书' : ''}` +
+      `${Object.keys(extraHeaders).length > 0 ? `，附加请求头 ${Object.keys(extraHeaders).join(', ')}` : ''}`
+  );
+  return instance;
+}
+
+/**
+ * 获取代理地址
+ * @param meterProxy - relayMeter.proxy
+ * @param vscodeProxy - http.proxy
+ * @returns 代理地址，未配置时返回 undefined
+ * @throws {ClientError} 代理地址格式无效时抛出
+ */
+function getProxyUrl(meterProxy: string, vscodeProxy: string): string | undefined {
+  const proxy =
+    meterProxy.trim() ||
+    vscodeProxy.trim() ||
+    process.env.HTTPS_PROXY ||
+    process.env.https_proxy ||
+    process.env.HTTP_PROXY ||
+    process.env.http_proxy ||
+    '';
+
+  if (!proxy) {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(proxy);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`不支持的代理协议 ${url.protocol}`);
+    }
+    return proxy;
+  } catch (error) {
+    throw new ClientError(`代理地址无效：${(error as Error).message}`);
+  }
+}
+
+/**
+ * 获取不走代理的主机列表
+ * @param vscodeNoProxy - http.noProxy
+ * @returns 主机列表（小写）
+ */
+function getNoProxyList(vscodeNoProxy: string[]): string[] {
+  const fromEnv = (process.env.NO_PROXY || process.env.no_proxy || '').split(',');
+  return [...(vscodeNoProxy || []), ...fromEnv].map((host) => host.trim().toLowerCase()).filter((host) => host !== '');
+}
+
+/**
+ * 判断主机是否不走代理
+ * @param hostname - 目标主机
+ * @param noProxy - 不走代理的主机列表（支持 * 和域名后缀，例如 .example.com）
+ * @returns 不走代理返回 true
+ */
+function shouldBypassProxy(hostname: string, noProxy: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return noProxy.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+    const suffix = entry.replace(/^\*?\./, '');
+    return host === suffix || host.endsWith(`.${suffix}`);
+  });
+}
+
+/**
+ * 将代理地址转换为 axios 代理配置（用于 http 目标地址）
+ * @param proxyUrl - 代理地址
+ * @returns axios 代理配置
+ */
+function toAxiosProxy(proxyUrl: string): AxiosProxyConfig {
+  const url = new URL(proxyUrl);
+  return {
+    protocol: url.protocol.replace(':', ''),
+    host: url.hostname,
+    port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+    auth: url.username ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) } : undefined,
+  };
+}
+
+/**
+ * 读取证书文件
+ * @param filePath - 文件路径（支持 ~ 开头）
+ * @param description - 文件说明（用于错误消息）
+ * @returns 文件内容
+ * @throws {ClientError} 文件无法读取时抛出
+ */
+function readCertificateFile(filePath: string, description: string): Buffer {
+  const resolved = filePath.startsWith('~') ? path.join(os.homedir(), filePath.slice(1)) : filePath;
+  try {
+    return fs.readFileSync(resolved);
+  } catch (error) {
+    throw new ClientError(`无法读取${description}文件 ${resolved}：${(error as Error).message}`);
+  }
+}
+
+/**
+ * 隐藏代理地址中的密码
+ * @param proxyUrl - 代理地址
+ * @returns 用于日志的代理地址
+ */
+function maskProxyUrl(proxyUrl: string): string {
+  const url = new URL(proxyUrl);
+  if (url.password) {
+    url.password = '***';
+  }
+  return url.toString();
+}
@@ -0,0 +1,191 @@
+/**
+ * 文件说明：自适应轮询调度
+ * 作用：根据连续失败次数、限额使用情况、窗口重置时间和空闲状态计算下一次刷新的延迟
+ */
+
+import * as vscode from 'vscode';
+import { RelayApiResponse } from '../interfaces/types';
+
+/**
+ * 连续多少次用量无变化后视为空闲
+ */
+const IDLE_POLLS_BEFORE_SLOWDOWN = 3;
+
+/**
+ * 退避延迟的随机抖动比例（±20%），避免多个窗口同时重试
+ */
+const JITTER_RATIO = 0.2;
+
+/**
+ * 最小刷新间隔（秒）
+ */
+const MIN_INTERVAL_SECONDS = 10;
+
+/**
+ * 单个档案的轮询状态
+ */
+export interface PollState {
+  consecutiveFailures: number;
+  idlePolls: number;
+  lastRequests?: number;
+  lastCost?: number;
+}
+
+/**
+ * 下一次刷新的延迟及原因（原因用于日志）
+ */
+export interface PollDelay {
+  delayMs: number;
+  reason: string;
+}
+
+/**
+ * 自适应轮询配置
+ */
+interface AdaptivePollingConfig {
+  enabled: boolean;
+  fastPollThreshold: number;
+  fastPollInterval: number;
+  windowResetLeadSeconds: number;
+  maxPollInterval: number;
+}
+
+/**
+ * 创建初始轮询状态
+ * @returns 轮询状态
+ */
+export function createPollState(): PollState {
+  return { consecutiveFailures: 0, idlePolls: 0 };
+}
+
+/**
+ * 记录一次成功的刷新，并根据用量是否变化更新空闲计数
+ * @param state - 轮询状态
+ * @param data - API 响应数据
+ */
+export function recordPollSuccess(state: PollState, data: RelayApiResponse): void {
+  const total = data.data.usage.total;
+  const unchanged = state.lastRequests === total.requests && state.lastCost === total.cost;
+
+  state.consecutiveFailures = 0;
+  state.idlePolls = unchanged ? state.idlePolls + 1 : 0;
+  state.lastRequests = total.requests;
+  state.lastCost = total.cost;
+}
+
+/**
+ * 记录一次失败的刷新
+ * @param state - 轮询状态
+ */
+export function recordPollFailure(state: PollState): void {
+  state.consecutiveFailures++;
+}
+
+/**
+ * 计算下一次刷新的延迟
+ * @param state - 轮询状态
+ * @param baseIntervalSeconds - 档案配置的刷新间隔（秒）
+ * @param data - 最近一次成功获取的数据（可选）
+ * @returns 延迟及原因
+ *
+ * 优先级：
+ * 1. 连续失败：按 2^n 指数退避并加随机抖动，不超过最大间隔
+ * 2. 窗口即将重置：在重置后立即刷新
+ * 3. 用量接近限额：使用快速刷新间隔
+ * 4. 用量长时间无变化：逐步放慢，不超过最大间隔
+ */
+export function getNextPollDelay(state: PollState, baseIntervalSeconds: number, data?: RelayApiResponse): PollDelay {
+  const config = getAdaptivePollingConfig();
+  const baseMs = baseIntervalSeconds * 1000;
+
+  if (!config.enabled) {
+    return { delayMs: baseMs, reason: '固定间隔' };
+  }
+
+  const maxMs = Math.max(config.maxPollInterval * 1000, baseMs);
+
+  if (state.consecutiveFailures > 0) {
+    const backoffMs = Math.min(baseMs * Math.pow(2, state.consecutiveFailures - 1), maxMs);
+    return {
+      delayMs: applyJitter(backoffMs),
+      reason: `连续失败 ${state.consecutiveFailures} 次，退避`,
+    };
+  }
+
+  if (data) {
+    const limits = data.data.limits;
+    const windowRemaining = limits.windowRemainingSeconds;
+
+    if (
+      limits.rateLimitCost > 0 &&
+      windowRemaining !== null &&
+      windowRemaining > 0 &&
+      windowRemaining <= config.windowResetLeadSeconds
+    ) {
+      // 在窗口重置后稍等几秒刷新，以便显示重置后的数据
+      const resetMs = Math.max((windowRemaining + 2) * 1000, MIN_INTERVAL_SECONDS * 1000);
+      return { delayMs: Math.min(resetMs, baseMs), reason: '窗口即将重置' };
+    }
+
+    const highestPercent = getHighestUsagePercent(data);
+    if (highestPercent >= config.fastPollThreshold) {
+      return {
+        delayMs: Math.min(config.fastPollInterval * 1000, baseMs),
+        reason: `用量已达 ${Math.floor(highestPercent)}%，加快刷新`,
+      };
+    }
+  }
+
+  if (state.idlePolls >= IDLE_POLLS_BEFORE_SLOWDOWN) {
+    const factor = Math.pow(2, state.idlePolls - IDLE_POLLS_BEFORE_SLOWDOWN + 1);
+    return {
+      delayMs: Math.min(baseMs * factor, maxMs),
+      reason: `用量连续 ${state.idlePolls} 次无变化，放慢刷新`,
+    };
+  }
+
+  return { delayMs: baseMs, reason: '正常间隔' };
+}
+
+/**
+ * 获取各项费用限额中最高的使用百分比
+ * @param data - API 响应数据
+ * @returns 最高使用百分比（未设置任何限额时为 0）
+ */
+function getHighestUsagePercent(data: RelayApiResponse): number {
+  const limits = data.data.limits;
+  const pairs: [number, number][] = [
+    [limits.currentDailyCost, limits.dailyCostLimit],
+    [limits.currentWindowCost, limits.rateLimitCost],
+    [limits.weeklyOpusCost, limits.weeklyOpusCostLimit],
+    [limits.currentTotalCost, limits.totalCostLimit],
+  ];
+
+  return pairs.reduce((highest, [used, limit]) => (limit > 0 ? Math.max(highest, (used / limit) * 100) : highest), 0);
+}
+
+/**
+ * 为延迟添加随机抖动
+ * @param delayMs - 原始延迟（毫秒）
+ * @returns 抖动后的延迟（毫秒）
+ */
+function applyJitter(delayMs: number): number {
+  const jitter = (Math.random() * 2 - 1) * JITTER_RATIO;
+  return Math.max(MIN_INTERVAL_SECONDS * 1000, Math.round(delayMs * (1 + jitter)));
+}
+
+/**
+ * 读取自适应轮询配置
+ * @returns 自适应轮询配置
+ */
+function getAdaptivePollingConfig(): AdaptivePollingConfig {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+
+  return {
+    enabled: config.get<boolean>('adaptivePolling', true),
+    fastPollThreshold: config.get<number>('fastPollThreshold', 90),
+    fastPollInterval: Math.max(config.get<number>('fastPollInterval', 15), MIN_INTERVAL_SECONDS),
+    windowResetLeadSeconds: Math.max(config.get<number>('windowResetLeadSeconds', 120), 0),
+    maxPollInterval: Math.max(config.get<number>('maxPollInterval', 900), MIN_INTERVAL_SECONDS),
+  };
+}
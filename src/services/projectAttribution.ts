@@ -0,0 +1,276 @@
+/**
+ * 文件说明：项目费用归属
+ * 作用：将相邻两次刷新之间的费用增量归属到当前聚焦的工作区文件夹，并在全局存储目录中持久化各项目的累计费用
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ProjectCostEntry, RelayApiResponse } from '../interfaces/types';
+import { log, logError } from '../utils/logger';
+
+/**
+ * 项目费用文件名（多个窗口共享）
+ */
+const PROJECT_FILE_NAME = 'project-costs.json';
+
+/**
+ * 项目费用文件格式版本
+ */
+const PROJECT_FILE_VERSION = 1;
+
+/**
+ * 按日费用的保留天数
+ */
+const DAY_RETENTION_DAYS = 92;
+
+/**
+ * 窗口无焦点或没有打开工作区时使用的归属键
+ */
+export const UNATTRIBUTED_PROJECT_KEY = '__unattributed__';
+
+/**
+ * 各档案上一次刷新时的累计值（用于计算增量）
+ */
+interface AttributionBaseline {
+  apiId: string;
+  cost: number;
+  requests: number;
+  tokens: number;
+  at: number;
+}
+
+/**
+ * 项目费用文件内容
+ */
+interface ProjectFile {
+  version: number;
+  baselines: Record<string, AttributionBaseline>;
+  projects: Record<string, ProjectCostEntry>;
+}
+
+/**
+ * 项目费用文件完整路径
+ */
+let projectFilePath: string | undefined;
+
+/**
+ * 初始化项目费用归属
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeProjectAttribution(context: vscode.ExtensionContext): void {
+  try {
+    const storageDir = context.globalStorageUri.fsPath;
+    fs.mkdirSync(storageDir, { recursive: true });
+    projectFilePath = path.join(storageDir, PROJECT_FILE_NAME);
+  } catch (error) {
+    logError('[项目费用] 初始化项目费用归属失败', error as Error);
+  }
+}
+
+/**
+ * 将本次刷新与上次刷新之间的费用增量归属到当前项目
+ * @param profileName - 档案名称
+ * @param data - API 响应数据
+ * @param windowFocused - 当前窗口是否有焦点（无焦点时归入"未归属"）
+ */
+export function attributeUsage(profileName: string, data: RelayApiResponse, windowFocused: boolean): void {
+  if (!projectFilePath || !isAttributionEnabled()) {
+    return;
+  }
+
+  try {
+    // 每次都重新读取文件，避免覆盖其他窗口写入的数据
+    const file = loadProjectFile();
+    const total = data.data.usage.total;
+    const now = Date.now();
+    const baseline = file.baselines[profileName];
+    file.baselines[profileName] = { apiId: data.data.id, cost: total.cost, requests: total.requests, tokens: total.allTokens, at: now };
+
+    // 首次刷新、API Key 变化或累计值回退（例如重置统计）时只更新基线
+    if (!baseline || baseline.apiId !== data.data.id || total.cost < baseline.cost) {
+      saveProjectFile(file);
+      log(`[项目费用] 已更新基线（档案：${profileName}）`);
+      return;
+    }
+
+    const costDelta = total.cost - baseline.cost;
+    if (costDelta === 0 && total.requests === baseline.requests) {
+      saveProjectFile(file);
+      return;
+    }
+
+    const folder = windowFocused ? getFocusedWorkspaceFolder() : undefined;
+    const key = folder ? folder.uri.toString() : UNATTRIBUTED_PROJECT_KEY;
+    const entry: ProjectCostEntry = file.projects[key] || {
+      name: folder ? folder.name : '(未归属)',
+      path: folder ? folder.uri.fsPath : '',
+      cost: 0,
+      requests: 0,
+      tokens: 0,
+      byProfile: {},
+      days: {},
+      firstSeen: now,
+      lastSeen: now,
+    };
+
+    const dayKey = getDayKey(now);
+    entry.cost += costDelta;
+    entry.requests += Math.max(0, total.requests - baseline.requests);
+    entry.tokens += Math.max(0, total.allTokens - baseline.tokens);
+    entry.byProfile[profileName] = (entry.byProfile[profileName] || 0) + costDelta;
+    entry.days[dayKey] = (entry.days[dayKey] || 0) + costDelta;
+    entry.lastSeen = now;
+    pruneDays(entry, now);
+    file.projects[key] = entry;
+
+    saveProjectFile(file);
+    log(`[项目费用] 已将 $${costDelta.toFixed(4)} 归属到 ${entry.name}（档案：${profileName}）`);
+  } catch (error) {
+    logError('[项目费用] 归属费用失败', error as Error);
+  }
+}
+
+/**
+ * 获取所有项目的归属费用
+ * @returns 项目费用列表（按费用降序）
+ */
+export function getProjectCosts(): ProjectCostEntry[] {
+  if (!projectFilePath) {
+    return [];
+  }
+  return Object.values(loadProjectFile().projects).sort((a, b) => b.cost - a.cost);
+}
+
+/**
+ * 按项目路径或名称获取项目费用
+ * @param project - 项目（工作区文件夹）的绝对路径或名称
+ * @returns 项目费用；不存在，或按名称匹配到多个不同路径的项目时返回 undefined
+ *
+ * 不同位置的同名文件夹会被视为不同项目，按名称无法区分时需在预算中改用绝对路径
+ */
+export function getProjectCost(project: string): ProjectCostEntry | undefined {
+  const entries = getProjectCosts();
+
+  if (path.isAbsolute(project)) {
+    const target = normalizePath(project);
+    return entries.find((entry) => entry.path !== '' && normalizePath(entry.path) === target);
+  }
+
+  const matches = entries.filter((entry) => entry.path !== '' && entry.name === project);
+  if (matches.length > 1) {
+    log(`[项目费用] 项目名称"${project}"对应多个文件夹（${matches.map((entry) => entry.path).join('、')}），请改用绝对路径`, true);
+    return undefined;
+  }
+  return matches[0];
+}
+
+/**
+ * 获取当前聚焦的项目名称
+ * @returns 工作区文件夹名称，没有打开工作区时返回 undefined
+ */
+export function getFocusedProjectName(): string | undefined {
+  return getFocusedWorkspaceFolder()?.name;
+}
+
+/**
+ * 获取本地日期键（YYYY-MM-DD）
+ * @param timestamp - 时间戳
+ * @returns 日期键
+ */
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * 清空项目费用（保留基线，之后的增量继续归属）
+ */
+export function clearProjectCosts(): void {
+  if (!projectFilePath) {
+    return;
+  }
+  const file = loadProjectFile();
+  file.projects = {};
+  saveProjectFile(file);
+  log('[项目费用] 项目费用已清空');
+}
+
+/**
+ * 检查项目费用归属是否启用
+ * @returns 如果启用返回 true
+ */
+function isAttributionEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return config.get<boolean>('enableProjectAttribution', true);
+}
+
+/**
+ * 获取当前聚焦的工作区文件夹
+ * @returns 活动编辑器所在的工作区文件夹，没有活动编辑器时返回第一个工作区文件夹
+ */
+function getFocusedWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+  return activeFolder || vscode.workspace.workspaceFolders?.[0];
+}
+
+/**
+ * 规范化路径以便比较
+ * @param filePath - 文件夹路径
+ * @returns 绝对路径（去除末尾分隔符，Windows 下不区分大小写）
+ */
+function normalizePath(filePath: string): string {
+  const resolved = path.resolve(filePath);
+  return process.platform === 'win32' ? resolved.toLowerCase() : resolved;
+}
+
+/**
+ * 删除超过保留天数的按日费用
+ * @param entry - 项目费用
+ * @param now - 当前时间戳
+ */
+function pruneDays(entry: ProjectCostEntry, now: number): void {
+  const cutoff = getDayKey(now - DAY_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  for (const day of Object.keys(entry.days)) {
+    if (day < cutoff) {
+      delete entry.days[day];
+    }
+  }
+}
+
+/**
+ * 读取项目费用文件
+ * @returns 文件内容，不存在或格式无效时返回空数据
+ */
+function loadProjectFile(): ProjectFile {
+  const empty: ProjectFile = { version: PROJECT_FILE_VERSION, baselines: {}, projects: {} };
+  if (!projectFilePath || !fs.existsSync(projectFilePath)) {
+    return empty;
+  }
+
+  try {
+    const content: ProjectFile = JSON.parse(fs.readFileSync(projectFilePath, 'utf8'));
+    if (content.version !== PROJECT_FILE_VERSION || !content.projects || !content.baselines) {
+      log('[项目费用] 项目费用文件版本不兼容，已忽略');
+      return empty;
+    }
+    return content;
+  } catch (error) {
+    logError('[项目费用] 读取项目费用文件失败', error as Error);
+    return empty;
+  }
+}
+
+/**
+ * 保存项目费用文件（先写临时文件再重命名）
+ * @param file - 文件内容
+ */
+function saveProjectFile(file: ProjectFile): void {
+  if (!projectFilePath) {
+    return;
+  }
+  const tempPath = `${projectFilePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(file), 'utf8');
+  fs.renameSync(tempPath, projectFilePath);
+}
@@ -0,0 +1,204 @@
+/**
+ * 文件说明：通用 JSON 数据源
+ * 作用：请求任意返回 JSON 的用量接口，按 relayMeter.jsonPathProvider.mapping 中的 JSONPath 将字段映射到内部用量格式
+ */
+
+import * as vscode from 'vscode';
+import { JsonPathProviderConfig, RelayApiResponse, UsageCredentials, UsageProvider } from '../../interfaces/types';
+import { log } from '../../utils/logger';
+import { ClientError, InvalidPayloadError } from '../apiErrors';
+import { createEmptyResponse, formatProviderCost, getKeyFingerprint, requestJson } from './providerUtils';
+
+/**
+ * 通用 JSON 数据源适配器
+ */
+export const jsonPathProvider: UsageProvider = {
+  type: 'jsonPath',
+  label: '通用 JSON 接口',
+  fetchUsage: fetchJsonPathUsage,
+};
+
+/**
+ * 请求通用 JSON 接口并映射字段
+ * @param credentials - 请求凭证（档案中的 jsonPath 配置优先于全局配置）
+ * @returns 转换后的用量数据
+ * @throws {RelayApiError} 请求失败、配置无效或没有映射到任何字段时抛出
+ */
+async function fetchJsonPathUsage(credentials: UsageCredentials): Promise<RelayApiResponse> {
+  const config = credentials.jsonPath || getGlobalConfig();
+  if (!config || !config.endpoint || !config.mapping || Object.keys(config.mapping).length === 0) {
+    throw new ClientError('通用 JSON 数据源未配置 endpoint 或 mapping，请检查 relayMeter.jsonPathProvider');
+  }
+
+  const endpoint = fillPlaceholders(config.endpoint, credentials);
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(config.headers || { Authorization: 'Bearer ${apiKey}' })) {
+    headers[name] = fillPlaceholders(value, credentials);
+  }
+
+  const body = await requestJson<unknown>(
+    {
+      method: config.method || 'GET',
+      url: /^https?:\/\//i.test(endpoint) ? endpoint : `${credentials.apiUrl}${endpoint}`,
+      headers,
+      data: config.body !== undefined ? fillBodyPlaceholders(config.body, credentials) : undefined,
+    },
+    '通用 JSON 接口请求失败'
+  );
+
+  return mapResponse(body, config, credentials);
+}
+
+/**
+ * 按映射规则将响应转换为内部用量格式
+ * @param body - 接口响应体
+ * @param config - 数据源配置
+ * @param credentials - 请求凭证
+ * @returns 用量数据
+ * @throws {InvalidPayloadError} 没有任何映射路径取到值时抛出
+ */
+function mapResponse(body: unknown, config: JsonPathProviderConfig, credentials: UsageCredentials): RelayApiResponse {
+  const result = createEmptyResponse(credentials.apiId || getKeyFingerprint(credentials.apiUrl, credentials.apiKey), '');
+  const costScale = typeof config.costScale === 'number' && config.costScale > 0 ? config.costScale : 1;
+  const target = result.data as unknown as Record<string, unknown>;
+  const missing: string[] = [];
+  let mappedCount = 0;
+
+  for (const [field, jsonPath] of Object.entries(config.mapping)) {
+    const value = readJsonPath(body, jsonPath);
+    if (value === undefined || value === null) {
+      missing.push(`${field} ← ${jsonPath}`);
+      continue;
+    }
+
+    if (!assignField(target, field, value, /cost/i.test(field) ? costScale : 1)) {
+      log(`[数据源] 未知的映射字段，已忽略：${field}`, true);
+      continue;
+    }
+    mappedCount++;
+  }
+
+  if (missing.length > 0) {
+    log(`[数据源] 以下映射路径未取到值：${missing.join('，')}`, true);
+  }
+  if (mappedCount === 0) {
+    throw new InvalidPayloadError('通用 JSON 接口返回数据中没有取到任何映射字段，请检查 mapping 中的 JSONPath');
+  }
+
+  // 只映射了其中一个累计费用字段时互相补全
+  const { limits, usage } = result.data;
+  if (!config.mapping['usage.total.cost']) {
+    usage.total.cost = limits.currentTotalCost;
+  } else if (!config.mapping['limits.currentTotalCost']) {
+    limits.currentTotalCost = usage.total.cost;
+  }
+  usage.total.formattedCost = formatProviderCost(usage.total.cost);
+
+  return result;
+}
+
+/**
+ * 将值写入目标对象的指定字段（只允许写入内部格式中已存在的数字或字符串字段）
+ * @param target - 目标对象
+ * @param field - 字段路径（例如 limits.currentDailyCost）
+ * @param value - 取到的值
+ * @param scale - 数值缩放比例
+ * @returns 写入成功返回 true
+ */
+function assignField(target: Record<string, unknown>, field: string, value: unknown, scale: number): boolean {
+  const keys = field.split('.');
+  let parent: Record<string, unknown> = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = parent[key];
+    if (!next || typeof next !== 'object' || Array.isArray(next)) {
+      return false;
+    }
+    parent = next as Record<string, unknown>;
+  }
+
+  const key = keys[keys.length - 1];
+  if (!(key in parent)) {
+    return false;
+  }
+
+  const current = parent[key];
+  if (typeof current === 'string') {
+    parent[key] = String(value);
+  } else if (typeof current === 'number' || current === null) {
+    const numeric = Number(value);
+    if (!Number.isFinite(numeric)) {
+      return false;
+    }
+    parent[key] = numeric * scale;
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * 读取 JSONPath 对应的值
+ * @param source - JSON 数据
+ * @param jsonPath - 路径（支持 $.a.b、$['a']、$.list[0] 形式）
+ * @returns 取到的值，路径不存在时返回 undefined
+ */
+export function readJsonPath(source: unknown, jsonPath: string): unknown {
+  const path = jsonPath.trim().replace(/^\$/, '');
+  const tokenPattern = /\.([^.[\]]+)|\[(\d+)\]|\[['"]([^'"]+)['"]\]/g;
+  let current: unknown = source;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(path)) !== null) {
+    if (match.index !== consumed) {
+      return undefined;
+    }
+    consumed = tokenPattern.lastIndex;
+
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    const key = match[2] !== undefined ? Number(match[2]) : match[1] ?? match[3];
+    current = (current as Record<string | number, unknown>)[key];
+  }
+
+  return consumed === path.length ? current : undefined;
+}
+
+/**
+ * 替换字符串中的凭证占位符
+ * @param text - 原始文本
+ * @param credentials - 请求凭证
+ * @returns 替换后的文本（支持 ${apiKey}、${apiId}）
+ */
+function fillPlaceholders(text: string, credentials: UsageCredentials): string {
+  return text.replace(/\$\{apiKey\}/g, () => credentials.apiKey).replace(/\$\{apiId\}/g, () => credentials.apiId);
+}
+
+/**
+ * 替换请求体中的凭证占位符
+ * @param body - 请求体
+ * @param credentials - 请求凭证
+ * @returns 替换后的请求体
+ */
+function fillBodyPlaceholders(body: unknown, credentials: UsageCredentials): unknown {
+  if (typeof body === 'string') {
+    return fillPlaceholders(body, credentials);
+  }
+  // 按 JSON 字符串转义凭证，避免凭证中的特殊字符破坏 JSON 结构
+  const escaped: UsageCredentials = {
+    ...credentials,
+    apiKey: JSON.stringify(credentials.apiKey).slice(1, -1),
+    apiId: JSON.stringify(credentials.apiId).slice(1, -1),
+  };
+  return JSON.parse(fillPlaceholders(JSON.stringify(body), escaped));
+}
+
+/**
+ * 获取全局通用 JSON 数据源配置
+ * @returns 配置，未配置时返回 undefined
+ */
+function getGlobalConfig(): JsonPathProviderConfig | undefined {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return config.get<JsonPathProviderConfig>('jsonPathProvider');
+}
@@ -0,0 +1,90 @@
+/**
+ * 文件说明：new-api / one-api 数据源
+ * 作用：通过令牌用量接口 /api/usage/token 获取额度使用情况，并换算为美元费用
+ */
+
+import * as vscode from 'vscode';
+import { RelayApiResponse, UsageCredentials, UsageProvider } from '../../interfaces/types';
+import { log } from '../../utils/logger';
+import { InvalidPayloadError } from '../apiErrors';
+import { createEmptyResponse, formatProviderCost, getKeyFingerprint, requestJson } from './providerUtils';
+
+/**
+ * /api/usage/token 响应格式
+ */
+interface NewApiTokenUsageResponse {
+  code?: boolean;
+  success?: boolean;
+  message?: string;
+  data?: {
+    name?: string;
+    total_granted?: number;
+    total_used?: number;
+    total_available?: number;
+    unlimited_quota?: boolean;
+    expires_at?: number;
+  };
+}
+
+/**
+ * new-api / one-api 数据源适配器
+ */
+export const newApiProvider: UsageProvider = {
+  type: 'newApi',
+  label: 'new-api / one-api',
+  fetchUsage: fetchNewApiUsage,
+};
+
+/**
+ * 获取令牌用量
+ * @param credentials - 请求凭证（使用 API Key 作为 Bearer 令牌）
+ * @returns 转换后的用量数据
+ * @throws {RelayApiError} 请求失败或返回数据无效时抛出
+ *
+ * 字段换算：
+ * - total_used → 累计费用（currentTotalCost）
+ * - total_granted → 总费用限额（unlimited_quota 为 true 时不设限额）
+ * - 额度按 relayMeter.newApiQuotaPerUnit（默认 500000 额度 = 1 美元）换算
+ */
+async function fetchNewApiUsage(credentials: UsageCredentials): Promise<RelayApiResponse> {
+  const body = await requestJson<NewApiTokenUsageResponse>(
+    {
+      method: 'GET',
+      url: `${credentials.apiUrl}/api/usage/token`,
+      headers: { Authorization: `Bearer ${credentials.apiKey}` },
+    },
+    '令牌用量请求失败'
+  );
+
+  if (!body || !body.data || body.code === false || body.success === false) {
+    throw new InvalidPayloadError('令牌用量返回数据无效：' + (body?.message || '缺少 data 字段'));
+  }
+
+  const usage = body.data;
+  const quotaPerUnit = getQuotaPerUnit();
+  const used = (usage.total_used || 0) / quotaPerUnit;
+  const granted = usage.unlimited_quota ? 0 : (usage.total_granted || 0) / quotaPerUnit;
+
+  const result = createEmptyResponse(getKeyFingerprint(credentials.apiUrl, credentials.apiKey), usage.name || '');
+  const { limits, usage: usageData } = result.data;
+  limits.totalCostLimit = granted;
+  limits.currentTotalCost = used;
+  usageData.total.cost = used;
+  usageData.total.formattedCost = formatProviderCost(used);
+  if (usage.expires_at && usage.expires_at > 0) {
+    result.data.expiresAt = new Date(usage.expires_at * 1000).toISOString();
+  }
+
+  log(`[数据源] 令牌用量获取成功：已用 ${formatProviderCost(used)}，总额度 ${usage.unlimited_quota ? '无限' : formatProviderCost(granted)}`);
+  return result;
+}
+
+/**
+ * 获取额度换算比例
+ * @returns 每美元对应的额度
+ */
+function getQuotaPerUnit(): number {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const value = config.get<number>('newApiQuotaPerUnit', 500000);
+  return value > 0 ? value : 500000;
+}
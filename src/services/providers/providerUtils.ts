@@ -0,0 +1,130 @@
+/**
+ * 文件说明：用量数据源公共工具
+ * 作用：为各数据源适配器提供统一的 HTTP 请求、空数据模板和凭证指纹
+ */
+
+import { AxiosRequestConfig } from 'axios';
+import * as crypto from 'crypto';
+import { RelayApiResponse, RelayUserData } from '../../interfaces/types';
+import { log, logError } from '../../utils/logger';
+import { classifyError, createHttpError } from '../apiErrors';
+import { getHttpClient } from '../httpClient';
+
+/**
+ * 发送 HTTP 请求并返回 JSON 响应体
+ * @param config - axios 请求配置
+ * @param errorPrefix - 错误消息前缀（例如"用量请求失败"）
+ * @returns 响应体
+ * @throws {RelayApiError} 请求失败时抛出分类错误
+ */
+export async function requestJson<T>(config: AxiosRequestConfig, errorPrefix: string): Promise<T> {
+  try {
+    log(`[数据源] ${config.method || 'GET'} ${config.url}`);
+
+    const response = await getHttpClient().request<T>({
+      ...config,
+      headers: {
+        Accept: 'application/json',
+        ...config.headers,
+      },
+    });
+
+    if (response.status !== 200) {
+      throw createHttpError(response.status, `${errorPrefix}，状态码：${response.status}`);
+    }
+
+    return response.data;
+  } catch (error) {
+    const relayError = classifyError(error, errorPrefix);
+    logError(`[数据源] ${errorPrefix}（${relayError.kind}）`, relayError);
+    throw relayError;
+  }
+}
+
+/**
+ * 创建字段全部为默认值的用量数据（非 relay 数据源在此基础上填入已知字段）
+ * @param id - 数据标识（写入历史快照和项目费用基线）
+ * @param name - 显示名称
+ * @returns API 响应数据
+ */
+export function createEmptyResponse(id: string, name: string): RelayApiResponse {
+  const data: RelayUserData = {
+    id,
+    name,
+    description: '',
+    isActive: true,
+    createdAt: '',
+    expiresAt: '',
+    expirationMode: 'fixed',
+    isActivated: true,
+    activationDays: 0,
+    activatedAt: '',
+    permissions: 'all',
+    usage: {
+      total: {
+        tokens: 0,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreateTokens: 0,
+        cacheReadTokens: 0,
+        allTokens: 0,
+        requests: 0,
+        cost: 0,
+        formattedCost: '$0.00',
+      },
+    },
+    limits: {
+      tokenLimit: 0,
+      concurrencyLimit: 0,
+      rateLimitWindow: 0,
+      rateLimitRequests: 0,
+      rateLimitCost: 0,
+      dailyCostLimit: 0,
+      totalCostLimit: 0,
+      weeklyOpusCostLimit: 0,
+      currentWindowRequests: 0,
+      currentWindowTokens: 0,
+      currentWindowCost: 0,
+      currentDailyCost: 0,
+      currentTotalCost: 0,
+      weeklyOpusCost: 0,
+      windowStartTime: null,
+      windowEndTime: null,
+      windowRemainingSeconds: null,
+    },
+    accounts: {
+      claudeAccountId: null,
+      geminiAccountId: null,
+      openaiAccountId: null,
+      details: null,
+    },
+    restrictions: {
+      enableModelRestriction: false,
+      restrictedModels: [],
+      enableClientRestriction: false,
+      allowedClients: [],
+    },
+  };
+
+  return { success: true, data };
+}
+
+/**
+ * 计算凭证指纹（没有 API ID 的数据源用它区分不同的 Key，不保存明文）
+ * @param apiUrl - API 基础地址
+ * @param apiKey - API Key
+ * @returns 形如 key-xxxxxxxxxxxxxxxx 的标识
+ */
+export function getKeyFingerprint(apiUrl: string, apiKey: string): string {
+  const hash = crypto.createHash('sha256').update(`${apiUrl.trim()}\n${apiKey.trim()}`).digest('hex');
+  return `key-${hash.slice(0, 16)}`;
+}
+
+/**
+ * 格式化费用字段（与中继返回的 formattedCost 格式一致）
+ * @param cost - 费用（美元）
+ * @returns 格式化后的费用
+ */
+export function formatProviderCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
@@ -0,0 +1,17 @@
+/**
+ * 文件说明：claude-relay-service 数据源
+ * 作用：通过 /apiStats/api/user-stats 获取用量数据，API Key 通过 /apiStats/api/get-key-id 换取 API ID
+ */
+
+import { UsageProvider } from '../../interfaces/types';
+import { fetchRelayStats, getApiIdFromKey } from '../api';
+
+/**
+ * claude-relay-service 数据源适配器（返回数据即为内部格式，无需转换）
+ */
+export const relayProvider: UsageProvider = {
+  type: 'relay',
+  label: 'Claude Relay Service',
+  resolveApiId: getApiIdFromKey,
+  fetchUsage: ({ apiUrl, apiId }) => fetchRelayStats(apiUrl, apiId),
+};
@@ -0,0 +1,358 @@
+/**
+ * 文件说明：中继响应校验
+ * 作用：在运行时按 RelayApiResponse 的声明结构校验中继返回的数据，为缺失或类型不符的字段填入默认值，
+ *       记录字段漂移（缺失 / 未知 / 类型不符）警告；出现漂移时检测中继服务端版本，附在警告中便于排查
+ *
+ * 范围说明：不按服务端版本切换字段别名或默认值。claude-relay-service 没有公开各版本的字段变更记录，
+ * 按版本猜测字段映射反而可能读错数据；不同版本的差异统一由逐字段校验处理（缺失字段使用默认值、
+ * 旧版本缺少的字段静默隐藏、改名的字段记为缺失和未知字段并输出警告），检测到的版本只用于排查
+ */
+
+import { ModelUsage, RelayApiResponse } from '../interfaces/types';
+import { log } from '../utils/logger';
+import { InvalidPayloadError } from './apiErrors';
+import { getHttpClient } from './httpClient';
+import { createEmptyResponse } from './providers/providerUtils';
+
+/**
+ * 版本检测请求超时（毫秒）
+ */
+const VERSION_TIMEOUT = 5000;
+
+/**
+ * 版本检测结果的有效期（毫秒），过期后再次出现漂移时重新检测，以反映服务端升级
+ */
+const VERSION_CACHE_TTL = 60 * 60 * 1000;
+
+/**
+ * 旧版服务端可能没有的字段（缺失时静默使用默认值，对应的显示项自动隐藏）
+ */
+const LEGACY_OPTIONAL_FIELDS = new Set([
+  'expirationMode',
+  'isActivated',
+  'activationDays',
+  'activatedAt',
+  'permissions',
+  'accounts',
+  'restrictions',
+  'limits.weeklyOpusCostLimit',
+  'limits.weeklyOpusCost',
+  'limits.totalCostLimit',
+  'limits.currentTotalCost',
+  'limits.windowStartTime',
+  'limits.windowEndTime',
+  'limits.windowRemainingSeconds',
+]);
+
+/**
+ * 模型使用统计的默认值（作为 usage.models 中每一项的校验模板）
+ */
+const MODEL_TEMPLATE: ModelUsage = {
+  modelName: '',
+  displayName: '',
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cacheCreateTokens: 0,
+  cacheReadTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  formattedCost: '',
+};
+
+/**
+ * 字段漂移记录
+ */
+interface SchemaDrift {
+  missing: Set<string>;
+  unknown: Set<string>;
+  invalid: Set<string>;
+}
+
+/**
+ * 已输出过的漂移警告签名（相同的漂移只警告一次）
+ */
+const reportedDrifts = new Set<string>();
+
+/**
+ * 各 API 地址检测到的服务端版本（undefined 表示检测失败或服务端未提供）
+ */
+const serverVersions = new Map<string, string | undefined>();
+
+/**
+ * 各 API 地址最近一次版本检测及其开始时间
+ */
+const versionDetections = new Map<string, { detection: Promise<string | undefined>; startedAt: number }>();
+
+/**
+ * 校验并规范化中继返回的用量数据
+ * @param raw - 响应体
+ * @param apiUrl - API 基础地址（用于漂移警告去重和版本检测）
+ * @returns 字段完整的用量数据
+ * @throws {InvalidPayloadError} 请求失败（success 不为 true）、缺少 data 或用户标识时抛出
+ */
+export function normalizeRelayResponse(raw: unknown, apiUrl: string): RelayApiResponse {
+  if (!isPlainObject(raw) || raw.success !== true) {
+    throw new InvalidPayloadError('API 返回数据无效或请求失败');
+  }
+  if (!isPlainObject(raw.data)) {
+    throw new InvalidPayloadError('API 返回数据缺少 data 字段');
+  }
+  if (typeof raw.data.id !== 'string' || raw.data.id === '') {
+    throw new InvalidPayloadError('API 返回数据缺少用户标识 id');
+  }
+
+  const template = createEmptyResponse('', '').data as unknown as Record<string, unknown>;
+  const drift: SchemaDrift = { missing: new Set(), unknown: new Set(), invalid: new Set() };
+
+  // usage.models 是可选字段，不在模板中，单独按模型模板校验
+  const rawUsage = isPlainObject(raw.data.usage) ? raw.data.usage : undefined;
+  const rawModels = rawUsage ? rawUsage.models : undefined;
+  const data = normalizeObject(raw.data, template, '', drift, ['usage.models']);
+
+  if (rawModels !== undefined) {
+    const usage = data.usage as Record<string, unknown>;
+    if (Array.isArray(rawModels)) {
+      usage.models = rawModels
+        .filter((model) => isPlainObject(model) && typeof model.modelName === 'string')
+        .map((model) => normalizeObject(model, MODEL_TEMPLATE as unknown as Record<string, unknown>, 'usage.models[]', drift));
+    } else {
+      drift.invalid.add('usage.models');
+      delete usage.models;
+    }
+  }
+
+  reportSchemaDrift(apiUrl, drift);
+  return { ...raw, success: true, data: data as unknown as RelayApiResponse['data'] };
+}
+
+/**
+ * 获取检测到的服务端版本（不会发起检测）
+ * @param apiUrl - API 基础地址
+ * @returns 版本号，未检测过（数据没有漂移）或未检测到时返回 undefined
+ */
+export function getServerVersion(apiUrl: string): string | undefined {
+  return serverVersions.get(apiUrl);
+}
+
+/**
+ * 按模板校验对象：缺失字段填入默认值，类型不符的字段尽量转换，转换失败时使用默认值；未知字段原样保留
+ * @param raw - 原始对象
+ * @param template - 字段模板（字段值即默认值）
+ * @param path - 当前字段路径
+ * @param drift - 漂移记录
+ * @param knownExtras - 模板之外的已知字段路径（不记为未知字段）
+ * @returns 规范化后的对象
+ */
+function normalizeObject(
+  raw: unknown,
+  template: Record<string, unknown>,
+  path: string,
+  drift: SchemaDrift,
+  knownExtras: string[] = []
+): Record<string, unknown> {
+  const source = isPlainObject(raw) ? raw : {};
+  const result: Record<string, unknown> = {};
+
+  for (const [key, defaultValue] of Object.entries(template)) {
+    const fieldPath = joinPath(path, key);
+    if (!(key in source) || source[key] === undefined) {
+      drift.missing.add(fieldPath);
+      result[key] = cloneDefault(defaultValue);
+      continue;
+    }
+    result[key] = normalizeValue(source[key], defaultValue, fieldPath, drift, knownExtras);
+  }
+
+  for (const key of Object.keys(source)) {
+    if (!(key in template)) {
+      const fieldPath = joinPath(path, key);
+      if (!knownExtras.includes(fieldPath)) {
+        drift.unknown.add(fieldPath);
+      }
+      result[key] = source[key];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 按默认值的类型校验单个字段
+ * @param value - 原始值
+ * @param defaultValue - 默认值（决定期望类型，null 表示可为空的字段）
+ * @param path - 字段路径
+ * @param drift - 漂移记录
+ * @param knownExtras - 模板之外的已知字段路径
+ * @returns 校验后的值
+ */
+function normalizeValue(
+  value: unknown,
+  defaultValue: unknown,
+  path: string,
+  drift: SchemaDrift,
+  knownExtras: string[]
+): unknown {
+  // 可为空的字段（时间、剩余秒数、账户详情）不限制类型
+  if (defaultValue === null) {
+    return value;
+  }
+
+  if (Array.isArray(defaultValue)) {
+    if (Array.isArray(value)) {
+      return value.filter((item) => typeof item === 'string');
+    }
+    drift.invalid.add(path);
+    return [];
+  }
+
+  if (isPlainObject(defaultValue)) {
+    if (!isPlainObject(value)) {
+      drift.invalid.add(path);
+    }
+    return normalizeObject(value, defaultValue, path, drift, knownExtras);
+  }
+
+  if (typeof defaultValue === 'number') {
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return value;
+    }
+    // 部分服务端以字符串返回数字
+    const numeric = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    if (Number.isFinite(numeric)) {
+      return numeric;
+    }
+    if (value !== null) {
+      drift.invalid.add(path);
+    }
+    return defaultValue;
+  }
+
+  if (typeof defaultValue === 'string') {
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    if (value !== null) {
+      drift.invalid.add(path);
+    }
+    return defaultValue;
+  }
+
+  if (typeof defaultValue === 'boolean') {
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    drift.invalid.add(path);
+    return defaultValue;
+  }
+
+  return value;
+}
+
+/**
+ * 输出字段漂移警告（相同地址和漂移内容只输出一次）
+ * @param apiUrl - API 基础地址
+ * @param drift - 漂移记录
+ */
+function reportSchemaDrift(apiUrl: string, drift: SchemaDrift): void {
+  const legacyMissing = Array.from(drift.missing).filter((field) => LEGACY_OPTIONAL_FIELDS.has(field));
+  const missing = Array.from(drift.missing).filter((field) => !LEGACY_OPTIONAL_FIELDS.has(field));
+  const unknown = Array.from(drift.unknown);
+  const invalid = Array.from(drift.invalid);
+
+  if (missing.length === 0 && unknown.length === 0 && invalid.length === 0 && legacyMissing.length === 0) {
+    return;
+  }
+
+  const signature = [apiUrl, missing, unknown, invalid, legacyMissing].map(String).join('|');
+  if (reportedDrifts.has(signature)) {
+    return;
+  }
+  reportedDrifts.add(signature);
+
+  const parts: string[] = [];
+  if (missing.length > 0) {
+    parts.push(`缺少字段 ${missing.join('、')}`);
+  }
+  if (invalid.length > 0) {
+    parts.push(`类型不符 ${invalid.join('、')}`);
+  }
+  if (unknown.length > 0) {
+    parts.push(`未知字段 ${unknown.join('、')}`);
+  }
+
+  // 等待版本检测完成后输出，便于对照服务端版本排查
+  void detectServerVersion(apiUrl).then((version) => {
+    const versionText = version ? `服务端版本 ${version}` : '服务端版本未知';
+    if (legacyMissing.length > 0) {
+      log(`[数据校验] ${apiUrl}（${versionText}）未返回以下字段，可能是旧版服务端，已使用默认值：${legacyMissing.join('、')}`);
+    }
+    if (parts.length > 0) {
+      log(`[数据校验] ⚠️ ${apiUrl}（${versionText}）返回的数据与预期格式不一致：${parts.join('；')}。缺失和类型不符的字段已使用默认值`, true);
+    }
+  });
+}
+
+/**
+ * 检测中继服务端版本（通过 /health 接口的 version 字段，有效期内复用上次的结果）
+ * @param apiUrl - API 基础地址
+ * @returns 版本号，检测失败或服务端未提供时为 undefined
+ *
+ * 只在需要输出漂移警告时调用；/health 不需要认证，请求中不携带 API Key
+ */
+function detectServerVersion(apiUrl: string): Promise<string | undefined> {
+  const existing = versionDetections.get(apiUrl);
+  if (existing && Date.now() - existing.startedAt < VERSION_CACHE_TTL) {
+    return existing.detection;
+  }
+
+  const detection = Promise.resolve()
+    .then(() => getHttpClient().get(`${apiUrl}/health`, { timeout: VERSION_TIMEOUT }))
+    .then((response) => {
+      const version = isPlainObject(response.data) && typeof response.data.version === 'string' ? response.data.version : undefined;
+      log(version ? `[数据校验] 检测到中继服务版本：${version}（${apiUrl}）` : `[数据校验] 中继服务未提供版本信息（${apiUrl}）`);
+      return version;
+    })
+    .catch(() => {
+      log(`[数据校验] 无法检测中继服务版本（${apiUrl}）`);
+      return undefined;
+    })
+    .then((version) => {
+      serverVersions.set(apiUrl, version);
+      return version;
+    });
+
+  versionDetections.set(apiUrl, { detection, startedAt: Date.now() });
+  return detection;
+}
+
+/**
+ * 拼接字段路径
+ * @param path - 父路径
+ * @param key - 字段名
+ * @returns 完整路径
+ */
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 复制默认值（避免多个结果共享同一个数组或对象）
+ * @param value - 默认值
+ * @returns 副本
+ */
+function cloneDefault(value: unknown): unknown {
+  return value !== null && typeof value === 'object' ? JSON.parse(JSON.stringify(value)) : value;
+}
+
+/**
+ * 判断是否为普通对象
+ * @param value - 任意值
+ * @returns 是普通对象返回 true
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
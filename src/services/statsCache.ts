@@ -0,0 +1,83 @@
+/**
+ * 文件说明：最近一次成功数据缓存
+ * 作用：在内存和 globalState 中保存各档案最近一次成功获取的数据，服务不可达或插件刚激活时用于显示过期数据
+ */
+
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { CachedStats } from '../interfaces/types';
+import { log } from '../utils/logger';
+
+/**
+ * 缓存在 globalState 中的键名
+ */
+const STATS_CACHE_KEY = 'relayMeter.lastKnownStats';
+
+/**
+ * 扩展上下文（用于读写 globalState）
+ */
+let extensionContext: vscode.ExtensionContext | undefined;
+
+/**
+ * 内存中的缓存（档案名称 -> 数据）
+ */
+let cache: Record<string, CachedStats> = {};
+
+/**
+ * 初始化缓存，从 globalState 恢复上次保存的数据
+ * @param context - VSCode 扩展上下文
+ */
+export function initializeStatsCache(context: vscode.ExtensionContext): void {
+  extensionContext = context;
+  cache = { ...(context.globalState.get<Record<string, CachedStats>>(STATS_CACHE_KEY) || {}) };
+  log(`[数据缓存] 已恢复 ${Object.keys(cache).length} 个档案的缓存数据`);
+}
+
+/**
+ * 计算档案凭证的指纹
+ * @param apiId - 档案配置的 API ID
+ * @param apiKey - 档案配置的 API Key
+ * @returns sha256 摘要的前 16 位
+ */
+export function getCredentialFingerprint(apiId: string, apiKey: string): string {
+  return crypto.createHash('sha256').update(`${apiId.trim()}\n${apiKey.trim()}`).digest('hex').slice(0, 16);
+}
+
+/**
+ * 获取档案的缓存数据
+ * @param profileName - 档案名称
+ * @param apiUrl - 当前 API 地址（与缓存不一致时视为无缓存）
+ * @param keyFingerprint - 当前凭证指纹（与缓存不一致时视为无缓存）
+ * @returns 缓存数据，不存在时返回 undefined
+ */
+export function getCachedStats(profileName: string, apiUrl: string, keyFingerprint: string): CachedStats | undefined {
+  const entry = cache[profileName];
+  return entry && entry.apiUrl === apiUrl && entry.keyFingerprint === keyFingerprint ? entry : undefined;
+}
+
+/**
+ * 保存档案的最新成功数据
+ * @param profileName - 档案名称
+ * @param entry - 缓存数据
+ */
+export async function saveCachedStats(profileName: string, entry: CachedStats): Promise<void> {
+  cache[profileName] = entry;
+  await extensionContext?.globalState.update(STATS_CACHE_KEY, cache);
+}
+
+/**
+ * 移除已删除档案的缓存
+ * @param profileNames - 当前存在的档案名称
+ */
+export async function retainCachedStats(profileNames: string[]): Promise<void> {
+  const staleNames = Object.keys(cache).filter((name) => !profileNames.includes(name));
+  if (staleNames.length === 0) {
+    return;
+  }
+
+  for (const name of staleNames) {
+    delete cache[name];
+  }
+  await extensionContext?.globalState.update(STATS_CACHE_KEY, cache);
+  log(`[数据缓存] 已移除 ${staleNames.length} 个档案的缓存数据`);
+}
@@ -0,0 +1,46 @@
+/**
+ * 文件说明：用量数据源选择
+ * 作用：按档案配置的数据源类型返回对应的适配器，并统一带重试的用量请求入口
+ */
+
+import { RelayApiResponse, UsageCredentials, UsageProvider, UsageProviderType } from '../interfaces/types';
+import { requestWithRetry } from './api';
+import { jsonPathProvider } from './providers/jsonPathProvider';
+import { newApiProvider } from './providers/newApiProvider';
+import { relayProvider } from './providers/relayProvider';
+
+/**
+ * 已注册的数据源适配器
+ */
+const PROVIDERS: Record<UsageProviderType, UsageProvider> = {
+  relay: relayProvider,
+  newApi: newApiProvider,
+  jsonPath: jsonPathProvider,
+};
+
+/**
+ * 获取数据源适配器
+ * @param type - 数据源类型（未知类型回退到 relay）
+ * @returns 数据源适配器
+ */
+export function getUsageProvider(type: UsageProviderType | undefined): UsageProvider {
+  return (type && PROVIDERS[type]) || relayProvider;
+}
+
+/**
+ * 带重试机制获取用量数据
+ * @param provider - 数据源适配器
+ * @param credentials - 请求凭证
+ * @param maxRetries - 最大重试次数，默认为 3
+ * @param retryDelay - 重试延迟（毫秒），默认为 1000
+ * @returns 统一格式的用量数据
+ * @throws {RelayApiError} 所有重试失败或遇到不可重试的错误时抛出
+ */
+export function fetchUsageWithRetry(
+  provider: UsageProvider,
+  credentials: UsageCredentials,
+  maxRetries: number = 3,
+  retryDelay: number = 1000
+): Promise<RelayApiResponse> {
+  return requestWithRetry(() => provider.fetchUsage(credentials), maxRetries, retryDelay);
+}
@@ -0,0 +1,397 @@
+/**
+ * 文件说明：多窗口协调
+ * 作用：通过全局存储目录中的锁文件选出一个负责刷新的窗口（领导窗口），
+ *       其余窗口监听共享数据文件并直接使用领导窗口获取的结果，避免多个窗口重复请求中继服务
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SharedStatsEntry } from '../interfaces/types';
+import { log, logError } from '../utils/logger';
+
+/**
+ * 锁文件名
+ */
+const LOCK_FILE_NAME = 'poller.lock';
+
+/**
+ * 共享数据文件名
+ */
+const SHARED_FILE_NAME = 'shared-stats.json';
+
+/**
+ * 历史文件名（与 historyStore 一致，变化时通知其他窗口重新读取）
+ */
+const HISTORY_FILE_NAME = 'usage-history.json';
+
+/**
+ * 共享数据文件格式版本
+ */
+const SHARED_FILE_VERSION = 1;
+
+/**
+ * 心跳间隔（毫秒）
+ */
+const HEARTBEAT_INTERVAL = 10 * 1000;
+
+/**
+ * 锁超过该时长未更新心跳即视为失效（毫秒）
+ */
+const LOCK_STALE_MS = 30 * 1000;
+
+/**
+ * 文件事件防抖延迟（毫秒）
+ */
+const WATCH_DEBOUNCE_DELAY = 200;
+
+/**
+ * 锁文件内容
+ */
+interface LockFile {
+  windowId: string;
+  pid: number;
+  heartbeatAt: number;
+}
+
+/**
+ * 共享数据文件内容
+ */
+interface SharedFile {
+  version: number;
+  updatedBy: string;
+  profiles: Record<string, SharedStatsEntry>;
+}
+
+/**
+ * 协调事件处理函数
+ */
+export interface CoordinatorHandlers {
+  onLeadershipChange: (isLeader: boolean) => void;
+  onSharedStatsChange: () => void;
+  onHistoryChange: () => void;
+}
+
+/**
+ * 当前窗口标识
+ */
+const windowId = `${vscode.env.sessionId}-${process.pid}`;
+
+let storageDir: string | undefined;
+let handlers: CoordinatorHandlers | undefined;
+let leader = false;
+let sharedProfiles: Record<string, SharedStatsEntry> = {};
+let heartbeatTimer: NodeJS.Timeout | undefined;
+let dirWatcher: fs.FSWatcher | undefined;
+const debounceTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * 初始化多窗口协调
+ * @param context - VSCode 扩展上下文
+ * @param eventHandlers - 协调事件处理函数
+ */
+export function initializeCoordinator(context: vscode.ExtensionContext, eventHandlers: CoordinatorHandlers): void {
+  handlers = eventHandlers;
+  storageDir = context.globalStorageUri.fsPath;
+
+  if (!isCoordinationEnabled()) {
+    log('[多窗口] 多窗口共享已关闭，本窗口独立刷新');
+    return;
+  }
+
+  try {
+    fs.mkdirSync(storageDir, { recursive: true });
+    sharedProfiles = readSharedFile()?.profiles || {};
+    startWatching();
+    checkLeadership();
+    heartbeatTimer = setInterval(checkLeadership, HEARTBEAT_INTERVAL);
+    log(`[多窗口] 多窗口协调已启动（窗口：${windowId}，${leader ? '领导窗口' : '跟随窗口'}）`);
+  } catch (error) {
+    logError('[多窗口] 启动多窗口协调失败，本窗口独立刷新', error as Error);
+    stopCoordinator();
+  }
+}
+
+/**
+ * 停止多窗口协调并释放锁（插件停用时调用）
+ */
+export function stopCoordinator(): void {
+  if (heartbeatTimer) {
+    clearInterval(heartbeatTimer);
+    heartbeatTimer = undefined;
+  }
+  if (dirWatcher) {
+    dirWatcher.close();
+    dirWatcher = undefined;
+  }
+  for (const timer of debounceTimers.values()) {
+    clearTimeout(timer);
+  }
+  debounceTimers.clear();
+
+  if (leader) {
+    const lock = readLock();
+    if (lock && lock.windowId === windowId) {
+      try {
+        fs.unlinkSync(getFilePath(LOCK_FILE_NAME));
+        log('[多窗口] 已释放刷新锁');
+      } catch {
+        // 锁文件已被其他窗口接管或删除
+      }
+    }
+  }
+  leader = false;
+}
+
+/**
+ * 当前窗口是否负责刷新
+ * @returns 领导窗口或未启用多窗口协调时返回 true
+ */
+export function isLeader(): boolean {
+  return leader || !heartbeatTimer;
+}
+
+/**
+ * 主动接管刷新（窗口获得焦点时调用，保证用户正在使用的窗口负责刷新）
+ */
+export function claimLeadership(): void {
+  if (!heartbeatTimer || leader) {
+    return;
+  }
+
+  try {
+    writeLock();
+    setLeader(true);
+  } catch (error) {
+    logError('[多窗口] 接管刷新锁失败', error as Error);
+  }
+}
+
+/**
+ * 获取共享的档案数据
+ * @param profileName - 档案名称
+ * @param apiUrl - 当前 API 地址（与共享数据不一致时视为无数据）
+ * @param keyFingerprint - 当前凭证指纹（与共享数据不一致时视为无数据；不同工作区的同名档案可能使用不同的 Key）
+ * @returns 共享数据，不存在时返回 undefined
+ */
+export function getSharedStats(profileName: string, apiUrl: string, keyFingerprint: string): SharedStatsEntry | undefined {
+  const entry = sharedProfiles[profileName];
+  return entry && entry.stats.apiUrl === apiUrl && entry.stats.keyFingerprint === keyFingerprint ? entry : undefined;
+}
+
+/**
+ * 将档案数据写入共享文件，供其他窗口使用
+ * @param profileName - 档案名称
+ * @param entry - 共享数据
+ */
+export function publishStats(profileName: string, entry: SharedStatsEntry): void {
+  if (!heartbeatTimer) {
+    return;
+  }
+
+  try {
+    // 先合并磁盘上其他档案的最新数据，避免覆盖其他窗口写入的档案
+    const profiles = { ...(readSharedFile()?.profiles || {}), [profileName]: entry };
+    const content: SharedFile = { version: SHARED_FILE_VERSION, updatedBy: windowId, profiles };
+
+    // 先写临时文件再重命名，避免其他窗口读到写了一半的文件
+    const filePath = getFilePath(SHARED_FILE_NAME);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(content), 'utf8');
+    fs.renameSync(tempPath, filePath);
+
+    sharedProfiles = profiles;
+  } catch (error) {
+    logError('[多窗口] 写入共享数据失败', error as Error);
+  }
+}
+
+/**
+ * 检查是否启用多窗口协调
+ * @returns 如果启用返回 true
+ */
+function isCoordinationEnabled(): boolean {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return config.get<boolean>('shareAcrossWindows', true);
+}
+
+/**
+ * 检查并更新领导状态（心跳）
+ *
+ * - 领导窗口：锁仍属于自己时刷新心跳，被其他窗口接管时退为跟随窗口
+ * - 跟随窗口：锁不存在或已失效时尝试获取
+ */
+function checkLeadership(): void {
+  try {
+    const lock = readLock();
+
+    if (lock && lock.windowId === windowId) {
+      writeLock();
+      setLeader(true);
+      return;
+    }
+
+    if (lock && !isLockStale(lock)) {
+      setLeader(false);
+      return;
+    }
+
+    // 锁不存在或已失效：删除失效锁后以独占方式创建，多个窗口同时竞争时只有一个成功
+    if (lock) {
+      log(`[多窗口] 刷新锁已失效（窗口：${lock.windowId}），尝试接管`);
+      fs.rmSync(getFilePath(LOCK_FILE_NAME), { force: true });
+    }
+    try {
+      writeLock('wx');
+      setLeader(true);
+    } catch {
+      setLeader(false);
+    }
+  } catch (error) {
+    logError('[多窗口] 检查刷新锁失败', error as Error);
+  }
+}
+
+/**
+ * 更新领导状态并通知
+ * @param value - 是否为领导窗口
+ */
+function setLeader(value: boolean): void {
+  if (leader === value) {
+    return;
+  }
+
+  leader = value;
+  log(`[多窗口] 本窗口${value ? '成为领导窗口，负责刷新数据' : '成为跟随窗口，使用共享数据'}`);
+  handlers?.onLeadershipChange(value);
+}
+
+/**
+ * 判断锁是否失效（心跳超时或持有锁的进程已退出）
+ * @param lock - 锁文件内容
+ * @returns 失效返回 true
+ */
+function isLockStale(lock: LockFile): boolean {
+  if (Date.now() - lock.heartbeatAt > LOCK_STALE_MS) {
+    return true;
+  }
+
+  try {
+    process.kill(lock.pid, 0);
+    return false;
+  } catch (error) {
+    // EPERM 表示进程存在但无权发送信号
+    return (error as NodeJS.ErrnoException).code !== 'EPERM';
+  }
+}
+
+/**
+ * 读取锁文件
+ * @returns 锁文件内容，不存在或格式无效时返回 undefined
+ */
+function readLock(): LockFile | undefined {
+  try {
+    const lock: LockFile = JSON.parse(fs.readFileSync(getFilePath(LOCK_FILE_NAME), 'utf8'));
+    return typeof lock.windowId === 'string' && typeof lock.heartbeatAt === 'number' ? lock : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 写入锁文件
+ * @param flag - 文件打开方式（'wx' 表示仅在文件不存在时创建）
+ */
+function writeLock(flag: 'w' | 'wx' = 'w'): void {
+  const lock: LockFile = { windowId, pid: process.pid, heartbeatAt: Date.now() };
+  fs.writeFileSync(getFilePath(LOCK_FILE_NAME), JSON.stringify(lock), { encoding: 'utf8', flag });
+}
+
+/**
+ * 读取共享数据文件
+ * @returns 文件内容，不存在或格式无效时返回 undefined
+ */
+function readSharedFile(): SharedFile | undefined {
+  try {
+    const content: SharedFile = JSON.parse(fs.readFileSync(getFilePath(SHARED_FILE_NAME), 'utf8'));
+    return content.version === SHARED_FILE_VERSION && content.profiles ? content : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 监听全局存储目录中的共享文件、锁文件和历史文件
+ */
+function startWatching(): void {
+  dirWatcher = fs.watch(storageDir as string, (_eventType, filename) => {
+    const name = filename ? filename.toString() : '';
+    if (name === SHARED_FILE_NAME || name === LOCK_FILE_NAME || name === HISTORY_FILE_NAME) {
+      debounce(name, () => handleFileChange(name));
+    }
+  });
+
+  dirWatcher.on('error', (error) => {
+    logError('[多窗口] 文件监听出错', error);
+  });
+}
+
+/**
+ * 处理文件变化
+ * @param name - 变化的文件名
+ */
+function handleFileChange(name: string): void {
+  if (name === LOCK_FILE_NAME) {
+    // 锁被删除（领导窗口关闭）或被其他窗口接管时立即重新检查，不必等到下一次心跳；
+    // 心跳写入本身也会触发事件，此时不处理
+    const lock = readLock();
+    if (!lock || (leader && lock.windowId !== windowId)) {
+      checkLeadership();
+    }
+    return;
+  }
+
+  if (name === HISTORY_FILE_NAME) {
+    if (!leader) {
+      handlers?.onHistoryChange();
+    }
+    return;
+  }
+
+  const content = readSharedFile();
+  if (!content || content.updatedBy === windowId) {
+    return;
+  }
+
+  sharedProfiles = content.profiles;
+  handlers?.onSharedStatsChange();
+}
+
+/**
+ * 按文件名防抖（一次写入可能触发多个文件事件）
+ * @param key - 防抖键
+ * @param callback - 回调函数
+ */
+function debounce(key: string, callback: () => void): void {
+  const existing = debounceTimers.get(key);
+  if (existing) {
+    clearTimeout(existing);
+  }
+
+  debounceTimers.set(
+    key,
+    setTimeout(() => {
+      debounceTimers.delete(key);
+      callback();
+    }, WATCH_DEBOUNCE_DELAY)
+  );
+}
+
+/**
+ * 获取全局存储目录中的文件路径
+ * @param fileName - 文件名
+ * @returns 完整路径
+ */
+function getFilePath(fileName: string): string {
+  return path.join(storageDir as string, fileName);
+}
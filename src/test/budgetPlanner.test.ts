@@ -0,0 +1,73 @@
+/**
+ * 文件说明：个人预算周期费用计算测试
+ */
+
+import * as assert from 'assert';
+import { computePeriodSpend } from '../services/budgetPlanner';
+import { COMPACT_INTERVAL } from '../services/historyStore';
+import { createSnapshot } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+/**
+ * 周期起始时间（本地时间 2026-01-12 周一 00:00）
+ */
+const PERIOD_START = new Date(2026, 0, 12).getTime();
+
+describe('budgetPlanner', () => {
+  describe('computePeriodSpend', () => {
+    it('周期开始前一小时内有快照时按该快照精确计算', () => {
+      const snapshots = [
+        createSnapshot(PERIOD_START - 3 * DAY, { currentTotalCost: 40 }),
+        createSnapshot(PERIOD_START - HOUR / 2, { currentTotalCost: 100 }),
+        createSnapshot(PERIOD_START + HOUR, { currentTotalCost: 105, currentDailyCost: 5 }),
+      ];
+
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 20, partial: false });
+    });
+
+    it('快照恰好在一个压缩时段之前时仍可作为基线', () => {
+      const snapshots = [createSnapshot(PERIOD_START - COMPACT_INTERVAL, { currentTotalCost: 100 })];
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 20, partial: false });
+    });
+
+    it('周期开始前的快照过旧时不作为基线，按周期内首条快照估算并标记为不完整', () => {
+      // 周期开始时 VSCode 未运行：上一条快照在 3 天前，其后到周期开始前的费用不应计入本周期
+      const snapshots = [
+        createSnapshot(PERIOD_START - 3 * DAY, { currentTotalCost: 50 }),
+        createSnapshot(PERIOD_START + 2 * HOUR, { currentTotalCost: 100, currentDailyCost: 3 }),
+      ];
+
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 23, partial: true });
+    });
+
+    it('周期开始前的快照过旧且周期内没有快照时只统计当天费用', () => {
+      const snapshots = [createSnapshot(PERIOD_START - 2 * HOUR, { currentTotalCost: 50 })];
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 8, partial: true });
+    });
+
+    it('没有周期开始前的快照、首条快照在周期第一天时数据完整', () => {
+      const snapshots = [
+        createSnapshot(PERIOD_START + 2 * HOUR, { currentTotalCost: 100, currentDailyCost: 3 }),
+        createSnapshot(PERIOD_START + 3 * HOUR, { currentTotalCost: 110, currentDailyCost: 13 }),
+      ];
+
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 23, partial: false });
+    });
+
+    it('首条快照晚于周期第一天时标记为不完整', () => {
+      const snapshots = [createSnapshot(PERIOD_START + DAY + HOUR, { currentTotalCost: 100, currentDailyCost: 3 })];
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 120, 8, PERIOD_START), { spent: 23, partial: true });
+    });
+
+    it('没有快照时只统计当天费用', () => {
+      assert.deepStrictEqual(computePeriodSpend([], 120, 8, PERIOD_START), { spent: 8, partial: true });
+    });
+
+    it('累计费用小于基线（服务端重置）时不为负数', () => {
+      const snapshots = [createSnapshot(PERIOD_START - HOUR / 2, { currentTotalCost: 100 })];
+      assert.deepStrictEqual(computePeriodSpend(snapshots, 30, 8, PERIOD_START), { spent: 0, partial: false });
+    });
+  });
+});
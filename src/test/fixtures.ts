@@ -0,0 +1,42 @@
+/**
+ * 文件说明：测试数据
+ * 作用：构造测试用的用量快照和 API 响应，未指定的字段使用默认值
+ */
+
+import { LimitsData, RelayApiResponse, UsageSnapshot } from '../interfaces/types';
+import { createEmptyResponse } from '../services/providers/providerUtils';
+
+/**
+ * 构造用量快照
+ * @param timestamp - 快照时间戳
+ * @param values - 需要覆盖的费用字段
+ * @returns 快照（档案名称为"默认"）
+ */
+export function createSnapshot(
+  timestamp: number,
+  values: Partial<Pick<UsageSnapshot, 'currentDailyCost' | 'currentWindowCost' | 'weeklyOpusCost' | 'currentTotalCost'>> = {}
+): UsageSnapshot {
+  return {
+    timestamp,
+    profileName: '默认',
+    apiId: 'test-id',
+    currentDailyCost: 0,
+    currentWindowCost: 0,
+    weeklyOpusCost: 0,
+    currentTotalCost: 0,
+    total: { requests: 0, inputTokens: 0, outputTokens: 0, cacheCreateTokens: 0, cacheReadTokens: 0, allTokens: 0, cost: 0 },
+    models: [],
+    ...values,
+  };
+}
+
+/**
+ * 构造 API 响应
+ * @param limits - 需要覆盖的限制字段
+ * @returns API 响应（其余字段为默认值）
+ */
+export function createResponse(limits: Partial<LimitsData> = {}): RelayApiResponse {
+  const response = createEmptyResponse('test-id', 'test-key');
+  Object.assign(response.data.limits, limits);
+  return response;
+}
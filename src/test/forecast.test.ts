@@ -0,0 +1,129 @@
+/**
+ * 文件说明：消耗速度预测测试
+ */
+
+import * as assert from 'assert';
+import { computeForecasts, getEarliestExhaustion } from '../services/forecast';
+import { createResponse, createSnapshot } from './fixtures';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * 本地时间 2026-01-15 12:00（距离本地午夜 12 小时）
+ */
+const NOON = new Date(2026, 0, 15, 12, 0, 0, 0).getTime();
+
+describe('forecast', () => {
+  describe('computeForecasts', () => {
+    it('按采样计算速度，并在本地午夜前用尽时标记', () => {
+      const limits = createResponse({ currentDailyCost: 4, dailyCostLimit: 10 }).data.limits;
+      const snapshots = [createSnapshot(NOON - 30 * MINUTE, { currentDailyCost: 2 }), createSnapshot(NOON, { currentDailyCost: 4 })];
+
+      const [daily] = computeForecasts(snapshots, limits, NOON);
+
+      assert.strictEqual(daily.kind, 'daily');
+      assert.strictEqual(daily.ratePerHour, 4);
+      assert.strictEqual(daily.exhaustAt, NOON + 1.5 * HOUR);
+      assert.strictEqual(daily.resetAt, new Date(2026, 0, 16).getTime());
+      assert.strictEqual(daily.willExhaust, true);
+    });
+
+    it('按配置的 UTC 偏移计算每日重置时间', () => {
+      // UTC+8 的 23:30，30 分钟后重置，按当前速度 1.5 小时后才会用尽
+      const now = Date.UTC(2026, 0, 15, 15, 30);
+      const limits = createResponse({ currentDailyCost: 4, dailyCostLimit: 10 }).data.limits;
+      const snapshots = [createSnapshot(now - 30 * MINUTE, { currentDailyCost: 2 }), createSnapshot(now, { currentDailyCost: 4 })];
+
+      const [daily] = computeForecasts(snapshots, limits, now, 8);
+
+      assert.strictEqual(daily.resetAt, Date.UTC(2026, 0, 15, 16, 0));
+      assert.strictEqual(daily.willExhaust, false);
+    });
+
+    it('支持负数和非整点的 UTC 偏移', () => {
+      const now = Date.UTC(2026, 0, 15, 3, 0);
+      const limits = createResponse({ dailyCostLimit: 10 }).data.limits;
+
+      assert.strictEqual(computeForecasts([], limits, now, -5)[0].resetAt, Date.UTC(2026, 0, 15, 5, 0));
+      assert.strictEqual(computeForecasts([], limits, now, 5.5)[0].resetAt, Date.UTC(2026, 0, 15, 18, 30));
+    });
+
+    it('只使用最后一次重置之后的采样', () => {
+      const limits = createResponse({ currentDailyCost: 2, dailyCostLimit: 10 }).data.limits;
+      const snapshots = [
+        createSnapshot(NOON - 30 * MINUTE, { currentDailyCost: 8 }),
+        createSnapshot(NOON - 20 * MINUTE, { currentDailyCost: 9 }),
+        createSnapshot(NOON - 10 * MINUTE, { currentDailyCost: 1 }),
+        createSnapshot(NOON, { currentDailyCost: 2 }),
+      ];
+
+      assert.strictEqual(computeForecasts(snapshots, limits, NOON)[0].ratePerHour, 6);
+    });
+
+    it('采样跨度不足一分钟时不预测', () => {
+      const limits = createResponse({ currentDailyCost: 4, dailyCostLimit: 10 }).data.limits;
+      const snapshots = [createSnapshot(NOON - 30 * 1000, { currentDailyCost: 2 }), createSnapshot(NOON, { currentDailyCost: 4 })];
+
+      const [daily] = computeForecasts(snapshots, limits, NOON);
+
+      assert.strictEqual(daily.ratePerHour, 0);
+      assert.strictEqual(daily.exhaustAt, null);
+      assert.strictEqual(daily.willExhaust, false);
+    });
+
+    it('已经用尽时用尽时间为当前时间', () => {
+      const limits = createResponse({ currentDailyCost: 10, dailyCostLimit: 10 }).data.limits;
+      const [daily] = computeForecasts([], limits, NOON);
+
+      assert.strictEqual(daily.exhaustAt, NOON);
+      assert.strictEqual(daily.willExhaust, true);
+    });
+
+    it('窗口重置时间取自 windowEndTime，无法解析时视为未知', () => {
+      const windowEnd = NOON + 2 * HOUR;
+      const valid = createResponse({ rateLimitCost: 5, windowEndTime: new Date(windowEnd).toISOString() }).data.limits;
+      const invalid = createResponse({ rateLimitCost: 5, windowEndTime: 'invalid' }).data.limits;
+
+      assert.strictEqual(computeForecasts([], valid, NOON)[0].resetAt, windowEnd);
+      assert.strictEqual(computeForecasts([], invalid, NOON)[0].resetAt, null);
+    });
+
+    it('只包含已设置的限额', () => {
+      const limits = createResponse({ dailyCostLimit: 10, weeklyOpusCostLimit: 50 }).data.limits;
+      assert.deepStrictEqual(
+        computeForecasts([], limits, NOON).map((forecast) => forecast.kind),
+        ['daily', 'opus']
+      );
+    });
+  });
+
+  describe('getEarliestExhaustion', () => {
+    it('返回重置前会用尽且最早的一项', () => {
+      const limits = createResponse({
+        currentDailyCost: 4,
+        dailyCostLimit: 10,
+        currentWindowCost: 4,
+        rateLimitCost: 5,
+        windowEndTime: new Date(NOON + 5 * HOUR).toISOString(),
+        weeklyOpusCost: 50,
+        weeklyOpusCostLimit: 50,
+      }).data.limits;
+      const snapshots = [
+        createSnapshot(NOON - 30 * MINUTE, { currentDailyCost: 2, currentWindowCost: 3 }),
+        createSnapshot(NOON, { currentDailyCost: 4, currentWindowCost: 4 }),
+      ];
+
+      const forecasts = computeForecasts(snapshots, limits, NOON);
+
+      // Opus 已用尽（当前时间），早于每日（1.5 小时后）和窗口（30 分钟后）
+      assert.strictEqual(getEarliestExhaustion(forecasts)?.kind, 'opus');
+      assert.strictEqual(getEarliestExhaustion(forecasts.filter((forecast) => forecast.kind !== 'opus'))?.kind, 'window');
+    });
+
+    it('没有会用尽的项目时返回 undefined', () => {
+      const limits = createResponse({ dailyCostLimit: 10 }).data.limits;
+      assert.strictEqual(getEarliestExhaustion(computeForecasts([], limits, NOON)), undefined);
+    });
+  });
+});
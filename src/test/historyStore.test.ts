@@ -0,0 +1,89 @@
+/**
+ * 文件说明：历史存储测试（读取失败时不覆盖原有历史文件）
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { flushHistory, initializeHistoryStore, querySnapshots, recordSnapshot } from '../services/historyStore';
+import { createResponse, createSnapshot } from './fixtures';
+
+describe('historyStore', () => {
+  let storageDir: string;
+  let historyFile: string;
+
+  /**
+   * 在临时目录中初始化历史存储
+   */
+  function initialize(): void {
+    initializeHistoryStore({ globalStorageUri: { fsPath: storageDir } } as unknown as vscode.ExtensionContext);
+  }
+
+  /**
+   * 列出临时目录中的备份文件
+   * @returns 备份文件名列表
+   */
+  function listBackups(): string[] {
+    return fs.readdirSync(storageDir).filter((name) => name.endsWith('.bak'));
+  }
+
+  beforeEach(() => {
+    storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relay-meter-history-'));
+    historyFile = path.join(storageDir, 'usage-history.json');
+  });
+
+  afterEach(() => {
+    flushHistory();
+    fs.rmSync(storageDir, { recursive: true, force: true });
+  });
+
+  it('读取正常的历史文件', () => {
+    const snapshot = createSnapshot(Date.now() - 60 * 1000, { currentTotalCost: 12 });
+    fs.writeFileSync(historyFile, JSON.stringify({ version: 1, snapshots: [snapshot] }));
+
+    initialize();
+
+    assert.deepStrictEqual(querySnapshots({ profileName: '默认' }), [snapshot]);
+    assert.deepStrictEqual(listBackups(), []);
+  });
+
+  it('损坏的历史文件先备份，之后写入新历史也不会丢失原内容', () => {
+    const corrupted = '{"version":1,"snapshots":[{"timestamp":';
+    fs.writeFileSync(historyFile, corrupted);
+
+    initialize();
+    assert.deepStrictEqual(querySnapshots(), []);
+
+    const backups = listBackups();
+    assert.strictEqual(backups.length, 1);
+    assert.strictEqual(fs.readFileSync(path.join(storageDir, backups[0]), 'utf8'), corrupted);
+
+    recordSnapshot('默认', createResponse({ currentTotalCost: 5 }));
+    flushHistory();
+
+    const saved = JSON.parse(fs.readFileSync(historyFile, 'utf8'));
+    assert.strictEqual(saved.snapshots.length, 1);
+    assert.strictEqual(saved.snapshots[0].currentTotalCost, 5);
+    assert.strictEqual(fs.readFileSync(path.join(storageDir, backups[0]), 'utf8'), corrupted);
+  });
+
+  it('版本不兼容的历史文件（更新版本的插件写入）同样先备份', () => {
+    const newer = JSON.stringify({ version: 2, entries: [] });
+    fs.writeFileSync(historyFile, newer);
+
+    initialize();
+
+    const backups = listBackups();
+    assert.strictEqual(backups.length, 1);
+    assert.strictEqual(fs.readFileSync(path.join(storageDir, backups[0]), 'utf8'), newer);
+  });
+
+  it('历史文件不存在时从空历史开始，不产生备份', () => {
+    initialize();
+
+    assert.deepStrictEqual(querySnapshots(), []);
+    assert.deepStrictEqual(listBackups(), []);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * 文件说明：通用 JSON 数据源 JSONPath 读取测试
+ */
+
+import * as assert from 'assert';
+import { readJsonPath } from '../services/providers/jsonPathProvider';
+
+describe('jsonPathProvider', () => {
+  describe('readJsonPath', () => {
+    const source = {
+      data: {
+        quota: { used: 12.5, 'remain-total': 87.5 },
+        list: [{ cost: 1 }, { cost: 2 }],
+        empty: null,
+      },
+    };
+
+    it('读取点号路径', () => {
+      assert.strictEqual(readJsonPath(source, '$.data.quota.used'), 12.5);
+    });
+
+    it('读取数组下标和引号键名', () => {
+      assert.strictEqual(readJsonPath(source, '$.data.list[1].cost'), 2);
+      assert.strictEqual(readJsonPath(source, "$.data.quota['remain-total']"), 87.5);
+      assert.strictEqual(readJsonPath(source, '$["data"]["quota"]["used"]'), 12.5);
+    });
+
+    it('忽略首尾空白，$ 表示根对象', () => {
+      assert.strictEqual(readJsonPath(source, '  $.data.quota.used  '), 12.5);
+      assert.strictEqual(readJsonPath(source, '$'), source);
+    });
+
+    it('路径不存在时返回 undefined', () => {
+      assert.strictEqual(readJsonPath(source, '$.data.missing.value'), undefined);
+      assert.strictEqual(readJsonPath(source, '$.data.list[5].cost'), undefined);
+      assert.strictEqual(readJsonPath(source, '$.data.empty.value'), undefined);
+    });
+
+    it('保留路径末端的 null', () => {
+      assert.strictEqual(readJsonPath(source, '$.data.empty'), null);
+    });
+
+    it('不支持的语法返回 undefined', () => {
+      assert.strictEqual(readJsonPath(source, '$.data.list[*].cost'), undefined);
+      assert.strictEqual(readJsonPath(source, '$..cost'), undefined);
+      assert.strictEqual(readJsonPath(source, 'data.quota.used'), undefined);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * 文件说明：自适应轮询调度测试
+ */
+
+import * as assert from 'assert';
+import { createPollState, getNextPollDelay, recordPollFailure, recordPollSuccess } from '../services/pollScheduler';
+import { createResponse } from './fixtures';
+import { resetConfiguration, setConfiguration } from './vscodeMock';
+
+/**
+ * 断言延迟在抖动范围（±20%）内
+ * @param actual - 实际延迟（毫秒）
+ * @param expected - 不含抖动的延迟（毫秒）
+ */
+function assertWithinJitter(actual: number, expected: number): void {
+  assert.ok(actual >= expected * 0.8 && actual <= expected * 1.2, `${actual} 不在 ${expected} ±20% 范围内`);
+}
+
+describe('pollScheduler', () => {
+  afterEach(() => resetConfiguration());
+
+  it('没有特殊情况时使用档案的刷新间隔', () => {
+    assert.deepStrictEqual(getNextPollDelay(createPollState(), 60, createResponse()), { delayMs: 60000, reason: '正常间隔' });
+  });
+
+  it('关闭自适应轮询时始终使用固定间隔', () => {
+    setConfiguration({ 'relayMeter.adaptivePolling': false });
+    const state = createPollState();
+    recordPollFailure(state);
+
+    assert.deepStrictEqual(getNextPollDelay(state, 60), { delayMs: 60000, reason: '固定间隔' });
+  });
+
+  it('连续失败时指数退避，不超过最大间隔', () => {
+    const state = createPollState();
+
+    recordPollFailure(state);
+    assertWithinJitter(getNextPollDelay(state, 60).delayMs, 60000);
+
+    recordPollFailure(state);
+    recordPollFailure(state);
+    assertWithinJitter(getNextPollDelay(state, 60).delayMs, 240000);
+
+    for (let i = 0; i < 7; i++) {
+      recordPollFailure(state);
+    }
+    assertWithinJitter(getNextPollDelay(state, 60).delayMs, 900000);
+  });
+
+  it('成功后清除失败计数', () => {
+    const state = createPollState();
+    recordPollFailure(state);
+    recordPollSuccess(state, createResponse());
+
+    assert.strictEqual(state.consecutiveFailures, 0);
+    assert.strictEqual(getNextPollDelay(state, 60).reason, '正常间隔');
+  });
+
+  it('窗口即将重置时在重置后刷新', () => {
+    const data = createResponse({ rateLimitCost: 10, windowRemainingSeconds: 30 });
+    assert.strictEqual(getNextPollDelay(createPollState(), 60, data).delayMs, 32000);
+  });
+
+  it('窗口重置时间晚于刷新间隔时仍按刷新间隔', () => {
+    const data = createResponse({ rateLimitCost: 10, windowRemainingSeconds: 110 });
+    assert.strictEqual(getNextPollDelay(createPollState(), 60, data).delayMs, 60000);
+  });
+
+  it('用量达到阈值时加快刷新', () => {
+    const data = createResponse({ currentDailyCost: 95, dailyCostLimit: 100 });
+    const delay = getNextPollDelay(createPollState(), 60, data);
+
+    assert.strictEqual(delay.delayMs, 15000);
+    assert.strictEqual(delay.reason, '用量已达 95%，加快刷新');
+  });
+
+  it('阈值和快速间隔可配置', () => {
+    setConfiguration({ 'relayMeter.fastPollThreshold': 50, 'relayMeter.fastPollInterval': 20 });
+    const data = createResponse({ currentTotalCost: 60, totalCostLimit: 100 });
+
+    assert.strictEqual(getNextPollDelay(createPollState(), 60, data).delayMs, 20000);
+  });
+
+  it('用量连续无变化时逐步放慢，不超过最大间隔', () => {
+    const state = createPollState();
+    const data = createResponse();
+
+    recordPollSuccess(state, data);
+    recordPollSuccess(state, data);
+    recordPollSuccess(state, data);
+    assert.strictEqual(getNextPollDelay(state, 60, data).delayMs, 60000);
+
+    recordPollSuccess(state, data);
+    assert.strictEqual(state.idlePolls, 3);
+    assert.strictEqual(getNextPollDelay(state, 60, data).delayMs, 120000);
+
+    for (let i = 0; i < 10; i++) {
+      recordPollSuccess(state, data);
+    }
+    assert.strictEqual(getNextPollDelay(state, 60, data).delayMs, 900000);
+  });
+
+  it('用量变化后恢复正常间隔', () => {
+    const state = createPollState();
+    const data = createResponse();
+    for (let i = 0; i < 5; i++) {
+      recordPollSuccess(state, data);
+    }
+
+    const changed = createResponse();
+    changed.data.usage.total.requests = 1;
+    recordPollSuccess(state, changed);
+
+    assert.strictEqual(state.idlePolls, 0);
+    assert.strictEqual(getNextPollDelay(state, 60, changed).delayMs, 60000);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * 文件说明：中继响应校验测试
+ */
+
+import * as assert from 'assert';
+import { InvalidPayloadError } from '../services/apiErrors';
+import { normalizeRelayResponse } from '../services/responseValidator';
+import { createResponse } from './fixtures';
+
+/**
+ * 出现字段漂移时会请求 /health 检测版本，使用本机不可连接的地址让检测立即失败
+ */
+const API_URL = 'http://127.0.0.1:1';
+
+describe('responseValidator', () => {
+  describe('normalizeRelayResponse', () => {
+    it('完整的响应原样返回', () => {
+      const raw = createResponse({ currentDailyCost: 3.5, dailyCostLimit: 10 });
+      assert.deepStrictEqual(normalizeRelayResponse(JSON.parse(JSON.stringify(raw)), API_URL), raw);
+    });
+
+    it('success 不为 true、缺少 data 或用户标识时抛出 InvalidPayloadError', () => {
+      const invalid: unknown[] = [null, 'ok', { success: false, data: {} }, { success: true }, { success: true, data: { name: 'x' } }, { success: true, data: { id: '' } }];
+      for (const raw of invalid) {
+        assert.throws(() => normalizeRelayResponse(raw, API_URL), InvalidPayloadError);
+      }
+    });
+
+    it('缺失的字段填入默认值', () => {
+      const result = normalizeRelayResponse({ success: true, data: { id: 'abc', limits: { currentDailyCost: 2 } } }, API_URL);
+
+      assert.strictEqual(result.data.id, 'abc');
+      assert.strictEqual(result.data.name, '');
+      assert.strictEqual(result.data.limits.currentDailyCost, 2);
+      assert.strictEqual(result.data.limits.dailyCostLimit, 0);
+      assert.strictEqual(result.data.limits.windowEndTime, null);
+      assert.strictEqual(result.data.usage.total.requests, 0);
+      assert.deepStrictEqual(result.data.restrictions.restrictedModels, []);
+    });
+
+    it('字符串形式的数字转换为数字，无法转换时使用默认值', () => {
+      const raw = createResponse() as unknown as { data: { limits: Record<string, unknown>; usage: { total: Record<string, unknown> } } };
+      raw.data.limits.currentDailyCost = '1.25';
+      raw.data.limits.dailyCostLimit = 'abc';
+      raw.data.usage.total.requests = '';
+
+      const result = normalizeRelayResponse(raw, API_URL);
+
+      assert.strictEqual(result.data.limits.currentDailyCost, 1.25);
+      assert.strictEqual(result.data.limits.dailyCostLimit, 0);
+      assert.strictEqual(result.data.usage.total.requests, 0);
+    });
+
+    it('类型不符的对象、布尔和数组字段使用默认值', () => {
+      const raw = createResponse() as unknown as { data: Record<string, unknown> };
+      raw.data.limits = 'none';
+      raw.data.isActive = 'yes';
+      raw.data.restrictions = { restrictedModels: 'claude', allowedClients: ['cli', 1] };
+
+      const result = normalizeRelayResponse(raw, API_URL);
+
+      assert.strictEqual(result.data.limits.dailyCostLimit, 0);
+      assert.strictEqual(result.data.isActive, true);
+      assert.deepStrictEqual(result.data.restrictions.restrictedModels, []);
+      assert.deepStrictEqual(result.data.restrictions.allowedClients, ['cli']);
+    });
+
+    it('保留未知字段', () => {
+      const raw = createResponse() as unknown as { data: Record<string, unknown> };
+      raw.data.newField = { nested: 1 };
+
+      const result = normalizeRelayResponse(raw, API_URL) as unknown as { data: Record<string, unknown> };
+
+      assert.deepStrictEqual(result.data.newField, { nested: 1 });
+    });
+
+    it('按模型模板校验 usage.models，跳过没有模型名称的项', () => {
+      const raw = createResponse() as unknown as { data: { usage: Record<string, unknown> } };
+      raw.data.usage.models = [{ modelName: 'claude-sonnet', cost: '0.5' }, { cost: 1 }, 'x'];
+
+      const models = normalizeRelayResponse(raw, API_URL).data.usage.models || [];
+
+      assert.strictEqual(models.length, 1);
+      assert.strictEqual(models[0].modelName, 'claude-sonnet');
+      assert.strictEqual(models[0].cost, 0.5);
+      assert.strictEqual(models[0].requests, 0);
+    });
+
+    it('usage.models 不是数组时移除', () => {
+      const raw = createResponse() as unknown as { data: { usage: Record<string, unknown> } };
+      raw.data.usage.models = { modelName: 'claude' };
+
+      assert.strictEqual(normalizeRelayResponse(raw, API_URL).data.usage.models, undefined);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * 文件说明：状态栏文本模板测试
+ */
+
+import * as assert from 'assert';
+import { buildTemplateContext, renderTemplate, validateTemplate } from '../utils/statusBarTemplate';
+import { createResponse } from './fixtures';
+
+describe('statusBarTemplate', () => {
+  describe('validateTemplate', () => {
+    it('支持的占位符（含回退值）校验通过', () => {
+      const result = validateTemplate('日:${daily.used}/${daily.limit} ${opus.percent|无}% ${ profile }');
+      assert.deepStrictEqual(result, { valid: true, unknownPlaceholders: [] });
+    });
+
+    it('列出未知占位符且不重复', () => {
+      const result = validateTemplate('${daily.usd} ${daily.usd} ${foo|x}');
+      assert.deepStrictEqual(result, { valid: false, unknownPlaceholders: ['daily.usd', 'foo'] });
+    });
+
+    it('原型属性名不算有效占位符', () => {
+      assert.deepStrictEqual(validateTemplate('${constructor}${toString}').unknownPlaceholders, ['constructor', 'toString']);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('替换有值的占位符', () => {
+      assert.strictEqual(renderTemplate('日:${daily.used}/${daily.limit}', { 'daily.used': '$3.96', 'daily.limit': '$100' }), '日:$3.96/$100');
+    });
+
+    it('无数据时使用自定义回退值，否则使用 -', () => {
+      assert.strictEqual(renderTemplate('Opus:${opus.percent|无}% 窗口:${window.resetIn}', {}), 'Opus:无% 窗口:-');
+    });
+
+    it('允许空的回退值', () => {
+      assert.strictEqual(renderTemplate('[${name|}]', { name: undefined }), '[]');
+    });
+
+    it('上下文中的原型属性不会被当作值', () => {
+      assert.strictEqual(renderTemplate('${constructor}', {}), '-');
+    });
+  });
+
+  describe('buildTemplateContext', () => {
+    it('按限额生成费用、百分比和剩余值', () => {
+      const context = buildTemplateContext(createResponse({ currentDailyCost: 3.96, dailyCostLimit: 100 }), '工作');
+
+      assert.strictEqual(context['daily.used'], '$3.96');
+      assert.strictEqual(context['daily.limit'], '$100');
+      assert.strictEqual(context['daily.percent'], '3.96');
+      assert.strictEqual(context['daily.remaining'], '$96.04');
+      assert.strictEqual(context.profile, '工作');
+    });
+
+    it('未设置限额时 limit / percent / remaining 无数据', () => {
+      const context = buildTemplateContext(createResponse({ weeklyOpusCost: 5 }));
+
+      assert.strictEqual(context['opus.used'], '$5');
+      assert.strictEqual(context['opus.limit'], undefined);
+      assert.strictEqual(context['opus.percent'], undefined);
+      assert.strictEqual(context['opus.remaining'], undefined);
+      assert.strictEqual(renderTemplate('${opus.percent|无}', context), '无');
+    });
+
+    it('超出限额时剩余值为 0', () => {
+      const context = buildTemplateContext(createResponse({ currentDailyCost: 120, dailyCostLimit: 100 }));
+      assert.strictEqual(context['daily.remaining'], '$0');
+    });
+
+    it('窗口重置时间只在窗口有效时提供', () => {
+      const active = buildTemplateContext(createResponse({ rateLimitCost: 10, windowRemainingSeconds: 3660 }));
+      const expired = buildTemplateContext(createResponse({ rateLimitCost: 10, windowRemainingSeconds: 0 }));
+      const noLimit = buildTemplateContext(createResponse({ windowRemainingSeconds: 3660 }));
+
+      assert.strictEqual(active['window.resetIn'], '1小时1分');
+      assert.strictEqual(expired['window.resetIn'], undefined);
+      assert.strictEqual(noLimit['window.resetIn'], undefined);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * 文件说明：测试用 vscode 模块
+ * 作用：单元测试在 VSCode 之外运行（mocha --require 预先加载本文件），拦截 require('vscode')，
+ *       提供被测模块用到的最小 API；测试通过 setConfiguration 设置 relayMeter.* 等配置项
+ */
+
+import Module from 'module';
+
+/**
+ * 默认配置项（测试输出中不打印普通日志）
+ */
+const DEFAULT_CONFIGURATION: Record<string, unknown> = {
+  'relayMeter.enableLogging': false,
+};
+
+/**
+ * 配置项（完整键名 -> 值，例如 relayMeter.refreshInterval）
+ */
+const configuration = new Map<string, unknown>(Object.entries(DEFAULT_CONFIGURATION));
+
+/**
+ * 设置配置项
+ * @param values - 完整键名到值的映射
+ */
+export function setConfiguration(values: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(values)) {
+    configuration.set(key, value);
+  }
+}
+
+/**
+ * 恢复默认配置项（其余配置读取时返回各模块传入的默认值）
+ */
+export function resetConfiguration(): void {
+  configuration.clear();
+  setConfiguration(DEFAULT_CONFIGURATION);
+}
+
+/**
+ * 模拟 vscode.workspace.getConfiguration
+ * @param section - 配置节（例如 relayMeter）
+ * @returns 只在内存中读写的配置对象
+ */
+function getConfiguration(section?: string) {
+  const fullKey = (key: string) => (section ? `${section}.${key}` : key);
+
+  return {
+    get<T>(key: string, defaultValue?: T): T | undefined {
+      return configuration.has(fullKey(key)) ? (configuration.get(fullKey(key)) as T) : defaultValue;
+    },
+    has(key: string): boolean {
+      return configuration.has(fullKey(key));
+    },
+    inspect<T>(key: string): { key: string; globalValue?: T } {
+      return { key: fullKey(key), globalValue: configuration.get(fullKey(key)) as T | undefined };
+    },
+    async update(key: string, value: unknown): Promise<void> {
+      if (value === undefined) {
+        configuration.delete(fullKey(key));
+      } else {
+        configuration.set(fullKey(key), value);
+      }
+    },
+  };
+}
+
+/**
+ * 模拟 vscode.EventEmitter
+ */
+class EventEmitter<T> {
+  private listeners: ((data: T) => void)[] = [];
+
+  event = (listener: (data: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => (this.listeners = this.listeners.filter((item) => item !== listener)) };
+  };
+
+  fire(data: T): void {
+    this.listeners.forEach((listener) => listener(data));
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+/**
+ * 测试中使用的 vscode 模块
+ */
+const vscodeMock = {
+  workspace: {
+    getConfiguration,
+    workspaceFolders: undefined,
+    workspaceFile: undefined,
+    getWorkspaceFolder: () => undefined,
+  },
+  window: {
+    activeTextEditor: undefined,
+    createOutputChannel: () => ({ appendLine() {}, show() {}, clear() {}, dispose() {} }),
+  },
+  EventEmitter,
+  ConfigurationTarget: { Global: 1, Workspace: 2, WorkspaceFolder: 3 },
+};
+
+// 拦截 require('vscode')，其余模块照常加载
+const loader = Module as unknown as { _load: (request: string, parent: unknown, isMain: boolean) => unknown };
+const originalLoad = loader._load;
+loader._load = function (request: string, parent: unknown, isMain: boolean): unknown {
+  if (request === 'vscode') {
+    return vscodeMock;
+  }
+  return originalLoad.call(this, request, parent, isMain);
+};
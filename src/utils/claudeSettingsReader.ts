@@ -1,13 +1,16 @@
 /**
  * 文件说明：Claude Code settings.json 读取工具
- * 作用：从用户的 Claude Code 配置文件中读取 API 凭证信息
+ * 作用：按 Claude Code 的优先级合并用户、项目和项目本地配置文件，并按设置的来源优先级与环境变量、
+ *       工作区 .env 和 Shell 配置文件中的凭证合并，读取 API 凭证信息并记录每项配置的来源
  * @author sm
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import * as vscode from 'vscode';
 import { log } from './logger';
+import { getShellProfilePaths, readDotEnvFile, readProcessEnv, readShellProfiles } from './credentialSources';
 
 /**
  * Claude Code settings.json 的接口定义
@@ -15,16 +18,75 @@ import { log } from './logger';
 interface ClaudeSettingsJson {
   env?: {
     ANTHROPIC_AUTH_TOKEN?: string;
+    ANTHROPIC_API_KEY?: string;
     ANTHROPIC_BASE_URL?: string;
   };
 }
 
+/**
+ * 配置来源层级
+ * - user：用户配置（$CLAUDE_CONFIG_DIR/settings.json，默认 ~/.claude/settings.json）
+ * - project：项目共享配置（<工作区>/.claude/settings.json）
+ * - local：项目本地配置（<工作区>/.claude/settings.local.json，通常不提交到仓库）
+ * - processEnv：VSCode 进程的环境变量（path 为空）
+ * - dotenv：工作区 .env 文件
+ * - shellProfile：Shell 配置文件（~/.bashrc、~/.zshrc 等）
+ */
+export type ClaudeSettingsScope = 'user' | 'project' | 'local' | 'processEnv' | 'dotenv' | 'shellProfile';
+
+/**
+ * 各层级的显示名称
+ */
+export const CLAUDE_SETTINGS_SCOPE_LABELS: Record<ClaudeSettingsScope, string> = {
+  user: '用户配置',
+  project: '项目配置',
+  local: '项目本地配置',
+  processEnv: '进程环境变量',
+  dotenv: '工作区 .env',
+  shellProfile: 'Shell 配置文件',
+};
+
+/**
+ * 属于当前工作区的层级（文件内容随项目变化，只应作用于当前工作区）
+ */
+export const WORKSPACE_SCOPES: ClaudeSettingsScope[] = ['project', 'local', 'dotenv'];
+
+/**
+ * 凭证来源类型（relayMeter.credentialSources 的取值）
+ */
+export type CredentialSourceType = 'claudeSettings' | 'processEnv' | 'dotenv' | 'shellProfile';
+
+/**
+ * 默认的凭证来源优先级（从高到低）
+ */
+export const DEFAULT_CREDENTIAL_SOURCES: CredentialSourceType[] = ['claudeSettings', 'processEnv', 'dotenv', 'shellProfile'];
+
+/**
+ * 配置来源（配置文件或环境变量）
+ */
+export interface ClaudeSettingsFile {
+  scope: ClaudeSettingsScope;
+  path: string;
+}
+
 /**
  * 读取结果接口
  */
 export interface ClaudeSettingsResult {
   apiKey?: string;
   apiUrl?: string;
+  apiKeySource?: ClaudeSettingsFile;
+  apiUrlSource?: ClaudeSettingsFile;
+}
+
+/**
+ * 单个来源提供的凭证（用于合并和诊断）
+ */
+export interface CredentialCandidate {
+  source: ClaudeSettingsFile;
+  apiKey?: string;
+  apiKeyVariable?: string;
+  apiUrl?: string;
 }
 
 /**
@@ -48,81 +110,246 @@ function normalizeApiUrl(baseUrl: string): string {
 }
 
 /**
- * 获取 Claude Code settings.json 文件路径
- * @returns settings.json 的完整路径
+ * 获取 Claude Code 用户配置目录
+ * @returns 配置目录（优先使用环境变量 CLAUDE_CONFIG_DIR，默认 ~/.claude）
  */
-function getClaudeSettingsPath(): string {
-  // 获取用户主目录
-  const homeDir = os.homedir();
+function getClaudeConfigDir(): string {
+  const configDir = (process.env.CLAUDE_CONFIG_DIR || '').trim();
+  if (!configDir) {
+    return path.join(os.homedir(), '.claude');
+  }
+  return configDir.startsWith('~') ? path.join(os.homedir(), configDir.slice(1)) : configDir;
+}
 
-  // 构建 settings.json 路径：~/.claude/settings.json
-  return path.join(homeDir, '.claude', 'settings.json');
+/**
+ * 获取当前项目目录（活动编辑器所在的工作区文件夹，没有活动编辑器时使用第一个工作区文件夹）
+ * @returns 项目目录，没有打开工作区时返回 undefined
+ */
+export function getClaudeProjectDir(): string | undefined {
+  const activeUri = vscode.window.activeTextEditor?.document.uri;
+  const activeFolder = activeUri ? vscode.workspace.getWorkspaceFolder(activeUri) : undefined;
+  const folder = activeFolder || vscode.workspace.workspaceFolders?.[0];
+  return folder && folder.uri.scheme === 'file' ? folder.uri.fsPath : undefined;
 }
 
 /**
- * 从 Claude Code settings.json 读取配置
- * @returns 读取到的配置信息，如果读取失败则返回空对象
+ * 获取参与合并的配置文件列表（无论是否存在）
+ * @returns 配置文件列表，按优先级从低到高排列（与 Claude Code 一致：项目本地 > 项目 > 用户）；未信任的工作区只包含用户配置
  */
-export function readClaudeSettings(): ClaudeSettingsResult {
-  try {
-    const settingsPath = getClaudeSettingsPath();
+export function getClaudeSettingsFiles(): ClaudeSettingsFile[] {
+  const files: ClaudeSettingsFile[] = [{ scope: 'user', path: path.join(getClaudeConfigDir(), 'settings.json') }];
 
-    // 检查文件是否存在
-    if (!fs.existsSync(settingsPath)) {
-      log(`[Claude Settings] 配置文件不存在：${settingsPath}`);
-      return {};
-    }
+  // 受限模式（未信任的工作区）下不读取项目配置，避免打开的文件夹改写 API 地址并把 Key 发送到其他服务器
+  const projectDir = vscode.workspace.isTrusted ? getClaudeProjectDir() : undefined;
+  if (projectDir) {
+    files.push({ scope: 'project', path: path.join(projectDir, '.claude', 'settings.json') });
+    files.push({ scope: 'local', path: path.join(projectDir, '.claude', 'settings.local.json') });
+  }
 
-    // 读取文件内容
-    const fileContent = fs.readFileSync(settingsPath, 'utf8');
+  return files;
+}
 
-    // 解析 JSON
-    const settings: ClaudeSettingsJson = JSON.parse(fileContent);
+/**
+ * 获取可能提供凭证的所有文件（Claude Code 配置文件，以及已启用来源中的 .env 和 Shell 配置文件，无论是否存在）
+ * @returns 来源文件列表（用于文件监听）
+ */
+export function getCredentialFiles(): ClaudeSettingsFile[] {
+  const priority = getCredentialSourcePriority();
+  const files = priority.includes('claudeSettings') ? getClaudeSettingsFiles() : [];
 
-    // 提取配置
-    const result: ClaudeSettingsResult = {};
+  const projectDir = vscode.workspace.isTrusted ? getClaudeProjectDir() : undefined;
+  if (projectDir && priority.includes('dotenv')) {
+    files.push({ scope: 'dotenv', path: path.join(projectDir, '.env') });
+  }
+  if (priority.includes('shellProfile')) {
+    files.push(...getShellProfilePaths().map((filePath): ClaudeSettingsFile => ({ scope: 'shellProfile', path: filePath })));
+  }
 
-    if (settings.env) {
-      // 读取 API Key
-      if (settings.env.ANTHROPIC_AUTH_TOKEN) {
-        result.apiKey = settings.env.ANTHROPIC_AUTH_TOKEN;
-        log(`[Claude Settings] 读取到 API Key：${result.apiKey.substring(0, 10)}...`);
-      }
+  return files;
+}
+
+/**
+ * 获取配置文件的显示文本
+ * @param file - 配置文件
+ * @returns 例如"项目本地配置（/path/.claude/settings.local.json）"
+ */
+export function describeClaudeSettingsFile(file: ClaudeSettingsFile): string {
+  const label = CLAUDE_SETTINGS_SCOPE_LABELS[file.scope];
+  return file.path ? `${label}（${file.path}）` : label;
+}
+
+/**
+ * 获取读取结果中各项配置来源的显示文本
+ * @param result - 读取结果
+ * @returns 例如"API URL 来自 项目配置（...），API Key 来自 用户配置（...）"；两项来自同一文件时合并显示
+ */
+export function describeClaudeSettingsSources(result: ClaudeSettingsResult): string {
+  const { apiUrlSource, apiKeySource } = result;
+  if (apiUrlSource && apiKeySource && apiUrlSource.scope === apiKeySource.scope && apiUrlSource.path === apiKeySource.path) {
+    return describeClaudeSettingsFile(apiUrlSource);
+  }
+
+  const parts: string[] = [];
+  if (apiUrlSource) {
+    parts.push(`API URL 来自 ${describeClaudeSettingsFile(apiUrlSource)}`);
+  }
+  if (apiKeySource) {
+    parts.push(`API Key 来自 ${describeClaudeSettingsFile(apiKeySource)}`);
+  }
+  return parts.join('，');
+}
 
-      // 读取并处理 API URL
-      if (settings.env.ANTHROPIC_BASE_URL) {
-        const rawUrl = settings.env.ANTHROPIC_BASE_URL;
-        result.apiUrl = normalizeApiUrl(rawUrl);
-        log(`[Claude Settings] 读取到 API URL：${rawUrl} -> ${result.apiUrl}`);
+/**
+ * 检查读取结果是否有配置来自当前工作区
+ * @param result - 读取结果
+ * @returns API URL 或 API Key 来自项目配置、项目本地配置或工作区 .env 时返回 true
+ */
+export function isWorkspaceScoped(result: ClaudeSettingsResult): boolean {
+  return [result.apiUrlSource, result.apiKeySource].some((source) => !!source && WORKSPACE_SCOPES.includes(source.scope));
+}
+
+/**
+ * 获取凭证来源优先级
+ * @returns 来源列表，按优先级从高到低排列（未配置或配置无效时使用默认顺序）
+ */
+export function getCredentialSourcePriority(): CredentialSourceType[] {
+  const configured = vscode.workspace.getConfiguration('relayMeter').get<string[]>('credentialSources', DEFAULT_CREDENTIAL_SOURCES) || [];
+  const sources = configured.filter(
+    (source, index): source is CredentialSourceType =>
+      (DEFAULT_CREDENTIAL_SOURCES as string[]).includes(source) && configured.indexOf(source) === index
+  );
+  return sources.length > 0 ? sources : DEFAULT_CREDENTIAL_SOURCES;
+}
+
+/**
+ * 按来源优先级收集各来源提供的凭证
+ * @returns 凭证列表，按优先级从高到低排列（只包含提供了 API URL 或 API Key 的来源）
+ *
+ * claudeSettings 来源内部按 Claude Code 的规则排列：项目本地 > 项目 > 用户；
+ * shellProfile 来源内部按 Shell 加载顺序倒序排列（后加载的文件覆盖先加载的）
+ */
+export function collectCredentialCandidates(): CredentialCandidate[] {
+  const candidates: CredentialCandidate[] = [];
+
+  for (const sourceType of getCredentialSourcePriority()) {
+    switch (sourceType) {
+      case 'claudeSettings':
+        for (const file of getClaudeSettingsFiles().reverse()) {
+          const settings = readSettingsFile(file);
+          if (settings && settings.env) {
+            candidates.push(toCandidate(file, settings.env as Record<string, string | undefined>));
+          }
+        }
+        break;
+      case 'processEnv':
+        candidates.push(toCandidate({ scope: 'processEnv', path: '' }, readProcessEnv()));
+        break;
+      case 'dotenv': {
+        // 未信任的工作区不读取 .env
+        const projectDir = vscode.workspace.isTrusted ? getClaudeProjectDir() : undefined;
+        const dotEnv = projectDir ? readDotEnvFile(projectDir) : undefined;
+        if (dotEnv) {
+          candidates.push(toCandidate({ scope: 'dotenv', path: dotEnv.path }, dotEnv.variables));
+        }
+        break;
       }
+      case 'shellProfile':
+        for (const profile of readShellProfiles()) {
+          candidates.push(toCandidate({ scope: 'shellProfile', path: profile.path }, profile.variables));
+        }
+        break;
     }
+  }
 
-    if (Object.keys(result).length === 0) {
-      log('[Claude Settings] 配置文件存在但未包含有效的 API 配置');
-    } else {
-      log(`[Claude Settings] 配置读取成功，获得 ${Object.keys(result).length} 项配置`);
-    }
+  return candidates.filter((candidate) => candidate.apiKey || candidate.apiUrl);
+}
 
-    return result;
-  } catch (error) {
-    // 处理各种可能的错误
-    if (error instanceof SyntaxError) {
-      log(`[Claude Settings] JSON 解析失败：${error.message}`, true);
-    } else if (error instanceof Error) {
-      log(`[Claude Settings] 读取配置失败：${error.message}`, true);
-    } else {
-      log(`[Claude Settings] 读取配置失败：未知错误`, true);
+/**
+ * 读取 API 凭证（Claude Code 配置文件、环境变量、.env 和 Shell 配置文件）
+ * @returns 读取到的配置信息（按优先级合并），如果都没有读取到则返回空对象
+ *
+ * 合并规则：API URL 和 API Key 分别取优先级最高的来源中的值，因此两者可能来自不同的来源
+ */
+export function readClaudeSettings(): ClaudeSettingsResult {
+  const result: ClaudeSettingsResult = {};
+
+  for (const candidate of collectCredentialCandidates()) {
+    if (!result.apiKey && candidate.apiKey) {
+      result.apiKey = candidate.apiKey;
+      result.apiKeySource = candidate.source;
+      log(`[Claude Settings] 读取到 API Key：${result.apiKey.substring(0, 10)}...（${describeClaudeSettingsFile(candidate.source)}）`);
+    }
+    if (!result.apiUrl && candidate.apiUrl) {
+      result.apiUrl = candidate.apiUrl;
+      result.apiUrlSource = candidate.source;
+      log(`[Claude Settings] 读取到 API URL：${result.apiUrl}（${describeClaudeSettingsFile(candidate.source)}）`);
     }
+  }
 
-    return {};
+  if (!result.apiKey && !result.apiUrl) {
+    log('[Claude Settings] 所有凭证来源中均未包含有效的 API 配置');
+  } else {
+    log(`[Claude Settings] 配置读取成功：${describeClaudeSettingsSources(result)}`);
   }
+
+  return result;
 }
 
 /**
- * 检查 Claude Code settings.json 是否存在
+ * 检查是否存在任一 Claude Code 配置文件
  * @returns 如果存在返回 true，否则返回 false
  */
 export function hasClaudeSettings(): boolean {
-  const settingsPath = getClaudeSettingsPath();
-  return fs.existsSync(settingsPath);
+  return getClaudeSettingsFiles().some((file) => fs.existsSync(file.path));
+}
+
+/**
+ * 将来源中的变量转换为凭证（ANTHROPIC_AUTH_TOKEN 优先于 ANTHROPIC_API_KEY）
+ * @param source - 来源
+ * @param variables - 变量表
+ * @returns 凭证
+ */
+function toCandidate(source: ClaudeSettingsFile, variables: Record<string, string | undefined>): CredentialCandidate {
+  const candidate: CredentialCandidate = { source };
+
+  const keyVariable = ['ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_API_KEY'].find((name) => variables[name]);
+  if (keyVariable) {
+    candidate.apiKey = variables[keyVariable];
+    candidate.apiKeyVariable = keyVariable;
+  }
+  if (variables.ANTHROPIC_BASE_URL) {
+    candidate.apiUrl = normalizeApiUrl(variables.ANTHROPIC_BASE_URL);
+  }
+
+  return candidate;
+}
+
+/**
+ * 读取单个配置文件
+ * @param file - 配置文件
+ * @returns 解析后的配置，文件不存在或解析失败时返回 undefined
+ */
+function readSettingsFile(file: ClaudeSettingsFile): ClaudeSettingsJson | undefined {
+  try {
+    // 检查文件是否存在
+    if (!fs.existsSync(file.path)) {
+      log(`[Claude Settings] 配置文件不存在：${file.path}`);
+      return undefined;
+    }
+
+    // 读取并解析 JSON
+    const fileContent = fs.readFileSync(file.path, 'utf8');
+    return JSON.parse(fileContent) as ClaudeSettingsJson;
+  } catch (error) {
+    // 处理各种可能的错误
+    if (error instanceof SyntaxError) {
+      log(`[Claude Settings] JSON 解析失败（${file.path}）：${error.message}`, true);
+    } else if (error instanceof Error) {
+      log(`[Claude Settings] 读取配置失败（${file.path}）：${error.message}`, true);
+    } else {
+      log(`[Claude Settings] 读取配置失败（${file.path}）：未知错误`, true);
+    }
+
+    return undefined;
+  }
 }
@@ -1,22 +1,39 @@
 /**
  * 文件说明:Claude Settings 文件监听器
- * 作用:监听 ~/.claude/settings.json 文件变更,自动检测配置变更并提示用户
+ * 作用:监听用户、项目和项目本地的 Claude Settings 文件以及已启用的 .env、Shell 配置文件变更(切换工作区时同步切换),自动检测配置变更并提示用户
  * @author sm
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import * as vscode from 'vscode';
 import { log } from './logger';
-import { readClaudeSettings } from './claudeSettingsReader';
+import {
+  ClaudeSettingsResult,
+  describeClaudeSettingsSources,
+  getClaudeProjectDir,
+  getCredentialFiles,
+  isWorkspaceScoped,
+  readClaudeSettings,
+} from './claudeSettingsReader';
 import * as ConfigManager from './configManager';
+import { reviewConfigChange } from '../handlers/configReviewPanel';
 // import { t } from './i18n'; // i18n 已移除
 
 /**
- * 文件监听器实例
+ * 目录监听器实例(每个配置文件所在目录一个)
  */
-let fileWatcher: fs.FSWatcher | undefined;
+let fileWatchers: fs.FSWatcher[] = [];
+
+/**
+ * 工作区变化监听(切换项目时重新选择要监听的文件)
+ */
+let workspaceListeners: vscode.Disposable[] = [];
+
+/**
+ * 当前监听的项目目录
+ */
+let watchedProjectDir: string | undefined;
 
 /**
  * 防抖定时器
@@ -33,15 +50,6 @@ const DEBOUNCE_DELAY = 300;
  */
 let refreshCallback: (() => Promise<void>) | undefined;
 
-/**
- * 获取 Claude Settings 文件路径
- * @returns settings.json 的完整路径
- */
-function getClaudeSettingsPath(): string {
-  const homeDir = os.homedir();
-  return path.join(homeDir, '.claude', 'settings.json');
-}
-
 /**
  * 启动文件监听
  * @param onRefresh - 配置更新后的刷新回调函数(可选)
@@ -51,19 +59,19 @@ export function startWatching(onRefresh?: () => Promise<void>): void {
   refreshCallback = onRefresh;
 
   // 如果已经在监听,先停止
-  if (fileWatcher) {
+  if (isWatching()) {
     stopWatching();
   }
 
-  const settingsPath = getClaudeSettingsPath();
-  log(`[Settings Watcher] 尝试启动文件监听: ${settingsPath}`);
+  const files = getCredentialFiles();
+  log(`[Settings Watcher] 尝试启动文件监听: ${files.map((file) => file.path).join(', ')}`);
 
   // 检查文件是否存在
-  const fileExists = fs.existsSync(settingsPath);
-  log(`[Settings Watcher] 文件存在性检查: ${fileExists ? '文件存在' : '文件不存在'}`);
+  const existingFiles = files.filter((file) => fs.existsSync(file.path));
+  log(`[Settings Watcher] 文件存在性检查: ${existingFiles.length} / ${files.length} 个文件存在`);
 
-  if (!fileExists) {
-    const warningMsg = `Claude Settings 文件不存在: ${settingsPath}`;
+  if (existingFiles.length === 0) {
+    const warningMsg = `Claude Settings 文件不存在: ${files.map((file) => file.path).join(', ')}`;
     log(`[Settings Watcher] ${warningMsg}`, true);
 
     // 显示警告提示给用户
@@ -73,55 +81,91 @@ export function startWatching(onRefresh?: () => Promise<void>): void {
     return;
   }
 
-  try {
-    // 启动文件监听
-    fileWatcher = fs.watch(settingsPath, (eventType, filename) => {
-      log(`[Settings Watcher] 文件事件: type=${eventType}, file=${filename || 'unknown'}`);
-
-      // 同时处理 change 和 rename 事件
-      // macOS 等系统在使用原子写入保存文件时会触发 rename 事件
-      if (eventType === 'change' || eventType === 'rename') {
-        log('[Settings Watcher] 检测到文件变更');
-        handleFileChange();
+  // 监听配置文件所在目录(可以感知项目配置文件的新建和原子写入),只处理配置文件名
+  const fileNames = new Set(files.map((file) => path.basename(file.path)));
+  const directories = Array.from(new Set(files.map((file) => path.dirname(file.path)))).filter((dir) => fs.existsSync(dir));
+
+  for (const directory of directories) {
+    try {
+      const watcher = fs.watch(directory, (eventType, filename) => {
+        const name = filename ? filename.toString() : '';
+        if (name && !fileNames.has(name)) {
+          return;
+        }
+        log(`[Settings Watcher] 文件事件: type=${eventType}, file=${path.join(directory, name || 'unknown')}`);
+
+        // 同时处理 change 和 rename 事件
+        // macOS 等系统在使用原子写入保存文件时会触发 rename 事件
+        if (eventType === 'change' || eventType === 'rename') {
+          log('[Settings Watcher] 检测到文件变更');
+          handleFileChange();
+        }
+      });
+
+      // 添加错误事件监听器
+      watcher.on('error', (error) => {
+        log(`[Settings Watcher] 文件监听运行时错误: ${error.message}`, true);
+
+        // 显示错误提示
+        vscode.window.showErrorMessage(
+          `Claude Settings 文件监听出错: ${error.message}\n监听已自动停止。`
+        );
+
+        // 清理状态
+        stopWatching();
+      });
+
+      fileWatchers.push(watcher);
+    } catch (error) {
+      if (error instanceof Error) {
+        log(`[Settings Watcher] 启动文件监听失败(${directory}): ${error.message}`, true);
+
+        // 显示错误提示
+        vscode.window.showErrorMessage(
+          `无法启动 Claude Settings 文件监听: ${error.message}`
+        );
       }
-    });
-
-    // 添加错误事件监听器
-    fileWatcher.on('error', (error) => {
-      log(`[Settings Watcher] 文件监听运行时错误: ${error.message}`, true);
-
-      // 显示错误提示
-      vscode.window.showErrorMessage(
-        `Claude Settings 文件监听出错: ${error.message}\n监听已自动停止。`
-      );
+    }
+  }
 
-      // 清理状态
-      stopWatching();
-    });
+  if (!isWatching()) {
+    return;
+  }
 
-    log('[Settings Watcher] 文件监听已成功启动');
-  } catch (error) {
-    if (error instanceof Error) {
-      log(`[Settings Watcher] 启动文件监听失败: ${error.message}`, true);
+  // 切换工作区或在多根工作区中切换项目时,重新选择监听的文件并检查配置
+  watchedProjectDir = getClaudeProjectDir();
+  workspaceListeners = [
+    vscode.workspace.onDidChangeWorkspaceFolders(() => handleProjectChange()),
+    // 信任工作区后开始读取项目配置
+    vscode.workspace.onDidGrantWorkspaceTrust(() => handleProjectChange()),
+    vscode.window.onDidChangeActiveTextEditor(() => {
+      if (getClaudeProjectDir() !== watchedProjectDir) {
+        handleProjectChange();
+      }
+    }),
+  ];
 
-      // 显示错误提示
-      vscode.window.showErrorMessage(
-        `无法启动 Claude Settings 文件监听: ${error.message}`
-      );
-    }
-  }
+  log(`[Settings Watcher] 文件监听已成功启动(${directories.length} 个目录)`);
 }
 
 /**
  * 停止文件监听
  */
 export function stopWatching(): void {
-  if (fileWatcher) {
-    fileWatcher.close();
-    fileWatcher = undefined;
+  if (fileWatchers.length > 0) {
+    for (const watcher of fileWatchers) {
+      watcher.close();
+    }
+    fileWatchers = [];
     log('[Settings Watcher] 文件监听已停止');
   }
 
+  for (const listener of workspaceListeners) {
+    listener.dispose();
+  }
+  workspaceListeners = [];
+  watchedProjectDir = undefined;
+
   // 清理防抖定时器
   if (debounceTimer) {
     clearTimeout(debounceTimer);
@@ -129,6 +173,15 @@ export function stopWatching(): void {
   }
 }
 
+/**
+ * 当前项目变化:重新监听对应的配置文件,并按新的合并结果检查配置
+ */
+function handleProjectChange(): void {
+  log(`[Settings Watcher] 当前项目已切换: ${getClaudeProjectDir() || '无'}`);
+  startWatching(refreshCallback);
+  handleFileChange();
+}
+
 /**
  * 文件变更处理(防抖)
  */
@@ -163,6 +216,7 @@ async function checkAndHandleConfigChange(): Promise<void> {
       apiKey: claudeSettings.apiKey,
       apiUrl: claudeSettings.apiUrl
     };
+    log(`[Settings Watcher] 配置来源: ${describeClaudeSettingsSources(claudeSettings)}`);
 
     // 2. 获取当前 VSCode 设置中的配置
     const currentConfig = ConfigManager.getVSCodeConfig();
@@ -175,7 +229,7 @@ async function checkAndHandleConfigChange(): Promise<void> {
 
     // 4. 配置不同,提示用户选择
     log('[Settings Watcher] 检测到新的配置变更,准备提示用户');
-    await promptUserChoice(newConfig, currentConfig);
+    await promptUserChoice(newConfig, currentConfig, claudeSettings);
 
   } catch (error) {
     if (error instanceof Error) {
@@ -185,58 +239,57 @@ async function checkAndHandleConfigChange(): Promise<void> {
 }
 
 /**
- * 提示用户选择
+ * 在审阅面板中提示用户选择(非模态,面板中并排显示新旧配置并测试新凭证)
  * @param newConfig - 新配置
  * @param currentConfig - 当前配置
+ * @param claudeSettings - 读取结果(用于显示配置来源和自动应用判断)
  */
 async function promptUserChoice(
   newConfig: ConfigManager.Config,
-  currentConfig: ConfigManager.Config | null
+  currentConfig: ConfigManager.Config | null,
+  claudeSettings: ClaudeSettingsResult
 ): Promise<void> {
-  // 构建提示消息
-  const message = '检测到 ~/.claude/settings.json 配置变更:\n\n当前: API URL: ' + (currentConfig?.apiUrl || '无') + ' | Key: ' + ConfigManager.maskApiKey(currentConfig?.apiKey || '') + '\n新配置: API URL: ' + newConfig.apiUrl + ' | Key: ' + ConfigManager.maskApiKey(newConfig.apiKey) + '\n\n是否使用新配置?';
-
-  // 定义按钮
-  const useNewConfigButton = '使用新配置';
-  const keepCurrentConfigButton = '保持当前配置';
-  const openSettingsButton = '设置';
-
-  // 显示提示(立即弹出,不等待)
-  const choice = await vscode.window.showInformationMessage(
-    message,
-    { modal: false },
-    useNewConfigButton,
-    keepCurrentConfigButton,
-    openSettingsButton
-  );
+  const choice = await reviewConfigChange({
+    title: '检测到 Claude Settings 配置变更',
+    currentConfig,
+    newConfig,
+    profile: ConfigManager.getDefaultProfile(),
+    claudeSettings,
+    keepLabel: '保持当前配置并停止监听',
+  });
 
   // 处理用户选择
-  if (choice === useNewConfigButton) {
-    // 选择"使用新配置"
+  if (choice === 'apply') {
+    // 选择"使用新配置"(或来源已设为自动应用)
     log('[Settings Watcher] 用户选择:使用新配置');
-    await applyNewConfig(newConfig);
-  } else if (!choice || choice === keepCurrentConfigButton) {
-    // 用户关闭了提示框(Esc 或点击 X),或选择"保持当前配置"
+    await applyNewConfig(newConfig, claudeSettings);
+  } else if (choice === 'keep') {
+    // 选择"保持当前配置并停止监听"
     log('[Settings Watcher] 用户选择:保持当前配置并关闭监听');
     await disableWatching();
-  } else if (choice === openSettingsButton) {
+  } else if (choice === 'settings') {
     // 打开设置
     log('[Settings Watcher] 用户选择:打开设置');
     vscode.commands.executeCommand('workbench.action.openSettings', 'relayMeter');
+  } else {
+    // 关闭了审阅面板,或面板被新的变更替换
+    log('[Settings Watcher] 审阅面板已关闭,暂不处理本次变更');
   }
 }
 
 /**
  * 应用新配置
  * @param newConfig - 新配置
+ * @param claudeSettings - 读取结果（来自项目配置或工作区 .env 时只应用到当前工作区）
  */
-async function applyNewConfig(newConfig: ConfigManager.Config): Promise<void> {
+async function applyNewConfig(newConfig: ConfigManager.Config, claudeSettings: ClaudeSettingsResult): Promise<void> {
   try {
-    // 1. 更新 VSCode 设置
-    await ConfigManager.updateVSCodeConfig(newConfig.apiKey, newConfig.apiUrl);
+    // 1. 更新 VSCode 设置（API Key 写入安全存储）
+    const workspaceOnly = isWorkspaceScoped(claudeSettings);
+    await ConfigManager.updateVSCodeConfig(newConfig.apiKey, newConfig.apiUrl, workspaceOnly);
 
     // 2. 显示成功提示
-    vscode.window.showInformationMessage('配置已更新');
+    vscode.window.showInformationMessage(workspaceOnly ? '配置已更新（仅当前工作区）' : '配置已更新');
 
     log('[Settings Watcher] 新配置已应用');
 
@@ -279,5 +332,5 @@ async function disableWatching(): Promise<void> {
  * @returns 如果正在监听返回 true
  */
 export function isWatching(): boolean {
-  return fileWatcher !== undefined;
+  return fileWatchers.length > 0;
 }
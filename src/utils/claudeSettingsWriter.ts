@@ -0,0 +1,212 @@
+/**
+ * 文件说明：Claude Code settings.json 回写工具
+ * 作用：把插件中的中继配置写回 Claude Code 配置文件的 env.ANTHROPIC_BASE_URL / env.ANTHROPIC_AUTH_TOKEN，
+ *       只修改这两项并保留文件中的其他内容和格式，写入前生成备份并支持差异预览
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyEdits, FormattingOptions, modify, parse, ParseError, printParseErrorCode } from 'jsonc-parser';
+import * as vscode from 'vscode';
+import { UsageProviderType } from '../interfaces/types';
+import { log } from './logger';
+import { ClaudeSettingsFile, describeClaudeSettingsFile, getClaudeSettingsFiles } from './claudeSettingsReader';
+
+/**
+ * 差异预览使用的 URI scheme
+ */
+const PREVIEW_SCHEME = 'claude-relay-meter-preview';
+
+/**
+ * 写回时修改的变量
+ */
+const BASE_URL_VARIABLE = 'ANTHROPIC_BASE_URL';
+const AUTH_TOKEN_VARIABLE = 'ANTHROPIC_AUTH_TOKEN';
+
+/**
+ * 差异预览的内容（按预览 URI 的路径保存）
+ */
+const previewContents = new Map<string, string>();
+
+/**
+ * 回写计划
+ */
+export interface ClaudeSettingsWritePlan {
+  file: ClaudeSettingsFile;
+  originalContent: string | undefined;
+  newContent: string;
+  baseUrl: string;
+}
+
+/**
+ * 注册差异预览的内容提供器（插件激活时调用一次）
+ * @param context - VSCode 扩展上下文
+ */
+export function registerClaudeSettingsPreview(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(PREVIEW_SCHEME, {
+      provideTextDocumentContent: (uri) => previewContents.get(uri.path) || '',
+    })
+  );
+}
+
+/**
+ * 获取回写的目标文件
+ * @returns 项目配置（settings.json 或 settings.local.json）定义了 ANTHROPIC_BASE_URL 或 ANTHROPIC_AUTH_TOKEN 时为项目本地配置，否则为用户配置
+ *
+ * 项目配置会覆盖用户配置，此时写入优先级最高的项目本地配置才能生效；
+ * 项目共享配置（.claude/settings.json）通常会提交到版本库，不向其中写入 API Key
+ */
+export function getClaudeSettingsTarget(): ClaudeSettingsFile {
+  const files = getClaudeSettingsFiles();
+  const userFile = files.find((file) => file.scope === 'user') || files[0];
+  const localFile = files.find((file) => file.scope === 'local');
+
+  const overridden = files.some((file) => {
+    if (file.scope === 'user') {
+      return false;
+    }
+    const content = readFileIfExists(file.path);
+    const env = content === undefined ? undefined : getEnv(parse(content));
+    return !!env && (env[BASE_URL_VARIABLE] !== undefined || env[AUTH_TOKEN_VARIABLE] !== undefined);
+  });
+
+  return overridden && localFile ? localFile : userFile;
+}
+
+/**
+ * 生成回写计划（不写入文件）
+ * @param apiUrl - 插件中的 API 基础地址
+ * @param apiKey - API Key
+ * @param provider - 数据源类型（决定 ANTHROPIC_BASE_URL 是否带 /api 后缀）
+ * @returns 回写计划
+ * @throws {Error} 目标文件不是有效的 JSON 时抛出
+ */
+export function planClaudeSettingsUpdate(apiUrl: string, apiKey: string, provider: UsageProviderType): ClaudeSettingsWritePlan {
+  const file = getClaudeSettingsTarget();
+  const originalContent = readFileIfExists(file.path);
+  const baseContent = originalContent === undefined || originalContent.trim() === '' ? '{}\n' : originalContent;
+
+  const errors: ParseError[] = [];
+  const settings = parse(baseContent, errors);
+  if (errors.length > 0 || typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    const reason = errors.length > 0 ? printParseErrorCode(errors[0].error) : '根节点不是对象';
+    throw new Error(`${describeClaudeSettingsFile(file)} 不是有效的 JSON（${reason}），请先修复后重试`);
+  }
+
+  const baseUrl = toClaudeBaseUrl(apiUrl, getEnv(settings)?.[BASE_URL_VARIABLE], provider);
+  const formattingOptions = detectFormatting(baseContent);
+
+  let newContent = baseContent;
+  newContent = applyEdits(newContent, modify(newContent, ['env', BASE_URL_VARIABLE], baseUrl, { formattingOptions }));
+  newContent = applyEdits(newContent, modify(newContent, ['env', AUTH_TOKEN_VARIABLE], apiKey, { formattingOptions }));
+
+  return { file, originalContent, newContent, baseUrl };
+}
+
+/**
+ * 在差异编辑器中预览回写内容
+ * @param plan - 回写计划
+ */
+export async function previewClaudeSettingsUpdate(plan: ClaudeSettingsWritePlan): Promise<void> {
+  const previewPath = `/${path.basename(plan.file.path)}`;
+  const before = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: previewPath, query: 'before' });
+  const after = vscode.Uri.from({ scheme: PREVIEW_SCHEME, path: `${previewPath}.new`, query: 'after' });
+
+  previewContents.set(before.path, plan.originalContent || '');
+  previewContents.set(after.path, plan.newContent);
+
+  await vscode.commands.executeCommand(
+    'vscode.diff',
+    before,
+    after,
+    `${path.basename(plan.file.path)}（${describeClaudeSettingsFile(plan.file)}）↔ 写入后`,
+    { preview: true }
+  );
+}
+
+/**
+ * 执行回写：先备份原文件，再写入新内容
+ * @param plan - 回写计划
+ * @returns 备份文件路径，原文件不存在时返回 undefined
+ * @throws {Error} 生成计划后文件被修改或写入失败时抛出
+ */
+export function applyClaudeSettingsUpdate(plan: ClaudeSettingsWritePlan): string | undefined {
+  const filePath = plan.file.path;
+
+  if (readFileIfExists(filePath) !== plan.originalContent) {
+    throw new Error(`${describeClaudeSettingsFile(plan.file)} 在预览后已被修改，请重新执行`);
+  }
+
+  let backupPath: string | undefined;
+  if (plan.originalContent !== undefined) {
+    backupPath = `${filePath}.bak`;
+    fs.writeFileSync(backupPath, plan.originalContent, 'utf8');
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  // 先写临时文件再重命名，避免 Claude Code 读到写了一半的文件
+  const tempPath = `${filePath}.tmp-${process.pid}`;
+  fs.writeFileSync(tempPath, plan.newContent, 'utf8');
+  fs.renameSync(tempPath, filePath);
+
+  log(`[Claude Settings] 已写入 ${describeClaudeSettingsFile(plan.file)}：${BASE_URL_VARIABLE}=${plan.baseUrl}${backupPath ? `，备份：${backupPath}` : ''}`);
+  return backupPath;
+}
+
+/**
+ * 将插件中的 API 地址转换为 Claude Code 使用的 ANTHROPIC_BASE_URL
+ * @param apiUrl - 插件中的 API 基础地址（读取时已移除末尾的 /api）
+ * @param existing - 配置文件中现有的 ANTHROPIC_BASE_URL
+ * @param provider - 数据源类型
+ * @returns ANTHROPIC_BASE_URL
+ *
+ * 现有值带 /api 后缀时保持该写法；没有现有值时，relay 数据源（Claude Relay Service 的 Claude 接口位于 /api）补上 /api
+ */
+function toClaudeBaseUrl(apiUrl: string, existing: unknown, provider: UsageProviderType): string {
+  const base = apiUrl.trim().replace(/\/+$/, '');
+  const existingUrl = typeof existing === 'string' ? existing.trim() : '';
+  const match = /(\/api)\/*$/i.exec(existingUrl);
+
+  if (existingUrl) {
+    return match ? `${base}${match[1]}` : base;
+  }
+  return provider === 'relay' ? `${base}/api` : base;
+}
+
+/**
+ * 检测文件的缩进和换行风格
+ * @param content - 文件内容
+ * @returns jsonc-parser 格式化选项
+ */
+function detectFormatting(content: string): FormattingOptions {
+  const indent = /^([ \t]+)\S/m.exec(content)?.[1] || '  ';
+  return {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol: content.includes('\r\n') ? '\r\n' : '\n',
+  };
+}
+
+/**
+ * 获取配置中的 env 对象
+ * @param settings - 解析后的配置
+ * @returns env 对象，不存在或不是对象时返回 undefined
+ */
+function getEnv(settings: unknown): Record<string, unknown> | undefined {
+  if (typeof settings !== 'object' || settings === null) {
+    return undefined;
+  }
+  const env = (settings as Record<string, unknown>).env;
+  return typeof env === 'object' && env !== null && !Array.isArray(env) ? (env as Record<string, unknown>) : undefined;
+}
+
+/**
+ * 读取文件内容
+ * @param filePath - 文件路径
+ * @returns 文件内容，不存在时返回 undefined
+ */
+function readFileIfExists(filePath: string): string | undefined {
+  return fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : undefined;
+}
@@ -1,11 +1,69 @@
 /**
  * 文件说明:配置管理器
- * 作用:统一管理 VSCode 设置中的配置
+ * 作用:统一管理 VSCode 设置中的配置,API Key / API ID 保存在 SecretStorage 中
  * @author sm
  */
 
+import * as crypto from 'crypto';
 import * as vscode from 'vscode';
 import { log } from './logger';
+import { RelayProfile, UsageProviderType } from '../interfaces/types';
+
+/**
+ * 未配置 profiles 时使用的默认档案名称
+ */
+export const DEFAULT_PROFILE_NAME = '默认';
+
+/**
+ * 凭证字段
+ */
+export type CredentialField = 'apiKey' | 'apiId';
+
+/**
+ * 凭证字段列表
+ */
+const CREDENTIAL_FIELDS: CredentialField[] = ['apiKey', 'apiId'];
+
+/**
+ * 记录用户选择把明文凭证保留在工作区设置中的 workspaceState 键名
+ */
+const KEEP_WORKSPACE_CREDENTIALS_KEY = 'relayMeter.keepWorkspaceCredentials';
+
+/**
+ * 从项目 Claude Settings 应用到当前工作区的 API URL 的 workspaceState 键名
+ */
+const WORKSPACE_API_URL_KEY = 'relayMeter.workspaceApiUrl';
+
+/**
+ * 安全存储实例
+ */
+let secretStorage: vscode.SecretStorage | undefined;
+
+/**
+ * 工作区状态（记录用户对工作区凭证迁移的选择）
+ */
+let workspaceState: vscode.Memento | undefined;
+
+/**
+ * 是否正在询问用户迁移工作区凭证（避免重复弹出）
+ */
+let workspacePromptPending = false;
+
+/**
+ * 是否已提示过文件夹设置中的凭证（每个会话只提示一次）
+ */
+let folderCredentialsWarned = false;
+
+/**
+ * 已读取的凭证缓存(安全存储键 -> 值),保证配置读取保持同步调用
+ */
+const secretCache = new Map<string, string>();
+
+/**
+ * 凭证变更事件(其他窗口修改安全存储时触发)
+ */
+const credentialChangeEmitter = new vscode.EventEmitter<void>();
+export const onDidChangeCredentials = credentialChangeEmitter.event;
 
 /**
  * 配置接口
@@ -20,10 +78,9 @@ export interface Config {
  * @returns 配置对象,如果未配置返回 null
  */
 export function getVSCodeConfig(): Config | null {
-  const config = vscode.workspace.getConfiguration('relayMeter');
-  const apiKey = config.get<string>('apiKey') || '';
-  const apiId = config.get<string>('apiId') || '';
-  const apiUrl = config.get<string>('apiUrl') || '';
+  const apiKey = getCredential(undefined, 'apiKey');
+  const apiId = getCredential(undefined, 'apiId');
+  const apiUrl = getApiUrl();
 
   // 优先使用 apiId,如果没有则使用 apiKey
   const effectiveKey = apiId || apiKey;
@@ -40,16 +97,56 @@ export function getVSCodeConfig(): Config | null {
 
 /**
  * 更新 VSCode 设置中的配置
- * @param apiKey - API Key 或 API ID
- * @param apiUrl - API URL
+ * @param apiKey - API Key 或 API ID（写入安全存储），为空时不修改
+ * @param apiUrl - API URL，为空时不修改
+ * @param workspaceOnly - 是否只对当前工作区生效（配置来自项目 Claude Settings 或工作区 .env 时）
+ *
+ * 说明：
+ * - 全局：API Key 写入全局安全存储，API URL 写入用户设置，所有窗口生效；同时清除当前工作区之前应用的项目配置
+ * - 仅当前工作区：API Key 写入以工作区区分的安全存储，API URL 保存在 workspaceState，
+ *   不修改用户设置和 .vscode/settings.json，其他窗口不受影响
  */
-export async function updateVSCodeConfig(apiKey: string, apiUrl: string): Promise<void> {
-  const config = vscode.workspace.getConfiguration('relayMeter');
+export async function updateVSCodeConfig(apiKey: string, apiUrl: string, workspaceOnly = false): Promise<void> {
+  const workspaceKey = getWorkspaceSecretKey('apiKey');
+  const workspaceIdKey = getWorkspaceSecretKey('apiId');
+
+  if (workspaceOnly && workspaceKey && workspaceIdKey && workspaceState) {
+    if (apiKey) {
+      await storeSecret(workspaceKey, apiKey);
+      // 同一工作区层级中 API ID 优先，清除后新 Key 才能生效
+      await storeSecret(workspaceIdKey, '');
+    }
+    if (apiUrl) {
+      await workspaceState.update(WORKSPACE_API_URL_KEY, apiUrl);
+    }
+    log(`[Config Manager] 当前工作区配置已更新: URL=${apiUrl || '(未修改)'}, Key=${apiKey ? maskApiKey(apiKey) : '(未修改)'}`);
+    return;
+  }
+
+  if (apiKey) {
+    await storeSecret(getSecretKey(undefined, 'apiKey'), apiKey);
+  }
+  if (apiUrl) {
+    await vscode.workspace.getConfiguration('relayMeter').update('apiUrl', apiUrl, vscode.ConfigurationTarget.Global);
+  }
+
+  // 之前应用到当前工作区的项目配置会遮盖全局配置，一并清除
+  if (workspaceState?.get<string>(WORKSPACE_API_URL_KEY) && workspaceKey && workspaceIdKey) {
+    await workspaceState.update(WORKSPACE_API_URL_KEY, undefined);
+    await storeSecret(workspaceKey, '');
+    await storeSecret(workspaceIdKey, '');
+    log('[Config Manager] 已清除当前工作区的项目配置');
+  }
 
-  await config.update('apiKey', apiKey, true);
-  await config.update('apiUrl', apiUrl, true);
+  log(`[Config Manager] VSCode 设置已更新: URL=${apiUrl || '(未修改)'}, Key=${apiKey ? maskApiKey(apiKey) : '(未修改)'}`);
+}
 
-  log(`[Config Manager] VSCode 设置已更新: URL=${apiUrl}, Key=${maskApiKey(apiKey)}`);
+/**
+ * 获取顶层配置的 API URL
+ * @returns 当前工作区应用的项目配置优先，其次为 VSCode 设置
+ */
+export function getApiUrl(): string {
+  return workspaceState?.get<string>(WORKSPACE_API_URL_KEY) || vscode.workspace.getConfiguration('relayMeter').get<string>('apiUrl') || '';
 }
 
 /**
@@ -60,6 +157,486 @@ export function hasConfig(): boolean {
   return getVSCodeConfig() !== null;
 }
 
+/**
+ * 获取所有中继配置档案
+ * @returns 档案列表；未配置 relayMeter.profiles 时返回由顶层设置构成的默认档案
+ *
+ * 说明：
+ * - 档案中未填写的 refreshInterval 使用全局 relayMeter.refreshInterval
+ * - 档案中未填写的 provider 使用全局 relayMeter.provider
+ * - 名称重复或为空的档案会被跳过
+ */
+export function getProfiles(): RelayProfile[] {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const globalInterval = Math.max(config.get<number>('refreshInterval', 60), 10);
+  const rawProfiles = config.get<Partial<RelayProfile>[]>('profiles', []);
+  const globalProvider = config.get<UsageProviderType>('provider', 'relay');
+
+  const profiles: RelayProfile[] = [];
+  const seenNames = new Set<string>();
+
+  for (const raw of rawProfiles || []) {
+    const name = (raw.name || '').trim();
+    if (!name || seenNames.has(name)) {
+      log(`[Config Manager] 跳过无效或重复的档案: ${name || '(未命名)'}`, true);
+      continue;
+    }
+    seenNames.add(name);
+
+    const id = (raw.id || '').trim() || undefined;
+    profiles.push({
+      id,
+      name,
+      apiUrl: raw.apiUrl || '',
+      apiId: raw.apiId || getStoredCredential({ id, name }, 'apiId'),
+      apiKey: raw.apiKey || getStoredCredential({ id, name }, 'apiKey'),
+      refreshInterval: Math.max(raw.refreshInterval || globalInterval, 10),
+      provider: raw.provider || globalProvider,
+      jsonPath: raw.jsonPath,
+    });
+  }
+
+  if (profiles.length > 0) {
+    return profiles;
+  }
+
+  // 未配置档案时，使用顶层设置作为默认档案（兼容旧版配置）
+  return [getDefaultProfile()];
+}
+
+/**
+ * 获取由顶层设置构成的默认档案（Claude Settings 中的配置应用到顶层设置）
+ * @returns 默认档案（数据源为全局 relayMeter.provider，通用 JSON 数据源使用全局 relayMeter.jsonPathProvider）
+ */
+export function getDefaultProfile(): RelayProfile {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return {
+    name: DEFAULT_PROFILE_NAME,
+    apiUrl: getApiUrl(),
+    apiId: getCredential(undefined, 'apiId'),
+    apiKey: getCredential(undefined, 'apiKey'),
+    refreshInterval: Math.max(config.get<number>('refreshInterval', 60), 10),
+    provider: config.get<UsageProviderType>('provider', 'relay'),
+  };
+}
+
+/**
+ * 凭证所属的档案（undefined 表示顶层配置）
+ */
+export type CredentialOwner = Pick<RelayProfile, 'id' | 'name'> | undefined;
+
+/**
+ * 初始化安全存储：迁移明文凭证并加载凭证缓存
+ * @param context - VSCode 扩展上下文
+ */
+export async function initializeSecrets(context: vscode.ExtensionContext): Promise<void> {
+  secretStorage = context.secrets;
+  workspaceState = context.workspaceState;
+
+  // 其他窗口修改凭证时同步缓存
+  context.subscriptions.push(
+    context.secrets.onDidChange(async (event) => {
+      if (!event.key.startsWith('relayMeter.')) {
+        return;
+      }
+      // 其他工作区的凭证与本窗口无关
+      if (
+        event.key.startsWith('relayMeter.workspace.') &&
+        !CREDENTIAL_FIELDS.some((field) => getWorkspaceSecretKey(field) === event.key)
+      ) {
+        return;
+      }
+      const value = (await context.secrets.get(event.key)) || '';
+      if ((secretCache.get(event.key) || '') !== value) {
+        setCachedSecret(event.key, value);
+        log(`[Config Manager] 凭证已在其他窗口更新: ${event.key}`);
+        credentialChangeEmitter.fire();
+      }
+    }),
+    credentialChangeEmitter
+  );
+
+  await migrateCredentialsToSecrets();
+  await loadSecrets();
+}
+
+/**
+ * 加载顶层配置、当前工作区和所有档案的凭证到缓存
+ */
+export async function loadSecrets(): Promise<void> {
+  if (!secretStorage) {
+    return;
+  }
+
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const owners: CredentialOwner[] = [undefined];
+  for (const profile of config.get<Partial<RelayProfile>[]>('profiles', []) || []) {
+    const name = (profile.name || '').trim();
+    if (name) {
+      owners.push({ id: (profile.id || '').trim() || undefined, name });
+    }
+  }
+
+  const keys: string[] = [];
+  for (const field of CREDENTIAL_FIELDS) {
+    keys.push(...owners.map((owner) => getSecretKey(owner, field)));
+    const workspaceKey = getWorkspaceSecretKey(field);
+    if (workspaceKey) {
+      keys.push(workspaceKey);
+    }
+  }
+
+  for (const key of keys) {
+    setCachedSecret(key, (await secretStorage.get(key)) || '');
+  }
+
+  log(`[Config Manager] 已加载 ${secretCache.size} 项安全存储凭证`);
+}
+
+/**
+ * 获取凭证
+ * @param owner - 凭证所属的档案（undefined 表示顶层配置）
+ * @param field - 凭证字段
+ * @returns 凭证值，不存在时返回空字符串
+ *
+ * 顶层凭证按层级读取：当前工作区（安全存储 > 工作区设置中的明文）有任一凭证时只使用该层级，
+ * 否则使用全局（安全存储 > 用户设置中尚未迁移的明文），避免全局 API ID 遮盖当前工作区的 API Key
+ */
+export function getCredential(owner: CredentialOwner, field: CredentialField): string {
+  if (owner) {
+    return getStoredCredential(owner, field);
+  }
+
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const readWorkspace = (f: CredentialField): string => {
+    const workspaceKey = getWorkspaceSecretKey(f);
+    return (workspaceKey && secretCache.get(workspaceKey)) || config.inspect<string>(f)?.workspaceValue || '';
+  };
+  if (CREDENTIAL_FIELDS.some((f) => readWorkspace(f))) {
+    return readWorkspace(field);
+  }
+  return getStoredCredential(undefined, field) || config.inspect<string>(field)?.globalValue || '';
+}
+
+/**
+ * 保存凭证到安全存储
+ * @param owner - 凭证所属的档案（undefined 表示顶层配置）
+ * @param field - 凭证字段
+ * @param value - 凭证值，为空时删除
+ *
+ * 当前工作区已有自己的顶层凭证时，顶层凭证保存到当前工作区的安全存储，不影响其他工作区
+ */
+export async function storeCredential(owner: CredentialOwner, field: CredentialField, value: string): Promise<void> {
+  if (!secretStorage) {
+    throw new Error('安全存储尚未初始化');
+  }
+
+  const workspaceKey = getWorkspaceSecretKey(field);
+  const hasWorkspaceCredential =
+    !!workspaceKey &&
+    (!!secretCache.get(workspaceKey) ||
+      vscode.workspace.getConfiguration('relayMeter').inspect<string>(field)?.workspaceValue !== undefined);
+
+  await storeSecret(!owner && hasWorkspaceCredential && workspaceKey ? workspaceKey : getSecretKey(owner, field), value);
+}
+
+/**
+ * 将设置中的明文凭证迁移到安全存储
+ * @returns 迁移的凭证数量
+ *
+ * 迁移范围：
+ * - 用户设置中的顶层 relayMeter.apiKey / relayMeter.apiId：迁移到全局安全存储并从用户设置中移除
+ * - 用户设置中的 relayMeter.profiles：补全档案 id，凭证按 id 保存到安全存储
+ * - 工作区设置中的凭证：征得用户同意后迁移到仅当前工作区使用的安全存储（不会覆盖全局凭证），用户选择保留时继续读取明文
+ * - 文件夹设置中的凭证：插件不读取（这些设置只能在用户和工作区设置中配置），只提示用户手动移除
+ */
+export async function migrateCredentialsToSecrets(): Promise<number> {
+  if (!secretStorage) {
+    return 0;
+  }
+
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  let migrated = 0;
+
+  // 1. 用户设置中的顶层凭证
+  for (const field of CREDENTIAL_FIELDS) {
+    const value = config.inspect<string>(field)?.globalValue;
+    if (value === undefined) {
+      continue;
+    }
+    if (value) {
+      await storeSecret(getSecretKey(undefined, field), value);
+      migrated++;
+    }
+    await config.update(field, undefined, vscode.ConfigurationTarget.Global);
+  }
+
+  // 2. 用户设置中的档案
+  migrated += await migrateProfiles(vscode.ConfigurationTarget.Global);
+
+  if (migrated > 0) {
+    log(`[Config Manager] 已将 ${migrated} 项明文凭证迁移到安全存储`);
+    vscode.window.showInformationMessage(
+      `Claude Relay Meter: 已将 ${migrated} 项 API Key / API ID 从设置迁移到安全存储`
+    );
+  }
+
+  // 3. 工作区设置会被提交到版本库，修改前先询问用户（不阻塞刷新流程）
+  if (hasWorkspaceCredentials()) {
+    void promptWorkspaceMigration();
+  }
+  warnFolderCredentials();
+
+  return migrated;
+}
+
+/**
+ * 迁移指定设置范围中的档案：补全 id，并把明文凭证按 id 保存到安全存储
+ * @param target - 设置范围（用户或工作区）
+ * @returns 迁移的凭证数量
+ *
+ * 凭证按档案 id 而不是名称保存，重命名档案不会丢失凭证；没有 id 的旧档案在补全 id 时一并转移按名称保存的凭证
+ */
+async function migrateProfiles(target: vscode.ConfigurationTarget): Promise<number> {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  const inspected = config.inspect<Partial<RelayProfile>[]>('profiles');
+  const profiles = target === vscode.ConfigurationTarget.Global ? inspected?.globalValue : inspected?.workspaceValue;
+  if (!profiles) {
+    return 0;
+  }
+
+  const seenIds = new Set<string>();
+  const updated: Partial<RelayProfile>[] = [];
+  let migrated = 0;
+  let changed = false;
+
+  for (const profile of profiles) {
+    const name = (profile.name || '').trim();
+    if (!name) {
+      // 未命名档案无法关联安全存储，保持原样
+      updated.push(profile);
+      continue;
+    }
+
+    const { apiKey, apiId, ...rest } = profile;
+    let id = (profile.id || '').trim();
+    if (!id || seenIds.has(id)) {
+      // 新档案，或复制档案时带过来的重复 id
+      const legacy = !id;
+      id = crypto.randomUUID();
+      if (legacy) {
+        await moveLegacySecrets(name, id);
+      }
+      changed = true;
+    }
+    seenIds.add(id);
+
+    const values: [CredentialField, string | undefined][] = [
+      ['apiKey', apiKey],
+      ['apiId', apiId],
+    ];
+    for (const [field, value] of values) {
+      if (value) {
+        await storeSecret(getSecretKey({ id, name }, field), value);
+        migrated++;
+      }
+      if (value !== undefined) {
+        changed = true;
+      }
+    }
+
+    updated.push({ ...rest, id });
+  }
+
+  if (changed) {
+    await config.update('profiles', updated, target);
+  }
+  return migrated;
+}
+
+/**
+ * 将按档案名称保存的旧凭证转移到档案 id 下
+ * @param name - 档案名称
+ * @param id - 档案 id
+ */
+async function moveLegacySecrets(name: string, id: string): Promise<void> {
+  if (!secretStorage) {
+    return;
+  }
+  for (const field of CREDENTIAL_FIELDS) {
+    const legacyKey = getSecretKey({ name }, field);
+    const value = await secretStorage.get(legacyKey);
+    if (value) {
+      await storeSecret(getSecretKey({ id, name }, field), value);
+      await storeSecret(legacyKey, '');
+    }
+  }
+}
+
+/**
+ * 检查工作区设置中是否有明文凭证
+ * @returns 有顶层或档案明文凭证时返回 true
+ */
+function hasWorkspaceCredentials(): boolean {
+  const config = vscode.workspace.getConfiguration('relayMeter');
+  return (
+    CREDENTIAL_FIELDS.some((field) => config.inspect<string>(field)?.workspaceValue !== undefined) ||
+    (config.inspect<Partial<RelayProfile>[]>('profiles')?.workspaceValue || []).some(
+      (profile) => profile.apiKey !== undefined || profile.apiId !== undefined
+    )
+  );
+}
+
+/**
+ * 询问用户是否迁移工作区设置中的明文凭证
+ *
+ * 顶层凭证迁移到以工作区区分的安全存储键，不会影响其他工作区和窗口；用户选择保留时记住选择，不再询问
+ */
+async function promptWorkspaceMigration(): Promise<void> {
+  if (workspacePromptPending || workspaceState?.get<boolean>(KEEP_WORKSPACE_CREDENTIALS_KEY)) {
+    return;
+  }
+  workspacePromptPending = true;
+
+  try {
+    const migrateButton = '迁移到安全存储';
+    const keepButton = '保留在工作区设置';
+    const choice = await vscode.window.showWarningMessage(
+      'Claude Relay Meter: 工作区设置（.vscode/settings.json）中包含明文 API Key / API ID。是否迁移到只对当前工作区生效的安全存储，并从工作区设置中移除？',
+      migrateButton,
+      keepButton
+    );
+
+    if (choice === keepButton) {
+      await workspaceState?.update(KEEP_WORKSPACE_CREDENTIALS_KEY, true);
+      log('[Config Manager] 用户选择将明文凭证保留在工作区设置中');
+      return;
+    }
+    if (choice !== migrateButton) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration('relayMeter');
+    let migrated = 0;
+    for (const field of CREDENTIAL_FIELDS) {
+      const value = config.inspect<string>(field)?.workspaceValue;
+      const workspaceKey = getWorkspaceSecretKey(field);
+      if (value === undefined || !workspaceKey) {
+        continue;
+      }
+      if (value) {
+        await storeSecret(workspaceKey, value);
+        migrated++;
+      }
+      await config.update(field, undefined, vscode.ConfigurationTarget.Workspace);
+    }
+    migrated += await migrateProfiles(vscode.ConfigurationTarget.Workspace);
+
+    log(`[Config Manager] 已将工作区设置中的 ${migrated} 项明文凭证迁移到安全存储`);
+    vscode.window.showInformationMessage(`Claude Relay Meter: 已将工作区设置中的 ${migrated} 项 API Key / API ID 迁移到安全存储`);
+  } finally {
+    workspacePromptPending = false;
+  }
+}
+
+/**
+ * 提示文件夹设置中的明文凭证（多根工作区中，插件不读取文件夹设置中的凭证）
+ */
+function warnFolderCredentials(): void {
+  if (folderCredentialsWarned || !vscode.workspace.workspaceFile) {
+    return;
+  }
+
+  const folders = (vscode.workspace.workspaceFolders || []).filter((folder) => {
+    const config = vscode.workspace.getConfiguration('relayMeter', folder.uri);
+    return (
+      CREDENTIAL_FIELDS.some((field) => !!config.inspect<string>(field)?.workspaceFolderValue) ||
+      (config.inspect<Partial<RelayProfile>[]>('profiles')?.workspaceFolderValue || []).some((profile) => profile.apiKey || profile.apiId)
+    );
+  });
+  if (folders.length === 0) {
+    return;
+  }
+
+  folderCredentialsWarned = true;
+  const names = folders.map((folder) => folder.name).join('、');
+  log(`[Config Manager] 文件夹设置中包含明文凭证（不会被读取）：${names}`, true);
+  vscode.window.showWarningMessage(
+    `Claude Relay Meter: 文件夹"${names}"的设置中包含明文 API Key / API ID。这些设置只能在用户或工作区设置中配置，插件不会读取，请手动移除并使用"设置 API Key"命令保存`
+  );
+}
+
+/**
+ * 写入安全存储并更新缓存
+ * @param key - 安全存储键名
+ * @param value - 凭证值，为空时删除
+ */
+async function storeSecret(key: string, value: string): Promise<void> {
+  if (!secretStorage) {
+    throw new Error('安全存储尚未初始化');
+  }
+
+  // 先更新缓存，本窗口的 onDidChange 不会重复触发凭证变更事件
+  setCachedSecret(key, value);
+  if (value) {
+    await secretStorage.store(key, value);
+  } else {
+    await secretStorage.delete(key);
+  }
+
+  log(`[Config Manager] 凭证已${value ? '保存' : '删除'}: ${key}${value ? ` = ${maskApiKey(value)}` : ''}`);
+}
+
+/**
+ * 获取安全存储中的凭证（仅读取缓存）
+ * @param owner - 凭证所属的档案（undefined 表示顶层配置）
+ * @param field - 凭证字段
+ * @returns 凭证值，不存在时返回空字符串
+ */
+function getStoredCredential(owner: CredentialOwner, field: CredentialField): string {
+  return secretCache.get(getSecretKey(owner, field)) || '';
+}
+
+/**
+ * 获取凭证在安全存储中的键名
+ * @param owner - 凭证所属的档案（undefined 表示顶层配置）
+ * @param field - 凭证字段
+ * @returns 键名（有 id 的档案按 id，没有 id 的旧档案按名称）
+ */
+function getSecretKey(owner: CredentialOwner, field: CredentialField): string {
+  if (!owner) {
+    return `relayMeter.${field}`;
+  }
+  return owner.id ? `relayMeter.profile.${owner.id}.${field}` : `relayMeter.profiles.${owner.name}.${field}`;
+}
+
+/**
+ * 获取当前工作区的顶层凭证在安全存储中的键名
+ * @param field - 凭证字段
+ * @returns 键名（按工作区文件或第一个文件夹区分），没有打开工作区时返回 undefined
+ */
+function getWorkspaceSecretKey(field: CredentialField): string | undefined {
+  const workspaceUri = vscode.workspace.workspaceFile || vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (!workspaceUri) {
+    return undefined;
+  }
+  const hash = crypto.createHash('sha256').update(workspaceUri.toString()).digest('hex').slice(0, 16);
+  return `relayMeter.workspace.${hash}.${field}`;
+}
+
+/**
+ * 更新凭证缓存
+ * @param key - 安全存储键名
+ * @param value - 凭证值，为空时删除
+ */
+function setCachedSecret(key: string, value: string): void {
+  if (value) {
+    secretCache.set(key, value);
+  } else {
+    secretCache.delete(key);
+  }
+}
+
 /**
  * 检查监听开关是否启用
  * @returns 如果启用返回 true
@@ -0,0 +1,152 @@
+/**
+ * 文件说明：环境变量凭证来源
+ * 作用：从进程环境变量、工作区 .env 文件和 Shell 配置文件（.bashrc / .zshrc 等）中读取 ANTHROPIC_* 变量，
+ *       供 Claude Settings 读取工具按优先级与 settings.json 合并
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { log } from './logger';
+
+/**
+ * 需要读取的环境变量
+ */
+const CREDENTIAL_VARIABLES = ['ANTHROPIC_AUTH_TOKEN', 'ANTHROPIC_API_KEY', 'ANTHROPIC_BASE_URL'];
+
+/**
+ * 从单个来源读取到的变量
+ */
+export interface EnvCredentialFile {
+  path: string;
+  variables: Record<string, string>;
+}
+
+/**
+ * 读取进程环境变量中的凭证
+ * @returns 变量表（只包含 ANTHROPIC_* 凭证变量）
+ */
+export function readProcessEnv(): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const name of CREDENTIAL_VARIABLES) {
+    const value = (process.env[name] || '').trim();
+    if (value) {
+      variables[name] = value;
+    }
+  }
+  return variables;
+}
+
+/**
+ * 读取工作区 .env 文件中的凭证
+ * @param projectDir - 项目目录
+ * @returns 读取结果，文件不存在时返回 undefined
+ */
+export function readDotEnvFile(projectDir: string): EnvCredentialFile | undefined {
+  const filePath = path.join(projectDir, '.env');
+  const content = readTextFile(filePath);
+  return content === undefined ? undefined : { path: filePath, variables: parseAssignments(content, false) };
+}
+
+/**
+ * 获取要读取的 Shell 配置文件（无论是否存在）
+ * @returns 文件路径列表，按 Shell 加载顺序排列
+ *
+ * 根据 $SHELL 选择配置文件：zsh 读取 .zshenv / .zprofile / .zshrc，bash 读取 .profile / .bash_profile / .bashrc，
+ * 无法判断时两者都读取
+ */
+export function getShellProfilePaths(): string[] {
+  const shell = path.basename(process.env.SHELL || '');
+  const zshFiles = ['.zshenv', '.zprofile', '.zshrc'];
+  const bashFiles = ['.profile', '.bash_profile', '.bashrc'];
+  const fileNames = shell === 'zsh' ? zshFiles : shell === 'bash' ? bashFiles : [...bashFiles, ...zshFiles];
+  return fileNames.map((fileName) => path.join(os.homedir(), fileName));
+}
+
+/**
+ * 读取 Shell 配置文件中 export 的凭证
+ * @returns 读取结果列表，按 Shell 加载顺序的倒序排列（后加载的文件优先）
+ *
+ * 只解析 `export NAME=value` 形式的静态赋值，包含 $变量 或命令替换的值会被跳过
+ */
+export function readShellProfiles(): EnvCredentialFile[] {
+  const results: EnvCredentialFile[] = [];
+  for (const filePath of getShellProfilePaths()) {
+    const content = readTextFile(filePath);
+    if (content !== undefined) {
+      results.push({ path: filePath, variables: parseAssignments(content, true) });
+    }
+  }
+  return results.reverse();
+}
+
+/**
+ * 解析变量赋值语句
+ * @param content - 文件内容
+ * @param exportOnly - 是否只解析 export 语句（Shell 配置文件中未 export 的变量不会传给 Claude Code）
+ * @returns 变量表（只包含 ANTHROPIC_* 凭证变量，同名变量以最后一次赋值为准）
+ */
+function parseAssignments(content: string, exportOnly: boolean): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const pattern = exportOnly
+    ? /^\s*export\s+([A-Za-z_][A-Za-z0-9_]*)=(.*)$/
+    : /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=(.*)$/;
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = pattern.exec(line);
+    if (!match || !CREDENTIAL_VARIABLES.includes(match[1])) {
+      continue;
+    }
+
+    const value = parseValue(match[2]);
+    if (value === undefined) {
+      log(`[凭证来源] 跳过无法静态解析的赋值：${match[1]}`);
+      continue;
+    }
+    if (value) {
+      variables[match[1]] = value;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * 解析赋值语句的值
+ * @param raw - 等号右侧的原始文本
+ * @returns 去除引号和行尾注释后的值；包含变量引用或命令替换时返回 undefined
+ */
+function parseValue(raw: string): string | undefined {
+  const text = raw.trim();
+  const quote = text[0];
+
+  if (quote === '"' || quote === "'") {
+    const end = text.indexOf(quote, 1);
+    if (end < 0) {
+      return undefined;
+    }
+    const value = text.slice(1, end);
+    // 单引号内不展开变量
+    return quote === '"' && /[$`]/.test(value) ? undefined : value;
+  }
+
+  const value = text.replace(/\s+#.*$/, '').trim();
+  return /[$`]/.test(value) ? undefined : value;
+}
+
+/**
+ * 读取文本文件
+ * @param filePath - 文件路径
+ * @returns 文件内容，不存在或读取失败时返回 undefined
+ */
+function readTextFile(filePath: string): string | undefined {
+  try {
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    log(`[凭证来源] 读取文件失败（${filePath}）：${(error as Error).message}`, true);
+    return undefined;
+  }
+}
@@ -80,30 +80,6 @@ export function formatCost(amount: number): string {
   return `$${formatNumber(amount)}`;
 }
 
-/**
- * 格式化状态栏文本
- * @param used - 已使用金额
- * @param limit - 限额
- * @param percentage - 百分比（可选，如果不提供则自动计算）
- * @returns 格式化后的状态栏文本
- *
- * 示例：
- * formatStatusBarText(3.96, 100) => "$3.96/$100 3.96%"
- */
-export function formatStatusBarText(
-  used: number,
-  limit: number,
-  percentage?: number
-): string {
-  const formattedUsed = formatCost(used);
-  const formattedLimit = formatCost(limit);
-  const percentValue =
-    percentage !== undefined ? percentage : parseFloat(formatPercentage(used, limit));
-  const formattedPercent = formatPercentage(used, limit);
-
-  return `${formattedUsed}/${formattedLimit} ${formattedPercent}%`;
-}
-
 /**
  * 格式化悬停提示中的费用行
  * @param label - 标签文本
@@ -217,3 +193,44 @@ export function formatRemainingTime(seconds: number): string {
   // 中文不需要分隔符，直接连接
   return parts.join('');
 }
+
+/**
+ * 格式化时间点，当天只显示时分，其他日期附带月日
+ * @param timestamp - 时间戳（毫秒）
+ * @param now - 当前时间戳（默认为 Date.now()）
+ * @returns 格式化后的时间字符串
+ *
+ * 示例：
+ * formatClockTime(今天 16:40) => "16:40"
+ * formatClockTime(10月19日 09:05) => "10/19 09:05"
+ */
+export function formatClockTime(timestamp: number, now: number = Date.now()): string {
+  const date = new Date(timestamp);
+  const today = new Date(now);
+
+  const hours = date.getHours().toString().padStart(2, '0');
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const clock = `${hours}:${minutes}`;
+
+  if (date.toDateString() === today.toDateString()) {
+    return clock;
+  }
+
+  return `${date.getMonth() + 1}/${date.getDate()} ${clock}`;
+}
+
+/**
+ * 转义 Markdown 表格单元格
+ * @param text - 单元格文本
+ * @returns 转义后的文本
+ *
+ * 服务端返回的模型名称等可能包含 | 或换行（破坏表格结构），以及链接、强调等 Markdown 语法
+ * （悬停提示启用了 isTrusted，链接可以执行命令），全部按纯文本显示
+ *
+ * 示例：
+ * escapeMarkdownCell("a|b") => "a\|b"
+ * escapeMarkdownCell("[x](command:y)") => "\[x\](command:y)"
+ */
+export function escapeMarkdownCell(text: string): string {
+  return text.replace(/[\\`*_~[\]<>|]/g, '\\$&').replace(/\r?\n/g, ' ');
+}
@@ -0,0 +1,147 @@
+/**
+ * 文件说明：状态栏文本模板引擎
+ * 作用：解析 relayMeter.statusBarTemplate 中的 ${占位符}，支持校验和无数据时的回退值
+ */
+
+import { RelayApiResponse } from '../interfaces/types';
+import { formatCost, formatLargeNumber, formatPercentage, formatRemainingTime } from './formatter';
+
+/**
+ * 占位符匹配正则：${name} 或 ${name|回退值}
+ */
+const PLACEHOLDER_REGEX = /\$\{([^}|]+)(?:\|([^}]*))?\}/g;
+
+/**
+ * 占位符无数据时的默认回退值
+ */
+const DEFAULT_FALLBACK = '-';
+
+/**
+ * 支持的占位符及说明
+ */
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  'daily.used': '每日已用费用',
+  'daily.limit': '每日费用限额',
+  'daily.percent': '每日费用使用百分比',
+  'daily.remaining': '每日剩余费用',
+  'window.used': '窗口已用费用',
+  'window.limit': '窗口费用限额',
+  'window.percent': '窗口费用使用百分比',
+  'window.remaining': '窗口剩余费用',
+  'window.resetIn': '窗口重置剩余时间',
+  'opus.used': 'Opus 周已用费用',
+  'opus.limit': 'Opus 周费用限额',
+  'opus.percent': 'Opus 周费用使用百分比',
+  'opus.remaining': 'Opus 周剩余费用',
+  'total.used': '总已用费用',
+  'total.limit': '总费用限额',
+  'total.percent': '总费用使用百分比',
+  'total.remaining': '总剩余费用',
+  requests: '总请求数',
+  tokens: '总 Token 数',
+  cost: '累计费用',
+  name: 'API Key 名称',
+  profile: '档案名称',
+};
+
+/**
+ * 模板上下文：占位符名称到值的映射，值为 undefined 表示无数据
+ */
+export type TemplateContext = Record<string, string | undefined>;
+
+/**
+ * 模板校验结果
+ */
+export interface TemplateValidation {
+  valid: boolean;
+  unknownPlaceholders: string[];
+}
+
+/**
+ * 校验模板中的占位符
+ * @param template - 模板字符串
+ * @returns 校验结果（包含未知占位符列表）
+ */
+export function validateTemplate(template: string): TemplateValidation {
+  const unknownPlaceholders: string[] = [];
+
+  for (const match of template.matchAll(PLACEHOLDER_REGEX)) {
+    const name = match[1].trim();
+    // 只认自身属性，避免 ${constructor}、${toString} 等原型属性被当作有效占位符
+    if (!Object.prototype.hasOwnProperty.call(TEMPLATE_PLACEHOLDERS, name) && !unknownPlaceholders.includes(name)) {
+      unknownPlaceholders.push(name);
+    }
+  }
+
+  return { valid: unknownPlaceholders.length === 0, unknownPlaceholders };
+}
+
+/**
+ * 渲染模板
+ * @param template - 模板字符串
+ * @param context - 模板上下文
+ * @returns 渲染后的文本
+ *
+ * 示例：
+ * renderTemplate('日:${daily.used}/${daily.limit}', ctx) => "日:$3.96/$100"
+ * renderTemplate('Opus:${opus.percent|无}%', ctx)       => "Opus:无%"（无 Opus 限额时）
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER_REGEX, (_match, rawName: string, fallback?: string) => {
+    const name = rawName.trim();
+    const value = Object.prototype.hasOwnProperty.call(context, name) ? context[name] : undefined;
+    if (value !== undefined) {
+      return value;
+    }
+    return fallback !== undefined ? fallback : DEFAULT_FALLBACK;
+  });
+}
+
+/**
+ * 由 API 响应构建模板上下文
+ * @param data - API 响应数据
+ * @param profileName - 档案名称（可选）
+ * @returns 模板上下文
+ */
+export function buildTemplateContext(data: RelayApiResponse, profileName?: string): TemplateContext {
+  const limits = data.data.limits;
+  const total = data.data.usage.total;
+
+  const context: TemplateContext = {
+    ...buildCostGroup('daily', limits.currentDailyCost, limits.dailyCostLimit),
+    ...buildCostGroup('window', limits.currentWindowCost, limits.rateLimitCost),
+    ...buildCostGroup('opus', limits.weeklyOpusCost, limits.weeklyOpusCostLimit),
+    ...buildCostGroup('total', limits.currentTotalCost, limits.totalCostLimit),
+    requests: formatLargeNumber(total.requests),
+    tokens: formatLargeNumber(total.allTokens),
+    cost: total.formattedCost || formatCost(total.cost),
+    name: data.data.name || undefined,
+    profile: profileName,
+  };
+
+  // 窗口重置时间只在窗口有效时提供
+  context['window.resetIn'] =
+    limits.rateLimitCost > 0 && limits.windowRemainingSeconds !== null && limits.windowRemainingSeconds > 0
+      ? formatRemainingTime(limits.windowRemainingSeconds)
+      : undefined;
+
+  return context;
+}
+
+/**
+ * 构建一组费用占位符（used / limit / percent / remaining）
+ * @param group - 分组名称
+ * @param used - 已使用金额
+ * @param limit - 限额（为 0 时表示未设置限额）
+ * @returns 占位符映射
+ */
+function buildCostGroup(group: string, used: number, limit: number): TemplateContext {
+  const hasLimit = limit > 0;
+
+  return {
+    [`${group}.used`]: formatCost(used),
+    [`${group}.limit`]: hasLimit ? formatCost(limit) : undefined,
+    [`${group}.percent`]: hasLimit ? formatPercentage(used, limit) : undefined,
+    [`${group}.remaining`]: hasLimit ? formatCost(Math.max(0, limit - used)) : undefined,
+  };
+}